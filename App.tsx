@@ -1,61 +1,306 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { ControlPanel } from './components/ControlPanel';
 import { EditorCanvas } from './components/EditorCanvas';
 import { OutputPanel } from './components/OutputPanel';
-import { generateMusicChat } from './services/geminiService';
-import { AIResponse, Note, Message } from './types';
-import { MUSIC_STYLES } from './constants';
+import { generateMusicChat } from './services/musicChat';
+import { loadProviderSettings, saveProviderSettings, ProviderSettings } from './services/modelProvider';
+import { PartialReply, ResponseIssue } from './services/responseValidator';
+import { transcribeRecording } from './services/pitchTracking';
+import { AIResponse, AudioClip, ChatExchange, ChatSession, Note, Message, Project, Timing, Track } from './types';
+import { bindNotesToTracks, syncNotesToTracks } from './services/tracks';
+import { DEFAULT_TIMING } from './services/timing';
+import {
+  createHistory, describeNoteChange, describeTimingChange, describeTrackChange, getCurrentSnapshot,
+  pushHistory, redoHistory, ScoreHistory, ScoreSnapshot, undoHistory
+} from './services/history';
+import { applyChanges, diffScores, mergeProposalTracks, ScoreProposal } from './services/scoreDiff';
+import { createProject } from './services/project';
+import { getLastProjectId, loadProject, saveProject, setLastProjectId } from './services/projectStore';
+import { createBenchmarkProject } from './services/benchmarkProject';
+import {
+  appendTurn, branchSession, createSession, createTurnId, getSessionHistory, nextSessionName, sessionToMessages
+} from './services/chatSession';
 
 type TabType = 'build' | 'editor' | 'ai';
 
+const AUTOSAVE_DELAY_MS = 1000;
+
 function App() {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [style, setStyle] = useState<string>(MUSIC_STYLES[4]); 
-  const [selectedTools, setSelectedTools] = useState<string[]>(['harmony_analysis', 'instrumentation', 'rhythm_generation']);
+  const [blankProject] = useState(createProject);
+  const [projectInfo, setProjectInfo] = useState({ id: blankProject.id, name: blankProject.name, createdAt: blankProject.createdAt });
+  const [sessions, setSessions] = useState<ChatSession[]>(blankProject.sessions);
+  const [activeSessionId, setActiveSessionId] = useState<string>(blankProject.activeSessionId);
+  const [pendingMessage, setPendingMessage] = useState<Message | null>(null);
+  const [style, setStyle] = useState<string>(blankProject.style);
+  const [selectedTools, setSelectedTools] = useState<string[]>(blankProject.selectedTools);
   
-  const [generatedNotes, setGeneratedNotes] = useState<Note[]>([]);
+  // Notes, tracks and timing live in the undo history; the current entry is what is shown
+  const [history, setHistory] = useState<ScoreHistory>(() => createHistory({ notes: [], tracks: [], timing: DEFAULT_TIMING }));
+  const { notes: generatedNotes, tracks, timing } = getCurrentSnapshot(history);
+  // Read by replies that arrive after an await, so they see the canvas as it is by then
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const [proposal, setProposal] = useState<ScoreProposal | null>(null);
   const [aiResponse, setAiResponse] = useState<AIResponse | null>(null);
-  const [groundingSources, setGroundingSources] = useState<any[]>([]);
+  const [groundingSources, setGroundingSources] = useState<any[]>(blankProject.groundingSources);
+  const [responseIssues, setResponseIssues] = useState<ResponseIssue[]>([]);
+  // The reply as it streams in; its notes are drawn as provisional until the turn completes
+  const [streamingReply, setStreamingReply] = useState<PartialReply | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isRightSidebarOpen, setIsRightSidebarOpen] = useState<boolean>(true);
   const [activeTab, setActiveTab] = useState<TabType>('build');
+  const [isProjectReady, setIsProjectReady] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const isProjectStoredRef = useRef(false);
+  const temporaryProjectIdRef = useRef<string | null>(null); // The benchmark score, which is never saved
+
+  const activeSession = sessions.find(s => s.id === activeSessionId) || sessions[0];
+  const messages = useMemo(
+    () => [...sessionToMessages(activeSession), ...(pendingMessage ? [pendingMessage] : [])],
+    [activeSession, pendingMessage]
+  );
+
+  const project: Project = useMemo(() => ({
+    ...projectInfo, updatedAt: Date.now(), notes: generatedNotes, tracks, timing, style, selectedTools, sessions, activeSessionId, aiResponse, groundingSources
+  }), [projectInfo, generatedNotes, tracks, timing, style, selectedTools, sessions, activeSessionId, aiResponse, groundingSources]);
+  const projectRef = useRef(project);
+  projectRef.current = project;
+
+  // A blank project is only written once it has notes or chat, so opening the app leaves no clutter
+  const persistProject = useCallback((current: Project) => {
+    if (current.id === temporaryProjectIdRef.current) return;
+    if (!isProjectStoredRef.current && current.notes.length === 0 && current.sessions.every(s => s.turns.length === 0)) return;
+    isProjectStoredRef.current = true;
+    saveProject({ ...current, updatedAt: Date.now() })
+      .then(() => { setLastProjectId(current.id); setSaveError(null); })
+      .catch(e => setSaveError(e instanceof Error ? e.message : 'Could not save the project'));
+  }, []);
+
+  // Replaces the whole session; the project being left is saved first unless it was just deleted
+  const switchProject = useCallback((next: Project, saveCurrent = true) => {
+    if (saveCurrent) persistProject(projectRef.current);
+    const bound = bindNotesToTracks(next.notes, next.tracks);
+    setProjectInfo({ id: next.id, name: next.name, createdAt: next.createdAt });
+    setHistory(createHistory({ notes: bound.notes, tracks: bound.tracks, timing: next.timing }, `Opened ${next.name}`));
+    setSessions(next.sessions);
+    setActiveSessionId(next.activeSessionId);
+    setStyle(next.style);
+    setSelectedTools(next.selectedTools);
+    setAiResponse(next.aiResponse);
+    setGroundingSources(next.groundingSources);
+    setResponseIssues([]);
+    setProposal(null);
+    setError(null);
+    isProjectStoredRef.current = false;
+  }, [persistProject]);
+
+  const handleProjectOpen = useCallback((next: Project) => {
+    switchProject(next);
+    isProjectStoredRef.current = true;
+  }, [switchProject]);
+
+  const handleProjectNew = useCallback(() => switchProject(createProject()), [switchProject]);
+
+  const handleProjectDeleted = useCallback((id: string) => {
+    if (id === projectRef.current.id) switchProject(createProject(), false);
+  }, [switchProject]);
+
+  const handleProjectRename = useCallback((name: string) => {
+    setProjectInfo(prev => ({ ...prev, name }));
+  }, []);
+
+  // Reopens the last project on startup; autosave waits for this so it cannot overwrite it.
+  // Opening the app with #benchmark loads the 10k-note benchmark score instead, without saving it
+  // or making it the project reopened next time
+  useEffect(() => {
+    if (window.location.hash === '#benchmark') {
+      const benchmark = createBenchmarkProject();
+      temporaryProjectIdRef.current = benchmark.id;
+      switchProject(benchmark, false);
+      setIsProjectReady(true);
+      return;
+    }
+    const lastId = getLastProjectId();
+    (lastId ? loadProject(lastId) : Promise.resolve(null))
+      .then(stored => { if (stored) handleProjectOpen(stored); })
+      .catch(e => console.warn("Could not reopen the last project", e))
+      .finally(() => setIsProjectReady(true));
+  }, [handleProjectOpen, switchProject]);
+
+  useEffect(() => {
+    if (!isProjectReady) return;
+    const timer = setTimeout(() => persistProject(project), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, isProjectReady, persistProject]);
 
-  const handleManualNotesChange = useCallback((newNotes: Note[]) => {
-    setGeneratedNotes(newNotes);
+  // Hiding or closing the tab saves straight away instead of waiting for the autosave delay
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden' && isProjectReady) persistProject(projectRef.current);
+    };
+    document.addEventListener('visibilitychange', handleHide);
+    return () => document.removeEventListener('visibilitychange', handleHide);
+  }, [isProjectReady, persistProject]);
+
+  // Commands such as transforms name their own history entry; plain edits are described from the diff
+  const handleManualNotesChange = useCallback((newNotes: Note[], label?: string) => {
+    setHistory(prev => {
+      const current = getCurrentSnapshot(prev);
+      const change = describeNoteChange(current.notes, newNotes, current.timing);
+      if (!change) return prev;
+      const bound = bindNotesToTracks(newNotes, current.tracks);
+      return pushHistory(prev, { ...current, notes: bound.notes, tracks: bound.tracks }, label ? { label } : change);
+    });
+  }, []);
+
+  const handleTracksChange = useCallback((newTracks: Track[]) => {
+    setHistory(prev => {
+      const current = getCurrentSnapshot(prev);
+      const change = describeTrackChange(current.tracks, newTracks);
+      if (!change) return prev;
+      return pushHistory(prev, { ...current, tracks: newTracks, notes: syncNotesToTracks(current.notes, newTracks) }, change);
+    });
+  }, []);
+
+  const handleTimingChange = useCallback((newTiming: Timing) => {
+    setHistory(prev => {
+      const current = getCurrentSnapshot(prev);
+      const change = describeTimingChange(current.timing, newTiming);
+      return change ? pushHistory(prev, { ...current, timing: newTiming }, change) : prev;
+    });
+  }, []);
+
+  // Applies the accepted part of the pending proposal as a single history step
+  const handleProposalCommit = useCallback(() => {
+    if (!proposal) return;
+    setHistory(prev => {
+      const current = getCurrentSnapshot(prev);
+      const changes = diffScores(current.notes, proposal.notes);
+      const notes = applyChanges(current.notes, changes, proposal.rejectedIds);
+      const accepted = changes.filter(c => !proposal.rejectedIds.includes(c.id)).length;
+      if (accepted === 0) return prev;
+      const label = accepted < changes.length ? `${proposal.label} (${accepted} of ${changes.length} changes)` : proposal.label;
+      return pushHistory(prev, { ...current, notes, tracks: mergeProposalTracks(current.tracks, proposal.tracks, notes) }, { label });
+    });
+    setProposal(null);
+  }, [proposal]);
+
+  const handleImport = useCallback((importedNotes: Note[], importedTiming?: Timing) => {
+    setHistory(prev => {
+      const current = getCurrentSnapshot(prev);
+      const bound = bindNotesToTracks(importedNotes, current.tracks);
+      const snapshot = { notes: bound.notes, tracks: bound.tracks, timing: importedTiming || current.timing };
+      return pushHistory(prev, snapshot, { label: `Imported ${importedNotes.length} notes` });
+    });
   }, []);
 
-  const handleSendMessage = useCallback(async (text: string, audio?: { data: string; mimeType: string }) => {
+  useEffect(() => saveProviderSettings(providerSettings), [providerSettings]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        setHistory(undoHistory);
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        setHistory(redoHistory);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleNewSession = useCallback(() => {
+    const session = createSession(nextSessionName(sessions));
+    setSessions([...sessions, session]);
+    setActiveSessionId(session.id);
+  }, [sessions]);
+
+  // Continues the conversation from an earlier turn in a new session, leaving this one as it is
+  const handleBranchSession = useCallback((turnId: string) => {
+    const turnNumber = activeSession.turns.findIndex(t => t.id === turnId) + 1;
+    const branch = branchSession(activeSession, turnId, `${activeSession.name} · turn ${turnNumber}`);
+    setSessions([...sessions, branch]);
+    setActiveSessionId(branch.id);
+  }, [sessions, activeSession]);
+
+  const handleSendMessage = useCallback(async (text: string, audio?: AudioClip) => {
     setIsLoading(true);
     setError(null);
-    
-    const userMsg: Message = { role: 'user', text, isAudio: !!audio };
-    setMessages(prev => [...prev, userMsg]);
+    setPendingMessage({ role: 'user', text, isAudio: !!audio });
+
+    // The turn is recorded in the session it was sent from, even if another one is opened meanwhile
+    const sessionId = activeSession.id;
+    const canvas = { notes: generatedNotes, tracks, timing };
+    const recordTurn = (exchanges: ChatExchange[], summary: string) => {
+      const turn = { id: createTurnId(), createdAt: Date.now(), prompt: text, isAudio: !!audio, canvas, exchanges, summary };
+      setSessions(prev => prev.map(s => (s.id === sessionId ? appendTurn(s, turn) : s)));
+    };
+    // Built against the current canvas, which may have been edited while the reply was on its way.
+    // An empty canvas takes the result as one undoable step; anything else gets a proposal to review.
+    const offerScore = (label: string, build: (current: ScoreSnapshot) => { notes: Note[]; tracks: Track[] }) => {
+      const current = getCurrentSnapshot(historyRef.current);
+      const next = build(current);
+      if (current.notes.length === 0) {
+        setHistory(prev => pushHistory(prev, { ...getCurrentSnapshot(prev), ...next }, { label }));
+      } else {
+        setProposal({ label, ...next, rejectedIds: [] });
+      }
+    };
     
     if (window.innerWidth < 768) setActiveTab('ai');
     setIsRightSidebarOpen(true);
 
     try {
-      const { response, groundingSources } = await generateMusicChat(
+      if (audio && providerSettings.humMode === 'local') {
+        // On-device only: the transcription joins the canvas without a model turn
+        const { notes: hummed, warnings } = await transcribeRecording(audio, timing);
+        if (hummed.length === 0) throw new Error(warnings[0] || 'No melody could be transcribed from the recording');
+        offerScore(`Hummed melody (${hummed.length} notes)`, current => bindNotesToTracks([...current.notes, ...hummed], current.tracks));
+        recordTurn([], `Transcribed ${hummed.length} notes on device.`);
+        return;
+      }
+
+      const { response, groundingSources, issues, exchanges } = await generateMusicChat(
         text, 
         style, 
         selectedTools, 
         generatedNotes, // Send current state for context awareness
-        audio
+        tracks,
+        timing,
+        providerSettings,
+        getSessionHistory(activeSession),
+        audio,
+        setStreamingReply
       );
       
       setAiResponse(response);
       setGroundingSources(groundingSources || []);
-      setGeneratedNotes(response.musicalSequence);
+      setResponseIssues(issues);
+      const summary = audio ? 'Audio transcription' : text.trim() || 'Enhance composition';
+      const label = `AI: ${summary.length > 48 ? `${summary.slice(0, 45)}...` : summary}`;
+      offerScore(label, current => bindNotesToTracks(response.musicalSequence, current.tracks, response.tracks));
       
-      const modelMsg: Message = { role: 'model', text: response.thoughtProcess.slice(0, 120) + "..." };
-      setMessages(prev => [...prev, modelMsg]);
+      recordTurn(exchanges, response.thoughtProcess.slice(0, 120) + "...");
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'Studio session error');
+      const message = e instanceof Error ? e.message : 'Studio session error';
+      setError(message);
+      // Kept in the transcript but never replayed, since the model did not answer it
+      recordTurn([], `Failed: ${message}`);
     } finally {
+      // Provisional notes never entered the history, so a failed stream leaves the canvas as it was
+      setStreamingReply(null);
+      setPendingMessage(null);
       setIsLoading(false);
     }
-  }, [style, selectedTools, generatedNotes]);
+  }, [style, selectedTools, generatedNotes, tracks, timing, providerSettings, activeSession]);
 
   return (
     <div className="h-screen w-screen flex flex-col md:flex-row bg-[#020617] text-slate-100 overflow-hidden font-sans relative">
@@ -67,12 +312,25 @@ function App() {
       `}>
         <ControlPanel
           messages={messages}
+          sessions={sessions}
+          activeSessionId={activeSession.id}
+          onSelectSession={setActiveSessionId}
+          onNewSession={handleNewSession}
+          onBranchSession={handleBranchSession}
           onSendMessage={handleSendMessage}
           style={style}
           setStyle={setStyle}
           selectedTools={selectedTools}
           setSelectedTools={setSelectedTools}
           isLoading={isLoading}
+          providerSettings={providerSettings}
+          onProviderSettingsChange={setProviderSettings}
+          project={project}
+          saveError={saveError}
+          onProjectOpen={handleProjectOpen}
+          onProjectNew={handleProjectNew}
+          onProjectRename={handleProjectRename}
+          onProjectDeleted={handleProjectDeleted}
         />
       </aside>
       
@@ -83,7 +341,19 @@ function App() {
       `}>
         <EditorCanvas 
           notes={generatedNotes} 
+          tracks={tracks}
+          timing={timing}
           onManualNotesChange={handleManualNotesChange}
+          onTracksChange={handleTracksChange}
+          onTimingChange={handleTimingChange}
+          onImport={handleImport}
+          history={history}
+          onHistoryChange={setHistory}
+          proposal={proposal}
+          onProposalChange={setProposal}
+          onProposalCommit={handleProposalCommit}
+          lyrics={aiResponse?.lyrics}
+          provisionalNotes={streamingReply?.notes}
         />
       </main>
 
@@ -114,9 +384,15 @@ function App() {
         <div className="w-full md:w-96 h-full">
           <OutputPanel 
             aiResponse={aiResponse} 
+            notes={generatedNotes}
+            tracks={tracks}
+            timing={timing}
             groundingSources={groundingSources}
+            responseIssues={responseIssues}
             isLoading={isLoading} 
             error={error} 
+            streamingText={streamingReply?.thoughtProcess}
+            isVisible={isRightSidebarOpen || activeTab === 'ai'}
           />
         </div>
       </aside>
@@ -1,22 +1,39 @@
 import React, { useState, useRef } from 'react';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
-import { Checkbox } from './ui/Checkbox';
-import { MUSIC_STYLES, AVAILABLE_TOOLS } from '../constants';
-import { Message } from '../types';
+import { MUSIC_STYLES } from '../constants';
+import { AVAILABLE_TOOLS } from '../services/tools';
+import { AudioClip, ChatSession, Message, Project } from '../types';
+import { ProviderSettings as Settings } from '../services/modelProvider';
+import { ProviderSettings } from './ProviderSettings';
+import { ProjectBrowser } from './ProjectBrowser';
 
 interface ControlPanelProps {
   messages: Message[];
-  onSendMessage: (text: string, audio?: { data: string; mimeType: string }) => void;
+  sessions: ChatSession[];
+  activeSessionId: string;
+  onSelectSession: (id: string) => void;
+  onNewSession: () => void;
+  onBranchSession: (turnId: string) => void;
+  onSendMessage: (text: string, audio?: AudioClip) => void;
   style: string;
   setStyle: (style: string) => void;
   selectedTools: string[];
   setSelectedTools: (tools: string[]) => void;
   isLoading: boolean;
+  providerSettings: Settings;
+  onProviderSettingsChange: (settings: Settings) => void;
+  project: Project;
+  saveError: string | null;
+  onProjectOpen: (project: Project) => void;
+  onProjectNew: () => void;
+  onProjectRename: (name: string) => void;
+  onProjectDeleted: (id: string) => void;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
-  messages, onSendMessage, style, setStyle, selectedTools, setSelectedTools, isLoading
+  messages, sessions, activeSessionId, onSelectSession, onNewSession, onBranchSession, onSendMessage, style, setStyle, selectedTools, setSelectedTools, isLoading, providerSettings, onProviderSettingsChange,
+  project, saveError, onProjectOpen, onProjectNew, onProjectRename, onProjectDeleted
 }) => {
   const [input, setInput] = useState('');
   const [isRecording, setIsRecording] = useState(false);
@@ -24,7 +41,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   const audioChunksRef = useRef<Blob[]>([]);
 
   const handleToolChange = (id: string) => {
-    setSelectedTools(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+    setSelectedTools(selectedTools.includes(id) ? selectedTools.filter(x => x !== id) : [...selectedTools, id]);
   };
 
   const startRecording = async () => {
@@ -75,11 +92,45 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
   return (
     <Card className="h-full flex flex-col bg-slate-900 border-none shadow-none rounded-none w-full overflow-hidden border-r border-slate-800">
-      <div className="p-4 border-b border-slate-800 bg-slate-900/80 backdrop-blur-md flex-shrink-0 z-10">
+      <div className="p-4 border-b border-slate-800 bg-slate-900/80 backdrop-blur-md flex-shrink-0 z-10 flex items-center justify-between">
         <h1 className="text-xl font-black text-white flex items-center gap-2">
           <div className="w-4 h-4 bg-cyan-500 rounded-sm"></div>
           MUSICO <span className="text-cyan-500">CORE</span>
         </h1>
+        <div className="flex items-center gap-2">
+          <ProjectBrowser
+            project={project}
+            saveError={saveError}
+            onOpen={onProjectOpen}
+            onNew={onProjectNew}
+            onRename={onProjectRename}
+            onDeleted={onProjectDeleted}
+          />
+          <ProviderSettings settings={providerSettings} onSettingsChange={onProviderSettingsChange} />
+        </div>
+      </div>
+
+      <div className="px-4 py-2 border-b border-slate-800 bg-slate-900 flex items-center gap-2">
+        <select
+          value={activeSessionId}
+          onChange={e => onSelectSession(e.target.value)}
+          disabled={isLoading}
+          className="flex-grow min-w-0 bg-slate-950 border border-slate-800 rounded px-2 py-1 text-[10px] font-bold text-slate-400 focus:outline-none focus:border-cyan-500"
+          title="Chat session"
+        >
+          {sessions.map(s => (
+            <option key={s.id} value={s.id}>
+              {s.branchOf ? '↳ ' : ''}{s.name} ({s.turns.length} {s.turns.length === 1 ? 'turn' : 'turns'})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={onNewSession}
+          disabled={isLoading}
+          className="px-2 py-1 rounded-md border border-slate-800 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-cyan-400 hover:border-cyan-500/50 disabled:opacity-30"
+        >
+          New Chat
+        </button>
       </div>
 
       <div className="flex-grow p-4 space-y-4 overflow-y-auto custom-scrollbar bg-slate-950/20">
@@ -90,7 +141,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         )}
         {messages.map((m, i) => (
-          <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+          <div key={i} className={`group flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
             <div className={`max-w-[85%] rounded-lg px-3 py-2 text-xs leading-relaxed ${
               m.role === 'user' ? 'bg-cyan-600/20 text-cyan-100 border border-cyan-500/30' : 'bg-slate-800/50 text-slate-300 border border-slate-700'
             }`}>
@@ -104,6 +155,15 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               )}
               {m.text}
             </div>
+            {m.role === 'model' && m.turnId && !isLoading && (
+              <button
+                onClick={() => onBranchSession(m.turnId!)}
+                className="mt-1 text-[9px] font-bold uppercase tracking-widest text-slate-600 hover:text-cyan-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Continue from this reply in a new chat"
+              >
+                Branch from here
+              </button>
+            )}
           </div>
         ))}
         {isLoading && (
@@ -127,6 +187,23 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         >
           {MUSIC_STYLES.map(s => <option key={s} value={s}>{s}</option>)}
         </select>
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {AVAILABLE_TOOLS.map(tool => {
+            const isOn = selectedTools.includes(tool.id);
+            return (
+              <button
+                key={tool.id}
+                type="button"
+                onClick={() => handleToolChange(tool.id)}
+                aria-pressed={isOn}
+                title={tool.description}
+                className={`px-2 py-1 rounded-md border text-[9px] font-bold uppercase tracking-wider transition-colors ${isOn ? 'border-cyan-500/50 bg-cyan-500/10 text-cyan-300' : 'border-slate-800 text-slate-600 hover:text-slate-400'}`}
+              >
+                {tool.name}
+              </button>
+            );
+          })}
+        </div>
       </div>
 
       <div className="p-4 bg-slate-900 border-t border-slate-800">
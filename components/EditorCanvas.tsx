@@ -1,70 +1,232 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useDeferredValue, useEffect, useLayoutEffect, useMemo } from 'react';
 import { Card } from './ui/Card';
-import { Note } from '../types';
-import { PITCH_MAP, DURATION_MAP } from '../constants';
+import { ImportDialog } from './ImportDialog';
+import { ExportMenu } from './ExportMenu';
+import { TransformMenu } from './TransformMenu';
+import { TrackList } from './TrackList';
+import { TimingPanel } from './TimingPanel';
+import { HistoryPanel } from './HistoryPanel';
+import { AuditionVersion, ProposalPanel } from './ProposalPanel';
+import { Note, NoteDuration, Timing, Track } from '../types';
+import { HIGHEST_MIDI, LOWEST_MIDI } from '../constants';
+import { midiToPitch, pitchToMidi } from '../services/pitch';
+import { createTransport, LoopRegion, Transport, TransportOptions, TransportScore } from '../services/transport';
+import { getAudibleTrackIds } from '../services/tracks';
+import { DRUM_LANES, getDrumLaneIndex, getDrumPitch, getPercussionTrackIds, getPitchedNotes } from '../services/drums';
+import { getNoteEnd, getNoteLength, getScoreEnd } from '../services/notation';
+import { durationToUnits, formatDuration, isTripletUnits, unitsToDuration } from '../services/duration';
+import { getBarAt, getBarLines } from '../services/timing';
+import { createNoteIndex } from '../services/noteIndex';
+import { ScoreHistory } from '../services/history';
+import { applyChanges, diffScores, NoteChange, ScoreProposal } from '../services/scoreDiff';
+import { analyzeHarmony } from '../services/harmony';
+import { applyToSelection, exceptNotes, shiftTime, transposeChromatic } from '../services/transforms';
+import { parseClipboard, placeClipboardNotes, serializeNotes } from '../services/clipboard';
 
 interface EditorCanvasProps {
   notes: Note[];
-  onManualNotesChange: (notes: Note[]) => void;
+  tracks: Track[];
+  timing: Timing;
+  onManualNotesChange: (notes: Note[], label?: string) => void;
+  onTracksChange: (tracks: Track[]) => void;
+  onTimingChange: (timing: Timing) => void;
+  onImport: (notes: Note[], timing?: Timing) => void;
+  history: ScoreHistory;
+  onHistoryChange: (history: ScoreHistory) => void;
+  proposal: ScoreProposal | null;
+  onProposalChange: (proposal: ScoreProposal | null) => void;
+  onProposalCommit: () => void;
+  lyrics?: string | null;
+  provisionalNotes?: Note[]; // Notes of a reply that is still streaming
 }
 
-const PIXELS_PER_UNIT = 32; // Horizontal width of one time unit (1/16th note)
-const ROW_HEIGHT = 20; // Height of one pitch row
-const TEMPO_BPM = 120;
-const SECONDS_PER_BEAT = 60 / TEMPO_BPM;
-const QUARTER_DURATION = 4; // 1 unit = 1/16th, so 4 units = 1 quarter
-const PIXELS_PER_SECOND = (PIXELS_PER_UNIT * 16) / (SECONDS_PER_BEAT * 4); 
+const DEFAULT_UNIT_WIDTH = 32; // Horizontal width of one time unit (1/16th note) at 100% zoom
+const DEFAULT_ROW_HEIGHT = 20; // Height of one pitch row at 100% zoom
+const UNIT_WIDTH_RANGE: [number, number] = [4, 128];
+const ROW_HEIGHT_RANGE: [number, number] = [8, 40];
+const ZOOM_STEP = 1.25;
+const SIDEBAR_WIDTH = 64; // The piano keys (w-16)
+const GRID_PADDING_UNITS = 64; // Empty grid after the last note: four bars of 4/4
+// Only what lies in the viewport plus this margin is drawn. The viewport is tracked in steps
+// of VIEWPORT_STEP pixels, so scrolling re-renders a few times per screen, not on every frame.
+const OVERSCAN = 256;
+const VIEWPORT_STEP = 256;
+const DRAW_DURATIONS: NoteDuration[] = [
+  'sixteenth', 'eighth', 'dotted-eighth', 'triplet-eighth', 'quarter', 'dotted-quarter', 'triplet-quarter', 'half', 'dotted-half', 'whole'
+];
+const DRAG_THRESHOLD = 4; // Pixels the pointer must travel before a press becomes a drag
 
-// MIDI Range: C1 (24) to C8 (108) = 85 notes
-const TOTAL_ROWS = 85; 
-const START_MIDI = 108; // Top row is C8 (MIDI 108)
+// MIDI Range: C1 (24) to C8 (108) = 85 notes. Drum lanes, when shown, follow below C1.
+const TOTAL_ROWS = HIGHEST_MIDI - LOWEST_MIDI + 1;
+const START_MIDI = HIGHEST_MIDI; // Top row is C8 (MIDI 108)
 const MIDDLE_C_MIDI = 60; // C4 is MIDI 60
 
-const getPitchFromRow = (row: number): string => {
-  const midiNote = START_MIDI - row;
-  const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-  const name = noteNames[midiNote % 12];
-  const octave = Math.floor(midiNote / 12) - 1;
-  return `${name}${octave}`;
-};
+const getPitchFromRow = (row: number): string => midiToPitch(START_MIDI - row);
 
 const getRowFromPitch = (pitch: string): number => {
-  const match = pitch.match(/([A-G][#b]?)([0-9])/i);
-  if (!match) return 0;
-  let name = match[1].toUpperCase();
-  const octave = parseInt(match[2], 10);
-  const accidentalMap: { [key: string]: string } = { 'DB': 'C#', 'EB': 'D#', 'GB': 'F#', 'AB': 'G#', 'BB': 'A#' };
-  name = accidentalMap[name] || name;
-  const noteValue = PITCH_MAP[name.replace('#', '')] + (name.includes('#') ? 1 : 0);
-  const midiNote = (octave + 1) * 12 + noteValue;
+  const midiNote = pitchToMidi(pitch);
+  if (midiNote === null) return 0;
   return START_MIDI - midiNote;
 };
 
-const getFrequencyFromPitch = (pitch: string): number => {
-  const row = getRowFromPitch(pitch);
-  const midiNote = START_MIDI - row;
-  return 440 * Math.pow(2, (midiNote - 69) / 12);
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable);
+};
+
+const countNotes = (count: number): string => `${count} note${count === 1 ? '' : 's'}`;
+
+const clampZoom = (value: number, [min, max]: [number, number]): number => Math.min(max, Math.max(min, value));
+
+const formatBarBeat = (timing: Timing, unit: number): string => {
+  const bar = getBarAt(timing, unit);
+  return `Bar ${bar.index + 1}.${Math.floor((unit - bar.time) / bar.beatLength) + 1}`;
+};
+
+// A press on the grid becomes a rubber band once dragged; a press on a note moves the selection
+// On the ruler a press seeks, a drag draws a loop region and the region's body or edges move it
+type Gesture =
+  | { kind: 'band'; startX: number; startY: number; x: number; y: number; additive: boolean; moved: boolean }
+  | { kind: 'move'; startX: number; startY: number; notes: Set<Note>; units: number; semitones: number; moved: boolean }
+  | { kind: 'ruler'; startX: number; x: number; fine: boolean; moved: boolean }
+  | { kind: 'loop'; edge: 'start' | 'end' | 'both'; startX: number; origin: LoopRegion; units: number; moved: boolean };
+
+const RULER_HEIGHT = 16;
+
+// Loop edges snap to beats (quarter notes), or to 16ths while Shift is held
+const snapLoopEdge = (unit: number, fine: boolean): number => {
+  const step = fine ? 1 : 4;
+  return Math.max(0, Math.round(unit / step) * step);
+};
+
+// The loop region a ruler or loop drag would leave behind, or null for one under a 16th long
+const getDraggedLoop = (gesture: Gesture, unitWidth: number): LoopRegion | null => {
+  if (gesture.kind === 'ruler') {
+    const start = snapLoopEdge(Math.min(gesture.startX, gesture.x) / unitWidth, gesture.fine);
+    const end = snapLoopEdge(Math.max(gesture.startX, gesture.x) / unitWidth, gesture.fine);
+    return end - start >= 1 ? { start, end } : null;
+  }
+  if (gesture.kind !== 'loop') return null;
+  const { origin, edge } = gesture;
+  const units = Math.max(gesture.units, edge === 'end' ? 1 - (origin.end - origin.start) : -origin.start);
+  const start = edge === 'end' ? origin.start : origin.start + units;
+  const end = edge === 'start' ? origin.end : origin.end + units;
+  return end - start >= 1 ? { start, end } : null;
 };
 
-export const EditorCanvas: React.FC<EditorCanvasProps> = ({ notes, onManualNotesChange }) => {
+export const EditorCanvas: React.FC<EditorCanvasProps> = ({
+  notes, tracks, timing, onManualNotesChange, onTracksChange, onTimingChange, onImport, history, onHistoryChange,
+  proposal, onProposalChange, onProposalCommit, lyrics, provisionalNotes = []
+}) => {
   const [isPlaying, setIsPlaying] = useState(false);
-  const [playheadPos, setPlayheadPos] = useState(0);
+  const [isCountingIn, setIsCountingIn] = useState(false);
+  const [position, setPosition] = useState(0); // Playhead in grid units; where playback resumes
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+  const [isLooping, setIsLooping] = useState(false);
+  const [metronome, setMetronome] = useState(false);
+  const [countIn, setCountIn] = useState(false);
   const [hoveredCell, setHoveredCell] = useState<{ row: number; col: number } | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
+  const [drawDuration, setDrawDuration] = useState<NoteDuration>('quarter');
+  const [resizing, setResizing] = useState<{ index: number; units: number } | null>(null);
+  const [auditioning, setAuditioning] = useState<AuditionVersion | null>(null);
+  const [showChords, setShowChords] = useState(true);
+  const [selectedNotes, setSelectedNotes] = useState<Note[]>([]);
+  const [gesture, setGesture] = useState<Gesture | null>(null);
+  const [unitWidth, setUnitWidth] = useState(DEFAULT_UNIT_WIDTH);
+  const [rowHeight, setRowHeight] = useState(DEFAULT_ROW_HEIGHT);
+  // Scroll position rounded down to VIEWPORT_STEP, and the visible size, in pixels
+  const [viewport, setViewport] = useState({ left: 0, top: 0, width: 0, height: 0 });
+
+  const activeTrack = tracks.find(t => t.id === activeTrackId) || tracks[0] || null;
+  const trackById = useMemo(() => new Map(tracks.map(t => [t.id, t])), [tracks]);
+  const audibleTrackIds = useMemo(() => getAudibleTrackIds(tracks), [tracks]);
+  const percussionTrackIds = useMemo(() => getPercussionTrackIds([...tracks, ...(proposal?.tracks || [])]), [tracks, proposal]);
+  const rowCount = TOTAL_ROWS + (percussionTrackIds.size > 0 ? DRUM_LANES.length : 0);
+  // The grid runs a few bars past the last note (or proposed or streaming note), and always fills the view
+  const scoreEnd = useMemo(
+    () => Math.max(getScoreEnd(notes), getScoreEnd(proposal?.notes || []), getScoreEnd(provisionalNotes)),
+    [notes, proposal, provisionalNotes]
+  );
+  const gridUnits = Math.ceil(Math.max(scoreEnd + GRID_PADDING_UNITS, loop?.end || 0, viewport.width / unitWidth));
+  const barLines = useMemo(() => getBarLines(timing, gridUnits), [timing, gridUnits]);
+  const noteIndex = useMemo(() => createNoteIndex(notes), [notes]);
+  // Chord labels are re-analyzed in a deferred render, so edits to long scores draw at once
+  const harmonyNotes = useDeferredValue(notes);
+  const harmony = useMemo(() => (showChords ? analyzeHarmony(getPitchedNotes(harmonyNotes, tracks), timing) : null), [showChords, harmonyNotes, tracks, timing]);
+  // Re-diffed against the live canvas so edits made during review are respected
+  const proposalChanges = useMemo(() => (proposal ? diffScores(notes, proposal.notes) : []), [notes, proposal]);
+  const rejectedChangeIds = useMemo(() => new Set(proposal?.rejectedIds || []), [proposal]);
+  const proposalTrackById = useMemo(() => new Map((proposal?.tracks || tracks).map(t => [t.id, t])), [proposal, tracks]);
+  // Selection holds note objects; anything removed from the canvas since drops out of it
+  const selection = useMemo(() => {
+    const present = new Set(notes);
+    return new Set(selectedNotes.filter(n => present.has(n)));
+  }, [notes, selectedNotes]);
   
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const workspaceRef = useRef<HTMLDivElement>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
   const masterGainRef = useRef<GainNode | null>(null);
   const animationRef = useRef<number | null>(null);
-  const startTimeRef = useRef<number>(0);
-  const activeSources = useRef<OscillatorNode[]>([]);
+  const transportRef = useRef<Transport | null>(null);
+  const resizeOriginRef = useRef<{ index: number; startX: number; startUnits: number; time: number } | null>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const rulerPlayheadRef = useRef<HTMLDivElement>(null);
+  const clockRef = useRef<HTMLSpanElement>(null);
+  const zoomAnchorRef = useRef<{ unit: number; row: number; x: number; y: number } | null>(null);
+
+  const isDrumHit = (note: Note): boolean => !!note.trackId && percussionTrackIds.has(note.trackId);
+
+  // Drum hits sit on their lane below the keyboard; everything else on its pitch row
+  const getNoteRow = (note: Note): number =>
+    isDrumHit(note) ? TOTAL_ROWS + getDrumLaneIndex(note.pitch) : getRowFromPitch(note.pitch);
+
+  const isDrumRow = (row: number): boolean => row >= TOTAL_ROWS;
+
+  // Read by the transport on every scheduler tick, so edits made during playback are heard
+  const getPlaybackScore = (version: AuditionVersion | null): TransportScore =>
+    version === 'proposed' && proposal
+      ? { notes: applyChanges(notes, proposalChanges, proposal.rejectedIds), tracks: proposal.tracks, timing }
+      : { notes, tracks, timing };
+  const playbackScoreRef = useRef<TransportScore>({ notes, tracks, timing });
+  playbackScoreRef.current = getPlaybackScore(auditioning);
+  const transportOptionsRef = useRef<TransportOptions>({ loop: null, metronome: false });
+  transportOptionsRef.current = { loop: isLooping ? loop : null, metronome };
+
+  const drawUnits = durationToUnits(drawDuration);
+  const shownLoop = (gesture?.moved && getDraggedLoop(gesture, unitWidth)) || loop;
+  // Triplet values are drawn on their own grid so three of them fill the straight value
+  const drawStep = isTripletUnits(drawUnits) ? drawUnits : 1;
+
+  // The stretch of the grid that is drawn, in units and rows
+  const visibleStart = Math.max(0, (viewport.left - SIDEBAR_WIDTH - OVERSCAN) / unitWidth);
+  const visibleEnd = (viewport.left + viewport.width + VIEWPORT_STEP + OVERSCAN) / unitWidth;
+  const firstRow = Math.max(0, Math.floor((viewport.top - RULER_HEIGHT - OVERSCAN) / rowHeight));
+  const lastRow = Math.min(rowCount - 1, Math.ceil((viewport.top + viewport.height + VIEWPORT_STEP + OVERSCAN) / rowHeight));
+  const isRowVisible = (row: number): boolean => row >= firstRow && row <= lastRow;
+  const isSpanVisible = (start: number, end: number): boolean => end > visibleStart && start < visibleEnd;
+  const visibleBars = barLines.filter(bar => isSpanVisible(bar.time, bar.time + bar.length));
+  const visibleRows = Array.from({ length: Math.max(0, lastRow - firstRow + 1) }, (_, i) => firstRow + i);
+
+  // Notes being dragged are found where they will land as well as where they are
+  const visibleNoteIndices = useMemo(() => {
+    const found = new Set<number>(noteIndex.query(visibleStart, visibleEnd));
+    if (gesture?.kind === 'move' && gesture.moved) {
+      noteIndex.query(visibleStart - gesture.units, visibleEnd - gesture.units).forEach(i => {
+        if (gesture.notes.has(notes[i])) found.add(i);
+      });
+    }
+    return Array.from(found).sort((a, b) => a - b);
+  }, [noteIndex, notes, visibleStart, visibleEnd, gesture]);
 
   // Initial Scroll: Center on C4 precisely
   useEffect(() => {
     const centerView = () => {
       if (scrollContainerRef.current) {
         const c4Row = START_MIDI - MIDDLE_C_MIDI;
-        const targetScroll = (c4Row * ROW_HEIGHT) - (scrollContainerRef.current.clientHeight / 2) + (ROW_HEIGHT / 2);
+        const targetScroll = (c4Row * rowHeight) - (scrollContainerRef.current.clientHeight / 2) + (rowHeight / 2);
         scrollContainerRef.current.scrollTop = targetScroll;
       }
     };
@@ -77,11 +239,11 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({ notes, onManualNotes
   useEffect(() => {
     if (notes.length > 0 && !isPlaying && scrollContainerRef.current) {
       const latestNote = notes[notes.length - 1];
-      const row = getRowFromPitch(latestNote.pitch);
-      const noteY = row * ROW_HEIGHT;
+      const row = getNoteRow(latestNote);
+      const noteY = row * rowHeight;
       const container = scrollContainerRef.current;
       
-      if (noteY < container.scrollTop || noteY > container.scrollTop + container.clientHeight - ROW_HEIGHT) {
+      if (noteY < container.scrollTop || noteY > container.scrollTop + container.clientHeight - rowHeight) {
         container.scrollTo({
           top: noteY - (container.clientHeight / 2),
           behavior: 'smooth'
@@ -90,17 +252,98 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({ notes, onManualNotes
     }
   }, [notes, isPlaying]);
 
-  // Horizontal Auto-Scroll for playhead
+  // Tracks the scrolled viewport, re-rendering only when it crosses a VIEWPORT_STEP boundary
   useEffect(() => {
-    if (isPlaying && scrollContainerRef.current) {
-      const container = scrollContainerRef.current;
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    let frame: number | null = null;
+    const measure = () => {
+      frame = null;
+      const next = {
+        left: Math.floor(container.scrollLeft / VIEWPORT_STEP) * VIEWPORT_STEP,
+        top: Math.floor(container.scrollTop / VIEWPORT_STEP) * VIEWPORT_STEP,
+        width: container.clientWidth,
+        height: container.clientHeight
+      };
+      setViewport(prev => (prev.left === next.left && prev.top === next.top && prev.width === next.width && prev.height === next.height ? prev : next));
+    };
+    const scheduleMeasure = () => {
+      if (frame === null) frame = requestAnimationFrame(measure);
+    };
+    // Panels opening above or beside the grid resize it without resizing the window
+    const resizeObserver = new ResizeObserver(scheduleMeasure);
+    measure();
+    container.addEventListener('scroll', scheduleMeasure, { passive: true });
+    resizeObserver.observe(container);
+    return () => {
+      container.removeEventListener('scroll', scheduleMeasure);
+      resizeObserver.disconnect();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  // Zooms around a point of the viewport (its centre by default), keeping what is under it in place
+  const zoom = (factorX: number, factorY: number, at?: { x: number; y: number }) => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const x = at ? at.x : container.clientWidth / 2;
+    const y = at ? at.y : container.clientHeight / 2;
+    zoomAnchorRef.current = {
+      unit: (container.scrollLeft + x - SIDEBAR_WIDTH) / unitWidth,
+      row: (container.scrollTop + y - RULER_HEIGHT) / rowHeight,
+      x,
+      y
+    };
+    setUnitWidth(clampZoom(unitWidth * factorX, UNIT_WIDTH_RANGE));
+    setRowHeight(clampZoom(rowHeight * factorY, ROW_HEIGHT_RANGE));
+  };
+
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current;
+    const container = scrollContainerRef.current;
+    zoomAnchorRef.current = null;
+    if (!anchor || !container) return;
+    container.scrollLeft = anchor.unit * unitWidth + SIDEBAR_WIDTH - anchor.x;
+    container.scrollTop = anchor.row * rowHeight + RULER_HEIGHT - anchor.y;
+  }, [unitWidth, rowHeight]);
+
+  // Ctrl (or Cmd) + wheel zooms time, Alt + wheel zooms the rows
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey && !e.altKey) return;
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      zoom(e.altKey ? 1 : factor, e.altKey ? factor : 1, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  });
+
+  // The playhead is moved by writing to its elements directly, so playback never re-renders the
+  // notes. While playing, the view follows it, including jumps back to the loop start.
+  const drawPlayhead = (unit: number, follow: boolean) => {
+    const x = unit * unitWidth;
+    if (playheadRef.current) playheadRef.current.style.transform = `translateX(${x}px)`;
+    if (rulerPlayheadRef.current) rulerPlayheadRef.current.style.transform = `translateX(${x}px)`;
+    if (clockRef.current) clockRef.current.textContent = formatBarBeat(timing, unit);
+    const container = scrollContainerRef.current;
+    if (follow && container) {
       const viewportRight = container.scrollLeft + container.clientWidth - 100;
-      
-      if (playheadPos + 64 > viewportRight) {
-        container.scrollLeft = playheadPos + 64 - (container.clientWidth / 2);
+      if (x + SIDEBAR_WIDTH > viewportRight || x < container.scrollLeft) {
+        container.scrollLeft = x + SIDEBAR_WIDTH - (container.clientWidth / 2);
       }
     }
-  }, [playheadPos, isPlaying]);
+  };
+  // The animation loop outlives renders, so it draws through whatever zoom and timing are current
+  const drawPlayheadRef = useRef(drawPlayhead);
+  drawPlayheadRef.current = drawPlayhead;
+
+  useLayoutEffect(() => {
+    if (!isPlaying) drawPlayhead(position, false);
+  });
 
   const initAudio = () => {
     if (!audioCtxRef.current) {
@@ -113,82 +356,191 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({ notes, onManualNotes
     return audioCtxRef.current;
   };
 
-  const playNote = (ctx: AudioContext, dest: AudioNode, note: Note, startTime: number) => {
-    const freq = getFrequencyFromPitch(note.pitch);
-    const dur = (DURATION_MAP[note.duration] || 4) * (SECONDS_PER_BEAT / QUARTER_DURATION);
-    if (freq <= 0) return;
-
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    const filter = ctx.createBiquadFilter();
-
-    osc.type = note.instrument.toLowerCase().includes('bass') ? 'triangle' : 'sawtooth';
-    osc.frequency.setValueAtTime(freq, startTime);
+  const stopAnimation = () => {
+    if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    animationRef.current = null;
+  };
 
-    filter.type = 'lowpass';
-    filter.frequency.setValueAtTime(2500, startTime);
-    filter.frequency.exponentialRampToValueAtTime(600, startTime + dur);
+  // Stopping returns the playhead to the start; pausing leaves it where it is
+  const stopPlayback = () => {
+    stopAnimation();
+    transportRef.current?.stop();
+    setIsPlaying(false);
+    setIsCountingIn(false);
+    setAuditioning(null);
+    setPosition(0);
+  };
 
-    gain.gain.setValueAtTime(0, startTime);
-    gain.gain.linearRampToValueAtTime(0.1, startTime + 0.01);
-    gain.gain.exponentialRampToValueAtTime(0.001, startTime + dur);
+  const pausePlayback = () => {
+    stopAnimation();
+    setPosition(transportRef.current ? transportRef.current.stop() : position);
+    setIsPlaying(false);
+    setIsCountingIn(false);
+  };
 
-    osc.connect(filter);
-    filter.connect(gain);
-    gain.connect(dest);
+  const getTransport = (): Transport => {
+    const ctx = initAudio();
+    if (ctx.state === 'suspended') ctx.resume();
+    if (!transportRef.current) {
+      transportRef.current = createTransport(ctx, masterGainRef.current!, () => playbackScoreRef.current, () => transportOptionsRef.current, stopPlayback);
+    }
+    return transportRef.current;
+  };
 
-    osc.start(startTime);
-    osc.stop(startTime + dur);
-    activeSources.current.push(osc);
+  const startPlayback = (from: number, withCountIn: boolean) => {
+    const transport = getTransport();
+    stopAnimation();
+    transport.play(from, withCountIn);
+    setIsPlaying(true);
+    setPosition(from);
+    let countingIn = false;
+    const animate = () => {
+      drawPlayheadRef.current(transport.getPosition(), true);
+      if (transport.isCountingIn() !== countingIn) {
+        countingIn = !countingIn;
+        setIsCountingIn(countingIn);
+      }
+      animationRef.current = requestAnimationFrame(animate);
+    };
+    animationRef.current = requestAnimationFrame(animate);
   };
 
-  const play = useCallback(() => {
+  useEffect(() => () => {
+    stopAnimation();
+    transportRef.current?.stop();
+  }, []);
+
+  const togglePlay = () => {
     if (isPlaying) {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-      activeSources.current.forEach(s => { try { s.stop(); } catch(e){} });
-      activeSources.current = [];
-      setIsPlaying(false);
-      setPlayheadPos(0);
+      pausePlayback();
       return;
     }
+    // Play from the end of the score (and outside the loop) starts over
+    const inLoop = isLooping && !!loop && position < loop.end;
+    startPlayback(!inLoop && position >= getScoreEnd(notes) ? 0 : position, countIn);
+  };
 
-    const ctx = initAudio();
-    if (ctx.state === 'suspended') ctx.resume();
+  const seek = (unit: number) => {
+    setPosition(unit);
+    if (isPlaying) startPlayback(unit, false);
+  };
 
-    const now = ctx.currentTime;
-    startTimeRef.current = now;
-    
-    let maxTime = 0;
-    notes.forEach(note => {
-      const scheduledStart = now + (note.time * (SECONDS_PER_BEAT / 4));
-      playNote(ctx, masterGainRef.current!, note, scheduledStart);
-      const noteEnd = note.time + (DURATION_MAP[note.duration] || 4);
-      if (noteEnd > maxTime) maxTime = noteEnd;
+  // Looping with no region yet loops the bar under the playhead
+  const toggleLoop = () => {
+    if (!loop) {
+      const bar = getBarAt(timing, isPlaying && transportRef.current ? transportRef.current.getPosition() : position);
+      setLoop({ start: bar.time, end: bar.time + bar.length });
+    }
+    setIsLooping(!isLooping);
+  };
+
+  // Plays the canvas as it is, or as it would be with the currently accepted changes
+  const audition = (version: AuditionVersion) => {
+    const wasAuditioning = auditioning;
+    stopPlayback();
+    if (!proposal || wasAuditioning === version) return;
+    playbackScoreRef.current = getPlaybackScore(version);
+    setAuditioning(version);
+    startPlayback(0, false);
+  };
+
+  const toggleChange = (e: React.MouseEvent, change: NoteChange) => {
+    e.stopPropagation();
+    if (!proposal) return;
+    const rejected = proposal.rejectedIds.includes(change.id);
+    onProposalChange({
+      ...proposal,
+      rejectedIds: rejected ? proposal.rejectedIds.filter(id => id !== change.id) : [...proposal.rejectedIds, change.id]
     });
+  };
 
-    const totalDurationSeconds = maxTime * (SECONDS_PER_BEAT / 4);
-    setIsPlaying(true);
+  // Shift-click adds a note to the selection or takes it out again
+  const toggleSelected = (e: React.MouseEvent<HTMLDivElement>, note: Note) => {
+    if (!e.shiftKey) return;
+    e.stopPropagation();
+    setSelectedNotes(selection.has(note) ? [...selection].filter(n => n !== note) : [...selection, note]);
+  };
 
-    const animate = () => {
-      const elapsed = ctx.currentTime - startTimeRef.current;
-      if (elapsed >= totalDurationSeconds) {
-        setIsPlaying(false);
-        setPlayheadPos(0);
-        return;
+  const removeSelection = (label: string) => {
+    onManualNotesChange(notes.filter(n => !selection.has(n)), `${label} ${countNotes(selection.size)}`);
+    setSelectedNotes([]);
+  };
+
+  // Copies land right after the end of the selection
+  const duplicateSelection = () => {
+    const selected = notes.filter(n => selection.has(n));
+    const start = Math.min(...selected.map(n => n.time));
+    const copies = shiftTime(selected, getScoreEnd(selected) - start);
+    onManualNotesChange([...notes, ...copies], `Duplicated ${countNotes(copies.length)}`);
+    setSelectedNotes(copies);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (e.key === 'Escape') setSelectedNotes([]);
+      else if (e.key === ' ') {
+        e.preventDefault();
+        togglePlay();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selection.size > 0) {
+        e.preventDefault();
+        removeSelection('Deleted');
+      } else if ((e.metaKey || e.ctrlKey) && key === 'a') {
+        e.preventDefault();
+        setSelectedNotes(notes);
+      } else if ((e.metaKey || e.ctrlKey) && key === 'd') {
+        e.preventDefault();
+        if (selection.size > 0) duplicateSelection();
       }
-      setPlayheadPos(elapsed * PIXELS_PER_SECOND);
-      animationRef.current = requestAnimationFrame(animate);
     };
-    animationRef.current = requestAnimationFrame(animate);
-  }, [isPlaying, notes]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Copy, cut and paste go through the native clipboard events so they reach other tabs
+  useEffect(() => {
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || selection.size === 0 || !e.clipboardData) return;
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', serializeNotes(notes.filter(n => selection.has(n))));
+      if (e.type === 'cut') removeSelection('Cut');
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      const clipped = parseClipboard(e.clipboardData?.getData('text/plain') || '');
+      if (!clipped || clipped.length === 0) return;
+      e.preventDefault();
+      // At the pointer when it is over the grid, otherwise after the selection or the score
+      const at = hoveredCell ? hoveredCell.col : getScoreEnd(selection.size > 0 ? notes.filter(n => selection.has(n)) : notes);
+      const pasted = placeClipboardNotes(clipped, at, tracks);
+      onManualNotesChange([...notes, ...pasted], `Pasted ${countNotes(pasted.length)}`);
+      setSelectedNotes(pasted);
+    };
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCopy);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCopy);
+      window.removeEventListener('paste', handlePaste);
+    };
+  });
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
+  const handleCanvasClick = () => {
     if (!hoveredCell) return;
     
-    const pitchAtRow = getPitchFromRow(hoveredCell.row);
+    // Drum lanes draw on the active percussion track (or the first one), pitch rows on a pitched track
+    const isDrum = isDrumRow(hoveredCell.row);
+    const target = isDrum
+      ? (activeTrack?.kind === 'percussion' ? activeTrack : tracks.find(t => t.kind === 'percussion'))
+      : (activeTrack?.kind === 'percussion' ? tracks.find(t => t.kind !== 'percussion') : activeTrack);
+    const pitchAtRow = isDrum ? getDrumPitch(DRUM_LANES[hoveredCell.row - TOTAL_ROWS]) : getPitchFromRow(hoveredCell.row);
     const timeAtCol = hoveredCell.col;
     
-    const existingIndex = notes.findIndex(n => n.pitch === pitchAtRow && n.time === timeAtCol);
+    const existingIndex = notes.findIndex(n =>
+      n.pitch === pitchAtRow && Math.abs(n.time - timeAtCol) < 1e-6 && (target ? n.trackId === target.id : !activeTrack)
+    );
 
     if (existingIndex !== -1) {
       const newNotes = [...notes];
@@ -197,9 +549,10 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({ notes, onManualNotes
     } else {
       const newNote: Note = { 
         pitch: pitchAtRow, 
-        duration: 'quarter', 
-        instrument: 'Lead', 
-        time: timeAtCol 
+        duration: isDrum ? 'sixteenth' : drawDuration, 
+        instrument: target ? target.name : isDrum ? 'Drums' : 'Lead', 
+        time: timeAtCol,
+        trackId: target?.id
       };
       onManualNotesChange([...notes, newNote]);
     }
@@ -211,16 +564,159 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({ notes, onManualNotes
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
     
-    const row = Math.floor(y / ROW_HEIGHT);
-    const col = Math.floor(x / PIXELS_PER_UNIT);
+    const row = Math.floor(y / rowHeight);
+    const col = Math.round(Math.floor(x / (unitWidth * drawStep)) * drawStep * 3) / 3;
     
-    if (row >= 0 && row < TOTAL_ROWS) {
-      setHoveredCell({ row, col });
-    } else {
+    // Moves within the same cell leave the canvas alone
+    if (row >= 0 && row < rowCount) {
+      if (hoveredCell?.row !== row || hoveredCell.col !== col) setHoveredCell({ row, col });
+    } else if (hoveredCell) {
       setHoveredCell(null);
     }
   };
 
+  const toWorkspacePoint = (e: { clientX: number; clientY: number }) => {
+    const rect = workspaceRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startBand = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    const { x, y } = toWorkspacePoint(e);
+    setGesture({ kind: 'band', startX: x, startY: y, x, y, additive: e.shiftKey, moved: false });
+  };
+
+  const toggleClass = (isOn: boolean, onColor: string) =>
+    `px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase border border-slate-800 transition-colors ${isOn ? onColor : 'text-slate-500 hover:text-slate-300'}`;
+
+  const startRulerGesture = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const { x } = toWorkspacePoint(e);
+    setGesture({ kind: 'ruler', startX: x, x, fine: e.shiftKey, moved: false });
+  };
+
+  const startLoopGesture = (e: React.MouseEvent<HTMLDivElement>, edge: 'start' | 'end' | 'both') => {
+    if (e.button !== 0 || !loop) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const { x } = toWorkspacePoint(e);
+    setGesture({ kind: 'loop', edge, startX: x, origin: loop, units: 0, moved: false });
+  };
+
+  // Dragging a selected note moves the whole selection; any other note moves on its own
+  const startMove = (e: React.MouseEvent<HTMLDivElement>, note: Note) => {
+    if (e.button !== 0) return;
+    if (e.shiftKey) {
+      toggleSelected(e, note);
+      return;
+    }
+    e.stopPropagation();
+    e.preventDefault();
+    const { x, y } = toWorkspacePoint(e);
+    const dragged = selection.has(note) ? selection : new Set([note]);
+    setGesture({ kind: 'move', startX: x, startY: y, notes: dragged, units: 0, semitones: 0, moved: false });
+  };
+
+  // A press that never became a drag is a plain click on the grid
+  useEffect(() => {
+    if (!gesture) return;
+    const handleMove = (e: MouseEvent) => {
+      if (!workspaceRef.current) return;
+      const { x, y } = toWorkspacePoint(e);
+      if (gesture.kind === 'ruler' || gesture.kind === 'loop') {
+        const moved = gesture.moved || Math.abs(x - gesture.startX) > DRAG_THRESHOLD;
+        if (gesture.kind === 'ruler') setGesture({ ...gesture, x, fine: e.shiftKey, moved });
+        else setGesture({ ...gesture, units: snapLoopEdge(Math.abs(x - gesture.startX) / unitWidth, e.shiftKey) * Math.sign(x - gesture.startX), moved });
+        return;
+      }
+      const moved = gesture.moved || Math.hypot(x - gesture.startX, y - gesture.startY) > DRAG_THRESHOLD;
+      if (gesture.kind === 'band') {
+        setGesture({ ...gesture, x, y, moved });
+        return;
+      }
+      // Shift snaps to the triplet grid instead of whole 16ths; notes stay on the roll and
+      // drum hits stay in their lanes
+      const step = e.shiftKey ? 1 / 3 : 1;
+      const dragged = notes.filter(n => gesture.notes.has(n));
+      const earliest = Math.min(...dragged.map(n => n.time));
+      const midis = dragged.filter(n => !isDrumHit(n)).map(n => pitchToMidi(n.pitch)).filter((m): m is number => m !== null);
+      const units = Math.max(-earliest, Math.round(Math.round((x - gesture.startX) / unitWidth / step) * step * 3) / 3);
+      const semitones = midis.length === 0 ? 0 : Math.min(HIGHEST_MIDI - Math.max(...midis), Math.max(LOWEST_MIDI - Math.min(...midis), Math.round((gesture.startY - y) / rowHeight)));
+      setGesture({ ...gesture, units, semitones, moved });
+    };
+    const handleUp = () => {
+      setGesture(null);
+      if (gesture.kind === 'ruler' || gesture.kind === 'loop') {
+        const region = gesture.moved ? getDraggedLoop(gesture, unitWidth) : null;
+        if (gesture.kind === 'ruler' && !gesture.moved) seek(Math.max(0, Math.round(gesture.x / unitWidth)));
+        else if (region) setLoop(region);
+        if (region && gesture.kind === 'ruler') setIsLooping(true);
+        return;
+      }
+      if (!gesture.moved) {
+        handleCanvasClick();
+      } else if (gesture.kind === 'band') {
+        const left = Math.min(gesture.startX, gesture.x) / unitWidth;
+        const right = Math.max(gesture.startX, gesture.x) / unitWidth;
+        const top = Math.min(gesture.startY, gesture.y);
+        const bottom = Math.max(gesture.startY, gesture.y);
+        const inside = noteIndex.query(left, right).map(i => notes[i]).filter(n => {
+          const y = getNoteRow(n) * rowHeight;
+          return y < bottom && y + rowHeight > top;
+        });
+        setSelectedNotes(gesture.additive ? [...selection, ...inside.filter(n => !selection.has(n))] : inside);
+      } else if (gesture.units !== 0 || gesture.semitones !== 0) {
+        const { units, semitones } = gesture;
+        const result = applyToSelection(notes, gesture.notes, selected => shiftTime(exceptNotes(selected, isDrumHit, n => transposeChromatic(n, semitones)), units));
+        onManualNotesChange(result.notes, `Moved ${countNotes(result.selected.length)}`);
+        setSelectedNotes(result.selected);
+      }
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  });
+
+  const startResize = (e: React.MouseEvent<HTMLDivElement>, index: number) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const note = notes[index];
+    resizeOriginRef.current = { index, startX: e.clientX, startUnits: getNoteLength(note), time: note.time };
+    setResizing({ index, units: getNoteLength(note) });
+  };
+
+  // Dragging a note's right edge previews the new length; it is committed once on release
+  useEffect(() => {
+    if (!resizing) return;
+    const handleMove = (e: MouseEvent) => {
+      const origin = resizeOriginRef.current;
+      if (!origin) return;
+      // Shift snaps to the triplet grid instead of whole 16ths
+      const step = e.shiftKey ? 1 / 3 : 1;
+      const end = origin.time + origin.startUnits + (e.clientX - origin.startX) / unitWidth;
+      const snappedEnd = Math.round(Math.round(end / step) * step * 3) / 3;
+      setResizing({ index: origin.index, units: Math.max(step, snappedEnd - origin.time) });
+    };
+    const handleUp = () => {
+      const origin = resizeOriginRef.current;
+      resizeOriginRef.current = null;
+      setResizing(null);
+      if (!origin || Math.abs(resizing.units - origin.startUnits) < 1e-6) return;
+      onManualNotesChange(notes.map((n, i) => (i === origin.index ? { ...n, duration: unitsToDuration(resizing.units) } : n)));
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [resizing, notes, onManualNotesChange]);
+
   return (
     <Card className="h-full flex flex-col border-slate-800 bg-[#020617] overflow-hidden shadow-2xl rounded-2xl relative border-2">
       
@@ -235,114 +731,328 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({ notes, onManualNotes
           </div>
         </div>
         <div className="flex gap-3">
+          <HistoryPanel history={history} onHistoryChange={onHistoryChange} />
+          <select
+            value={String(drawDuration)}
+            onChange={e => setDrawDuration(e.target.value as NoteDuration)}
+            className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-[10px] font-bold text-slate-400 uppercase focus:outline-none focus:border-cyan-500"
+            title="Length of new notes"
+          >
+            {DRAW_DURATIONS.map(d => <option key={d} value={d}>{formatDuration(d)}</option>)}
+          </select>
+          <button
+            onClick={() => setShowChords(!showChords)}
+            className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase border border-slate-800 transition-colors ${showChords ? 'text-amber-300' : 'text-slate-500 hover:text-amber-300'}`}
+            title="Show detected chords above the grid"
+          >
+            Chords
+          </button>
+          <button onClick={() => setIsImportOpen(true)} className="px-4 py-1.5 rounded-lg text-[10px] font-bold text-slate-500 hover:text-cyan-400 transition-colors uppercase border border-slate-800">Import</button>
+          <TransformMenu
+            notes={notes}
+            tracks={tracks}
+            selection={selection}
+            onApply={(newNotes, selected, label) => { onManualNotesChange(newNotes, label); setSelectedNotes(selected); }}
+          />
+          <ExportMenu notes={notes} tracks={tracks} timing={timing} lyrics={lyrics} />
           <button onClick={() => onManualNotesChange([])} className="px-4 py-1.5 rounded-lg text-[10px] font-bold text-slate-500 hover:text-rose-400 transition-colors uppercase border border-slate-800">Reset Canvas</button>
+          <div className="flex items-center gap-1 pl-2 border-l border-slate-800">
+            <button onClick={toggleLoop} className={toggleClass(isLooping, 'text-emerald-300')} title="Loop the region marked on the ruler">Loop</button>
+            <button onClick={() => setMetronome(!metronome)} className={toggleClass(metronome, 'text-cyan-300')} title="Click on every beat">Click</button>
+            <button onClick={() => setCountIn(!countIn)} className={toggleClass(countIn, 'text-cyan-300')} title="Count one bar in before playing">Count-in</button>
+          </div>
           <button
-            onClick={play}
+            onClick={stopPlayback}
+            className="px-3 py-1.5 rounded-lg text-[10px] font-bold text-slate-500 hover:text-rose-400 transition-colors uppercase border border-slate-800"
+            title="Stop and return to the start"
+          >
+            Stop
+          </button>
+          <button
+            onClick={togglePlay}
             className={`px-6 py-1.5 rounded-lg font-black text-[10px] tracking-widest uppercase transition-all flex items-center gap-2 ${isPlaying ? 'bg-rose-600 text-white shadow-lg shadow-rose-900/30' : 'bg-cyan-500 text-slate-950 shadow-lg hover:bg-cyan-400'}`}
+            title="Play or pause (Space)"
           >
-            {isPlaying ? 'STOP PLAYBACK' : 'START PLAYBACK'}
+            {isCountingIn ? 'COUNT-IN' : isPlaying ? 'PAUSE' : position > 0 ? 'RESUME' : 'START PLAYBACK'}
           </button>
         </div>
       </div>
       
-      <div 
-        ref={scrollContainerRef}
-        className="flex-grow overflow-auto relative custom-scrollbar bg-slate-950/80"
-      >
-        <div className="flex relative" style={{ width: '5000px', height: `${TOTAL_ROWS * ROW_HEIGHT}px` }}>
-          
-          {/* PIANO SIDEBAR (SYNCED VERTICALLY VIA PARENT SCROLL) */}
-          <div className="sticky left-0 w-16 h-full bg-slate-900 border-r border-slate-800 z-40 shadow-2xl flex flex-col">
-            {Array.from({ length: TOTAL_ROWS }).map((_, i) => {
-              const pitch = getPitchFromRow(i);
-              const isBlack = pitch.includes('#');
-              const isOctave = pitch.startsWith('C') && !isBlack;
-              const isMiddleC = pitch === 'C4';
-              return (
-                <div 
-                  key={i} 
-                  className={`w-full flex items-center justify-end pr-2 border-b border-slate-800/10 text-[9px] font-bold transition-all flex-shrink-0 ${isBlack ? 'bg-slate-950 text-slate-600' : 'bg-slate-100 text-slate-900'} ${isMiddleC ? 'ring-inset ring-2 ring-cyan-500/50' : ''}`} 
-                  style={{ height: `${ROW_HEIGHT}px` }}
+      {proposal && (
+        <ProposalPanel
+          proposal={proposal}
+          changes={proposalChanges}
+          auditioning={auditioning}
+          onProposalChange={onProposalChange}
+          onAudition={audition}
+          onCommit={() => { stopPlayback(); onProposalCommit(); }}
+          onDiscard={() => { stopPlayback(); onProposalChange(null); }}
+        />
+      )}
+
+      <div className="flex-grow flex min-h-0">
+        <TrackList
+          tracks={tracks}
+          activeTrackId={activeTrack?.id || null}
+          onSelectTrack={setActiveTrackId}
+          onTracksChange={onTracksChange}
+        />
+
+        <div 
+          ref={scrollContainerRef}
+          className="flex-grow overflow-auto relative custom-scrollbar bg-slate-950/80"
+        >
+          {/* RULER: CLICK TO SEEK, DRAG TO MARK A LOOP */}
+          <div className="sticky top-0 z-50 flex" style={{ width: `${SIDEBAR_WIDTH + gridUnits * unitWidth}px`, height: `${RULER_HEIGHT}px` }}>
+            <div className="sticky left-0 w-16 flex-shrink-0 bg-slate-900 border-r border-b border-slate-800" />
+            <div className="flex-grow relative bg-slate-900/95 border-b border-slate-800 cursor-pointer" onMouseDown={startRulerGesture}>
+              {visibleBars.map(bar => (
+                <span key={bar.index} className="absolute top-0 h-full pl-1 border-l border-white/20 text-[8px] font-bold text-slate-500 mono pointer-events-none" style={{ left: `${bar.time * unitWidth}px` }}>
+                  {bar.index + 1}
+                </span>
+              ))}
+              {shownLoop && (
+                <div
+                  className={`absolute top-0 h-full cursor-grab ${isLooping ? 'bg-emerald-500/30' : 'bg-slate-600/30'}`}
+                  style={{ left: `${shownLoop.start * unitWidth}px`, width: `${(shownLoop.end - shownLoop.start) * unitWidth}px` }}
+                  onMouseDown={e => startLoopGesture(e, 'both')}
                 >
-                  {(isOctave || i === 0 || i === TOTAL_ROWS - 1) && (
-                    <span className={isMiddleC ? "text-cyan-600 scale-110" : ""}>{pitch}</span>
-                  )}
+                  <div className={`absolute left-0 top-0 h-full w-1.5 cursor-ew-resize ${isLooping ? 'bg-emerald-400' : 'bg-slate-500'}`} onMouseDown={e => startLoopGesture(e, 'start')} />
+                  <div className={`absolute right-0 top-0 h-full w-1.5 cursor-ew-resize ${isLooping ? 'bg-emerald-400' : 'bg-slate-500'}`} onMouseDown={e => startLoopGesture(e, 'end')} />
                 </div>
-              );
-            })}
+              )}
+              <div ref={rulerPlayheadRef} className="absolute top-0 left-0 h-full w-1 bg-rose-500 pointer-events-none will-change-transform" />
+            </div>
           </div>
 
-          {/* WORKSPACE AREA (ALIGNED WITH PIANO SIDEBAR) */}
-          <div 
-            ref={workspaceRef}
-            className="flex-grow relative h-full cursor-crosshair"
-            onMouseMove={handleMouseMove}
-            onMouseLeave={() => setHoveredCell(null)}
-            onMouseDown={handleCanvasClick}
-          >
-            {/* GRID LAYER */}
-            <div className="absolute inset-0 pointer-events-none" style={{
-              backgroundImage: `
-                linear-gradient(to right, rgba(255,255,255,0.03) 1px, transparent 1px),
-                linear-gradient(to bottom, rgba(255,255,255,0.03) 1px, transparent 1px)
-              `,
-              backgroundSize: `${PIXELS_PER_UNIT}px ${ROW_HEIGHT}px`
-            }} />
-            
-            {/* BEAT MARKERS */}
-            <div className="absolute inset-0 pointer-events-none" style={{
-              backgroundImage: `linear-gradient(to right, rgba(255,255,255,0.08) 1px, transparent 1px)`,
-              backgroundSize: `${PIXELS_PER_UNIT * 4}px 100%`
-            }} />
-
-            {/* GHOST HOVER */}
-            {hoveredCell && (
-              <>
-                <div className="absolute w-full bg-cyan-500/10 pointer-events-none" style={{ top: `${hoveredCell.row * ROW_HEIGHT}px`, height: `${ROW_HEIGHT}px` }} />
-                <div className="absolute bg-cyan-500/20 border border-cyan-400/30 rounded-sm pointer-events-none flex items-center justify-center text-[7px] font-bold text-cyan-200" style={{ 
-                  top: `${hoveredCell.row * ROW_HEIGHT + 1}px`, 
-                  left: `${hoveredCell.col * PIXELS_PER_UNIT + 1}px`, 
-                  width: `${PIXELS_PER_UNIT - 2}px`, 
-                  height: `${ROW_HEIGHT - 2}px` 
-                }}>
-                  {getPitchFromRow(hoveredCell.row)}
+          <div className="flex relative" style={{ width: `${SIDEBAR_WIDTH + gridUnits * unitWidth}px`, height: `${rowCount * rowHeight}px` }}>
+          
+            {/* PIANO SIDEBAR (SYNCED VERTICALLY VIA PARENT SCROLL; ONLY VISIBLE ROWS ARE DRAWN) */}
+            <div className="sticky left-0 w-16 flex-shrink-0 h-full bg-slate-900 border-r border-slate-800 z-40 shadow-2xl">
+              {visibleRows.filter(i => !isDrumRow(i)).map(i => {
+                const pitch = getPitchFromRow(i);
+                const isBlack = pitch.includes('#');
+                const isOctave = pitch.startsWith('C') && !isBlack;
+                const isMiddleC = pitch === 'C4';
+                return (
+                  <div 
+                    key={i} 
+                    className={`absolute w-full flex items-center justify-end pr-2 border-b border-slate-800/10 text-[9px] font-bold overflow-hidden ${isBlack ? 'bg-slate-950 text-slate-600' : 'bg-slate-100 text-slate-900'} ${isMiddleC ? 'ring-inset ring-2 ring-cyan-500/50' : ''}`} 
+                    style={{ top: `${i * rowHeight}px`, height: `${rowHeight}px` }}
+                  >
+                    {(isOctave || i === 0 || i === TOTAL_ROWS - 1) && rowHeight >= 10 && (
+                      <span className={isMiddleC ? "text-cyan-600 scale-110" : ""}>{pitch}</span>
+                    )}
+                  </div>
+                );
+              })}
+              {visibleRows.filter(isDrumRow).map(row => (
+                <div
+                  key={row}
+                  className={`absolute w-full flex items-center justify-end pr-2 bg-amber-950/60 text-amber-300/80 text-[8px] font-black uppercase tracking-wide overflow-hidden border-b border-slate-800/60 ${row === TOTAL_ROWS ? 'border-t-2 border-t-amber-500/40' : ''}`}
+                  style={{ top: `${row * rowHeight}px`, height: `${rowHeight}px` }}
+                >
+                  {rowHeight >= 10 && DRUM_LANES[row - TOTAL_ROWS].name}
                 </div>
-              </>
-            )}
+              ))}
+            </div>
 
-            {/* PLAYHEAD */}
+            {/* WORKSPACE AREA (ALIGNED WITH PIANO SIDEBAR) */}
             <div 
-              className="absolute top-0 bottom-0 w-1 bg-rose-500 z-30 shadow-[0_0_20px_rgba(244,63,94,1)] pointer-events-none"
-              style={{ left: `${playheadPos}px` }}
-            />
-
-            {/* NOTES */}
-            {notes.map((note, i) => {
-              const row = getRowFromPitch(note.pitch);
-              const top = row * ROW_HEIGHT;
-              const left = note.time * PIXELS_PER_UNIT;
-              const width = (DURATION_MAP[note.duration] || 4) * (PIXELS_PER_UNIT / 4); 
-
-              return (
-                <div key={`${note.pitch}-${note.time}-${i}`} className="absolute rounded-sm border border-white/20 bg-cyan-500 shadow-[0_0_15px_rgba(34,211,238,0.4)] group/note transition-all hover:brightness-125" style={{
-                  top: `${top + 1}px`, left: `${left + 1}px`, width: `${width - 2}px`, height: `${ROW_HEIGHT - 2}px`,
-                }}>
-                  <div className="absolute inset-0 bg-gradient-to-br from-white/40 to-transparent pointer-events-none"></div>
+              ref={workspaceRef}
+              className="flex-grow relative h-full cursor-crosshair"
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => setHoveredCell(null)}
+              onMouseDown={startBand}
+            >
+              {/* GRID LAYER */}
+              <div className="absolute inset-0 pointer-events-none" style={{
+                backgroundImage: `
+                  linear-gradient(to right, rgba(255,255,255,0.03) 1px, transparent 1px),
+                  linear-gradient(to bottom, rgba(255,255,255,0.03) 1px, transparent 1px)
+                `,
+                backgroundSize: `${unitWidth}px ${rowHeight}px`
+              }} />
+            
+              {/* DRUM LANE BACKGROUND */}
+              {rowCount > TOTAL_ROWS && (
+                <div className="absolute left-0 right-0 bottom-0 bg-amber-500/[0.03] border-t-2 border-amber-500/30 pointer-events-none" style={{ top: `${TOTAL_ROWS * rowHeight}px` }} />
+              )}
+
+              {/* BAR AND BEAT MARKERS (FOLLOW THE METER MAP) */}
+              {visibleBars.map(bar => (
+                <React.Fragment key={bar.index}>
+                  <div className="absolute top-0 bottom-0 w-px bg-white/20 pointer-events-none" style={{ left: `${bar.time * unitWidth}px` }} />
+                  {Array.from({ length: Math.ceil(bar.length / bar.beatLength) - 1 }).map((_, beat) => (
+                    <div
+                      key={beat}
+                      className="absolute top-0 bottom-0 w-px bg-white/[0.08] pointer-events-none"
+                      style={{ left: `${(bar.time + (beat + 1) * bar.beatLength) * unitWidth}px` }}
+                    />
+                  ))}
+                </React.Fragment>
+              ))}
+
+              {/* CHORD LABELS (LOCAL HARMONY ANALYSIS) */}
+              {harmony?.chords.filter(chord => isSpanVisible(chord.time, chord.time + chord.length)).map(chord => (
+                <div key={`chord-${chord.time}`} className="absolute top-0 bottom-0 pointer-events-none z-20" style={{ left: `${chord.time * unitWidth}px` }}>
+                  <span className="sticky top-5 block ml-1 px-1 rounded bg-slate-900/80 text-[9px] font-black text-amber-300 whitespace-nowrap">
+                    {chord.symbol}
+                    {chord.numeral && <span className="ml-1 font-serif italic font-normal text-amber-500/70">{chord.numeral}</span>}
+                  </span>
                 </div>
-              );
-            })}
+              ))}
+
+              {/* LOOP REGION */}
+              {shownLoop && isLooping && (
+                <div className="absolute top-0 bottom-0 bg-emerald-500/[0.04] border-x border-emerald-500/30 pointer-events-none" style={{ left: `${shownLoop.start * unitWidth}px`, width: `${(shownLoop.end - shownLoop.start) * unitWidth}px` }} />
+              )}
+
+              {/* GHOST HOVER */}
+              {hoveredCell && !gesture?.moved && (
+                <>
+                  <div className="absolute w-full bg-cyan-500/10 pointer-events-none" style={{ top: `${hoveredCell.row * rowHeight}px`, height: `${rowHeight}px` }} />
+                  <div className="absolute bg-cyan-500/20 border border-cyan-400/30 rounded-sm pointer-events-none flex items-center justify-center text-[7px] font-bold text-cyan-200" style={{ 
+                    top: `${hoveredCell.row * rowHeight + 1}px`, 
+                    left: `${hoveredCell.col * unitWidth + 1}px`, 
+                    width: `${(isDrumRow(hoveredCell.row) ? 1 : drawUnits) * unitWidth - 2}px`, 
+                    height: `${rowHeight - 2}px` 
+                  }}>
+                    {isDrumRow(hoveredCell.row) ? '' : getPitchFromRow(hoveredCell.row)}
+                  </div>
+                </>
+              )}
+
+              {/* RUBBER BAND */}
+              {gesture?.kind === 'band' && gesture.moved && (
+                <div className="absolute border border-cyan-300/70 bg-cyan-400/10 rounded-sm pointer-events-none z-30" style={{
+                  left: `${Math.min(gesture.startX, gesture.x)}px`,
+                  top: `${Math.min(gesture.startY, gesture.y)}px`,
+                  width: `${Math.abs(gesture.x - gesture.startX)}px`,
+                  height: `${Math.abs(gesture.y - gesture.startY)}px`
+                }} />
+              )}
+
+              {/* PLAYHEAD */}
+              <div 
+                ref={playheadRef}
+                className="absolute top-0 bottom-0 left-0 w-1 bg-rose-500 z-30 shadow-[0_0_20px_rgba(244,63,94,1)] pointer-events-none will-change-transform"
+              />
+
+              {/* NOTES (ONLY THOSE IN VIEW) */}
+              {visibleNoteIndices.map(i => {
+                const note = notes[i];
+                // Notes being dragged are drawn at their previewed position
+                const drag = gesture?.kind === 'move' && gesture.moved && gesture.notes.has(note) ? gesture : null;
+                const row = getNoteRow(note) - (drag && !isDrumHit(note) ? drag.semitones : 0);
+                if (!isRowVisible(row)) return null;
+                const top = row * rowHeight;
+                const left = (note.time + (drag?.units || 0)) * unitWidth;
+                const units = resizing?.index === i ? resizing.units : getNoteLength(note);
+                const width = units * unitWidth;
+                const track = note.trackId ? trackById.get(note.trackId) : undefined;
+                const color = track?.color || '#22d3ee';
+                // Muted tracks fade out; other tracks stay visible but recede behind the active one
+                const opacity = track && !audibleTrackIds.has(track.id) ? 0.2 : !activeTrack || track?.id === activeTrack.id ? 1 : 0.5;
+                const isSelected = selection.has(note);
+
+                return (
+                  <div key={`${note.pitch}-${note.time}-${i}`} onMouseDown={e => startMove(e, note)} className={`absolute rounded-sm border border-white/20 group/note hover:brightness-125 ${drag ? '' : 'transition-all'} ${isSelected ? 'ring-2 ring-white z-10' : ''}`} style={{
+                    top: `${top + 1}px`, left: `${left + 1}px`, width: `${Math.max(4, width - 2)}px`, height: `${rowHeight - 2}px`,
+                    backgroundColor: color, boxShadow: `0 0 15px ${color}66`, opacity
+                  }} title={formatDuration(resizing?.index === i ? unitsToDuration(units) : note.duration)}>
+                    <div className="absolute inset-0 bg-gradient-to-br from-white/40 to-transparent pointer-events-none"></div>
+                    {/* RESIZE HANDLE */}
+                    <div
+                      onMouseDown={e => startResize(e, i)}
+                      className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize opacity-0 group-hover/note:opacity-100 bg-white/50 rounded-r-sm"
+                    />
+                  </div>
+                );
+              })}
+
+              {/* PROPOSAL GHOSTS: click one to accept or reject that change */}
+              {proposalChanges.map(change => {
+                const note = change.after || change.before!;
+                if (!isSpanVisible(note.time, getNoteEnd(note)) || !isRowVisible(getNoteRow(note))) return null;
+                const isRejected = rejectedChangeIds.has(change.id);
+                const color = (note.trackId && proposalTrackById.get(note.trackId)?.color) || '#22d3ee';
+                const left = note.time * unitWidth;
+                const width = getNoteLength(note) * unitWidth;
+                const style: React.CSSProperties = {
+                  top: `${getNoteRow(note) * rowHeight + 1}px`,
+                  left: `${left + 1}px`,
+                  width: `${Math.max(4, width - 2)}px`,
+                  height: `${rowHeight - 2}px`,
+                  opacity: isRejected ? 0.25 : 0.9
+                };
+                const kindClass = change.kind === 'added'
+                  ? 'border-2 border-dashed border-emerald-400 bg-emerald-400/20'
+                  : change.kind === 'removed'
+                    ? 'border-2 border-dashed border-rose-500 bg-[repeating-linear-gradient(45deg,rgba(244,63,94,0.45)_0,rgba(244,63,94,0.45)_3px,transparent_3px,transparent_7px)]'
+                    : 'border-2 border-dashed border-amber-400 bg-amber-400/20';
+                const verb = change.kind === 'added' ? 'Add' : change.kind === 'removed' ? 'Remove' : 'Change';
+                return (
+                  <div
+                    key={change.id}
+                    onMouseDown={e => toggleChange(e, change)}
+                    className={`absolute rounded-sm z-20 cursor-pointer ${kindClass}`}
+                    style={change.kind === 'added' ? { ...style, boxShadow: `0 0 10px ${color}88` } : style}
+                    title={`${verb} ${note.pitch} (${isRejected ? 'rejected' : 'accepted'}) - click to toggle`}
+                  />
+                );
+              })}
+
+              {/* PROVISIONAL NOTES: drawn while a reply streams in, replaced once it completes */}
+              {provisionalNotes.map((note, i) => {
+                if (!isSpanVisible(note.time, getNoteEnd(note)) || !isRowVisible(getNoteRow(note))) return null;
+                const color = (note.trackId && trackById.get(note.trackId)?.color) || '#22d3ee';
+                return (
+                  <div
+                    key={`provisional-${i}`}
+                    className="absolute rounded-sm border border-dashed pointer-events-none z-20 animate-pulse"
+                    style={{
+                      top: `${getNoteRow(note) * rowHeight + 1}px`,
+                      left: `${note.time * unitWidth + 1}px`,
+                      width: `${Math.max(4, getNoteLength(note) * unitWidth - 2)}px`,
+                      height: `${rowHeight - 2}px`,
+                      borderColor: color,
+                      backgroundColor: `${color}33`
+                    }}
+                  />
+                );
+              })}
+            </div>
           </div>
         </div>
       </div>
       
+      {isImportOpen && (
+        <ImportDialog onImport={onImport} onClose={() => setIsImportOpen(false)} />
+      )}
+
       {/* FOOTER */}
       <div className="px-5 py-2.5 bg-slate-900 border-t border-slate-800 flex justify-between items-center text-[9px] text-slate-500 font-mono tracking-widest uppercase z-30">
          <div className="flex gap-8">
-           <span className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-cyan-500 rounded-full"></div> {TEMPO_BPM} BPM</span>
-           <span className="flex items-center gap-2"><div className="w-1.5 h-1.5 bg-indigo-500 rounded-full"></div> 4/4 TIME</span>
+           <TimingPanel timing={timing} onTimingChange={onTimingChange} />
            <span className="text-slate-400">Voices: {notes.length}</span>
+           {selection.size > 0 && <span className="text-white">Selected: {selection.size}</span>}
+           <span className="text-slate-400">Tracks: {tracks.length}</span>
          </div>
          <div className="flex items-center gap-4">
+           <div className="flex items-center gap-3" title="Zoom: Ctrl + wheel for time, Alt + wheel for rows">
+             <span className="flex items-center gap-1">
+               <button onClick={() => zoom(1 / ZOOM_STEP, 1)} className="px-1 font-black text-slate-500 hover:text-cyan-400">−</button>
+               <span className="text-slate-400">Time {Math.round((unitWidth / DEFAULT_UNIT_WIDTH) * 100)}%</span>
+               <button onClick={() => zoom(ZOOM_STEP, 1)} className="px-1 font-black text-slate-500 hover:text-cyan-400">+</button>
+             </span>
+             <span className="flex items-center gap-1">
+               <button onClick={() => zoom(1, 1 / ZOOM_STEP)} className="px-1 font-black text-slate-500 hover:text-cyan-400">−</button>
+               <span className="text-slate-400">Rows {Math.round((rowHeight / DEFAULT_ROW_HEIGHT) * 100)}%</span>
+               <button onClick={() => zoom(1, ZOOM_STEP)} className="px-1 font-black text-slate-500 hover:text-cyan-400">+</button>
+             </span>
+           </div>
+           <span ref={clockRef} className="text-slate-400" />
            <span className={`font-black transition-colors ${isPlaying ? 'text-cyan-400' : 'text-slate-600'}`}>
              {isPlaying ? 'ENGINE ACTIVE' : 'ENGINE READY'}
            </span>
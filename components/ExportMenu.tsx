@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Note, Timing, Track } from '../types';
+import { notesToMidi } from '../services/midiExport';
+import { notesToMusicXml } from '../services/musicXmlExport';
+import { BOUNCE_SAMPLE_RATES, renderNotesToWav } from '../services/audioExport';
+import { downloadFile } from '../services/fileUtils';
+import { getPitchedNotes } from '../services/drums';
+import { estimateKey } from '../services/harmony';
+
+interface ExportMenuProps {
+  notes: Note[];
+  tracks: Track[];
+  timing: Timing;
+  lyrics?: string | null;
+}
+
+const MENU_ITEM_CLASS = 'w-full text-left px-4 py-2.5 text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:bg-cyan-500/10 hover:text-cyan-400';
+const SELECT_CLASS = 'w-full bg-slate-950 border border-slate-800 rounded px-2 py-1 text-[10px] font-bold text-slate-300 focus:outline-none focus:border-cyan-500';
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ notes, tracks, timing, lyrics }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sampleRate, setSampleRate] = useState(44100);
+  const [bitDepth, setBitDepth] = useState<16 | 24>(16);
+  const [tailSeconds, setTailSeconds] = useState(2);
+  const [isBouncing, setIsBouncing] = useState(false);
+  const [bounceError, setBounceError] = useState<string | null>(null);
+
+  const exportMidi = () => {
+    downloadFile(notesToMidi(notes, { title: 'Musico Sketch', timing, tracks }), 'musico-sketch.mid', 'audio/midi');
+    setIsOpen(false);
+  };
+
+  const exportMusicXml = () => {
+    const key = estimateKey(getPitchedNotes(notes, tracks))?.symbol;
+    downloadFile(notesToMusicXml(notes, { title: 'Musico Sketch', timing, key, lyrics, tracks }), 'musico-sketch.musicxml', 'application/vnd.recordare.musicxml+xml');
+    setIsOpen(false);
+  };
+
+  const exportWav = async () => {
+    setIsBouncing(true);
+    setBounceError(null);
+    try {
+      const wav = await renderNotesToWav(notes, { sampleRate, bitDepth, tailSeconds, timing, tracks });
+      downloadFile(wav, 'musico-sketch.wav', 'audio/wav');
+      setIsOpen(false);
+    } catch (e) {
+      console.error("WAV bounce failed", e);
+      setBounceError(e instanceof Error ? e.message : 'Bounce failed');
+    } finally {
+      setIsBouncing(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={notes.length === 0}
+        className="px-4 py-1.5 rounded-lg text-[10px] font-bold text-slate-500 hover:text-cyan-400 transition-colors uppercase border border-slate-800 disabled:opacity-30"
+      >
+        Export
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-60 bg-slate-900 border border-slate-800 rounded-xl shadow-2xl overflow-hidden z-[60]">
+          <button onClick={exportMidi} className={MENU_ITEM_CLASS}>
+            MIDI File (.mid)
+          </button>
+          <button onClick={exportMusicXml} className={MENU_ITEM_CLASS}>
+            MusicXML (.musicxml)
+          </button>
+
+          <div className="border-t border-slate-800 p-4 space-y-3">
+            <div className="text-[9px] font-black text-indigo-400 uppercase tracking-[0.2em]">Audio Bounce</div>
+            <div className="grid grid-cols-2 gap-2">
+              <select value={sampleRate} onChange={e => setSampleRate(Number(e.target.value))} className={SELECT_CLASS}>
+                {BOUNCE_SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000} kHz</option>)}
+              </select>
+              <select value={bitDepth} onChange={e => setBitDepth(Number(e.target.value) as 16 | 24)} className={SELECT_CLASS}>
+                <option value={16}>16-bit</option>
+                <option value={24}>24-bit</option>
+              </select>
+            </div>
+            <label className="block text-[9px] text-slate-500 font-bold uppercase tracking-widest">
+              Tail {tailSeconds.toFixed(1)}s
+              <input
+                type="range"
+                min={0}
+                max={10}
+                step={0.5}
+                value={tailSeconds}
+                onChange={e => setTailSeconds(Number(e.target.value))}
+                className="w-full accent-cyan-500"
+              />
+            </label>
+            {bounceError && <div className="text-[10px] text-rose-400 mono">{bounceError}</div>}
+            <button
+              onClick={exportWav}
+              disabled={isBouncing}
+              className="w-full py-1.5 rounded-lg font-black text-[10px] tracking-widest uppercase bg-cyan-500 text-slate-950 hover:bg-cyan-400 disabled:opacity-40"
+            >
+              {isBouncing ? 'Rendering...' : 'Bounce WAV'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import { Note, Timing } from '../types';
+import { analyzeHarmony, CADENCE_LABELS, HarmonyResolution } from '../services/harmony';
+
+interface HarmonyPanelProps {
+  notes: Note[];
+  timing: Timing;
+}
+
+/**
+ * Theory-tab summary of the local harmony analysis: estimated key, chord chart and cadences.
+ * Runs on the canvas itself, so it is available without a model reply.
+ */
+export const HarmonyPanel: React.FC<HarmonyPanelProps> = ({ notes, timing }) => {
+  const [resolution, setResolution] = useState<HarmonyResolution>('bar');
+  const analysis = useMemo(() => analyzeHarmony(notes, timing, resolution), [notes, timing, resolution]);
+
+  return (
+    <div className="bg-slate-900/50 p-5 border border-slate-800 rounded-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-cyan-400 font-black flex items-center gap-2 text-[10px] tracking-[0.2em] uppercase">
+          <div className="w-1.5 h-1.5 bg-cyan-500 rounded-full"></div> Harmony
+        </div>
+        <div className="flex gap-1">
+          {(['bar', 'beat'] as const).map(r => (
+            <button
+              key={r}
+              onClick={() => setResolution(r)}
+              className={`px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-widest ${resolution === r ? 'bg-cyan-500/10 text-cyan-300' : 'text-slate-600 hover:text-slate-400'}`}
+            >
+              Per {r}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!analysis.key ? (
+        <p className="text-[10px] text-slate-600 uppercase tracking-widest">No pitched notes to analyse</p>
+      ) : (
+        <>
+          <div className="flex items-baseline gap-3">
+            <span className="text-lg font-black text-slate-100">{analysis.key.name}</span>
+            <span className="text-[10px] text-slate-500 mono">r = {analysis.key.confidence.toFixed(2)}</span>
+          </div>
+
+          {analysis.chords.length > 0 && (
+            <div className="grid grid-cols-4 gap-1.5">
+              {analysis.chords.map(chord => (
+                <div key={chord.time} className="bg-slate-950/60 border border-slate-800 rounded-lg px-2 py-1.5">
+                  <div className="text-[8px] text-slate-600 font-bold mono">{chord.bar + 1}</div>
+                  <div className="text-[12px] font-black text-slate-200 truncate">{chord.symbol}</div>
+                  <div className="text-[10px] text-cyan-400/80 font-serif italic">{chord.numeral}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <div className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mb-2">Cadences</div>
+            {analysis.cadences.length === 0 ? (
+              <p className="text-[10px] text-slate-600">None found</p>
+            ) : (
+              <ul className="space-y-1">
+                {analysis.cadences.map(cadence => (
+                  <li key={`${cadence.type}-${cadence.time}`} className="text-[11px] text-slate-400 flex gap-2">
+                    <span className="text-slate-600 mono w-10">Bar {cadence.bar + 1}</span>
+                    <span className="text-slate-200 font-bold">{CADENCE_LABELS[cadence.type]}</span>
+                    <span className="font-serif italic text-cyan-400/80">{cadence.progression}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { canRedo, canUndo, jumpToHistory, redoHistory, ScoreHistory, undoHistory } from '../services/history';
+
+interface HistoryPanelProps {
+  history: ScoreHistory;
+  onHistoryChange: (history: ScoreHistory) => void;
+}
+
+const ICON_BUTTON_CLASS = 'px-2.5 py-1.5 rounded-lg text-[10px] font-bold text-slate-500 hover:text-cyan-400 transition-colors border border-slate-800 disabled:opacity-30 disabled:hover:text-slate-500';
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onHistoryChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (isOpen) currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [isOpen, history.index]);
+
+  return (
+    <div className="relative flex gap-1">
+      <button onClick={() => onHistoryChange(undoHistory(history))} disabled={!canUndo(history)} className={ICON_BUTTON_CLASS} title="Undo (Ctrl+Z)">↶</button>
+      <button onClick={() => onHistoryChange(redoHistory(history))} disabled={!canRedo(history)} className={ICON_BUTTON_CLASS} title="Redo (Ctrl+Shift+Z)">↷</button>
+      <button onClick={() => setIsOpen(!isOpen)} className={`${ICON_BUTTON_CLASS} uppercase`}>
+        History
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 max-h-80 overflow-y-auto custom-scrollbar bg-slate-900 border border-slate-800 rounded-xl shadow-2xl z-[60] py-1">
+          {history.entries.map((entry, i) => {
+            const isCurrent = i === history.index;
+            // Steps after the current one are still redoable until the next edit
+            const isUndone = i > history.index;
+            return (
+              <button
+                key={entry.id}
+                ref={isCurrent ? currentRef : undefined}
+                onClick={() => onHistoryChange(jumpToHistory(history, i))}
+                className={`w-full text-left px-4 py-2 flex justify-between gap-3 text-[10px] font-bold transition-colors hover:bg-cyan-500/10 ${isCurrent ? 'text-cyan-400 bg-cyan-500/5' : isUndone ? 'text-slate-600 italic' : 'text-slate-400'}`}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="mono text-[9px] text-slate-600 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Note, ScoreImportResult, Timing } from '../types';
+import { parseAbc } from '../services/abcImport';
+import { parseMidi } from '../services/midiImport';
+
+interface ImportDialogProps {
+  onImport: (notes: Note[], timing?: Timing) => void;
+  onClose: () => void;
+}
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ onImport, onClose }) => {
+  const [source, setSource] = useState('');
+  const [result, setResult] = useState<ScoreImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runImport = (importer: () => ScoreImportResult) => {
+    setError(null);
+    try {
+      setResult(importer());
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : 'Could not read this tune');
+    }
+  };
+
+  const parse = (text: string) => runImport(() => parseAbc(text));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    if (/\.midi?$/i.test(file.name)) {
+      const buffer = await file.arrayBuffer();
+      setSource('');
+      runImport(() => parseMidi(buffer));
+      return;
+    }
+    const text = await file.text();
+    setSource(text);
+    parse(text);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-6" onMouseDown={onClose}>
+      <div className="w-full max-w-xl bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl flex flex-col max-h-full" onMouseDown={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="text-[10px] font-black text-cyan-400 uppercase tracking-[0.2em]">Import Score</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xs font-bold">✕</button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto custom-scrollbar">
+          <textarea
+            value={source}
+            onChange={e => { setSource(e.target.value); setResult(null); }}
+            className="w-full h-48 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-[11px] mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-cyan-500 resize-none"
+            placeholder={'X:1\nT:My Tune\nM:4/4\nL:1/8\nK:G\nGABc d2B2 |'}
+          />
+          <div className="flex gap-2">
+            <label className="px-4 py-1.5 rounded-lg text-[10px] font-bold text-slate-400 hover:text-cyan-400 transition-colors uppercase border border-slate-800 cursor-pointer">
+              Upload .abc / .mid
+              <input type="file" accept=".abc,.txt,.mid,.midi" className="hidden" onChange={handleFile} />
+            </label>
+            <button
+              onClick={() => parse(source)}
+              disabled={!source.trim()}
+              className="px-4 py-1.5 rounded-lg text-[10px] font-bold text-slate-400 hover:text-cyan-400 transition-colors uppercase border border-slate-800 disabled:opacity-30"
+            >
+              Parse
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-rose-950/20 border border-rose-500/30 rounded-xl text-rose-400 text-[11px] mono">{error}</div>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              <div className="text-[10px] text-slate-400 mono uppercase tracking-widest">
+                {result.title ? `${result.title} • ` : ''}{result.notes.length} notes
+                {result.timing ? ` • ${result.timing.bpm} BPM ${result.timing.meter[0]}/${result.timing.meter[1]}` : ''}
+              </div>
+              {result.warnings.length > 0 && (
+                <ul className="p-3 bg-amber-950/20 border border-amber-500/30 rounded-xl text-amber-300 text-[10px] mono space-y-1 list-disc list-inside">
+                  {result.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-1.5 rounded-lg text-[10px] font-bold text-slate-500 hover:text-slate-300 uppercase">Cancel</button>
+          <button
+            onClick={() => { if (result) { onImport(result.notes, result.timing); onClose(); } }}
+            disabled={!result || result.notes.length === 0}
+            className="px-6 py-1.5 rounded-lg font-black text-[10px] tracking-widest uppercase bg-cyan-500 text-slate-950 hover:bg-cyan-400 disabled:opacity-30"
+          >
+            Load Into Canvas
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
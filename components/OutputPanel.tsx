@@ -1,26 +1,58 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
 import { Card } from './ui/Card';
-import { AIResponse } from '../types';
+import { AIResponse, Note, Timing, Track } from '../types';
 import { Spinner } from './ui/Spinner';
+import { notesToAbc } from '../services/abcExport';
+import { getScoreEnd } from '../services/notation';
+import { getPitchedNotes } from '../services/drums';
+import { estimateKey } from '../services/harmony';
+import { getBarLines } from '../services/timing';
+import { formatIssue, ResponseIssue } from '../services/responseValidator';
+import { HarmonyPanel } from './HarmonyPanel';
 
 declare const ABCJS: any;
 
 interface OutputPanelProps {
   aiResponse: AIResponse | null;
+  notes: Note[];
+  tracks: Track[];
+  timing: Timing;
   groundingSources?: any[];
+  responseIssues?: ResponseIssue[];
   isLoading: boolean;
   error: string | null;
+  streamingText?: string; // Thought process of a reply that is still streaming
+  isVisible?: boolean; // False while the sidebar is closed, so the score is not engraved
 }
 
-export const OutputPanel: React.FC<OutputPanelProps> = ({ aiResponse, groundingSources, isLoading, error }) => {
+// Long scores are engraved only up to here; the exporters still write every bar
+const SCORE_BAR_LIMIT = 64;
+
+export const OutputPanel: React.FC<OutputPanelProps> = ({ aiResponse, notes, tracks, timing, groundingSources, responseIssues = [], isLoading, error, streamingText, isVisible = true }) => {
   const scoreRef = useRef<HTMLDivElement>(null);
   const [tab, setTab] = useState<'score' | 'theory' | 'lyrics'>('score');
+  // Engraving and analysis lag behind edits instead of holding up the canvas
+  const deferredNotes = useDeferredValue(notes);
+  // Drum hits are stored as GM keys, so they stay out of the engraving and the analysis
+  const pitchedNotes = useMemo(() => getPitchedNotes(deferredNotes, tracks), [deferredNotes, tracks]);
+  const isScoreShown = isVisible && tab === 'score';
+
+  // The score always mirrors the canvas rather than the model's own notation
+  const score = useMemo(() => {
+    if (!isScoreShown) return null;
+    const barLines = getBarLines(timing, getScoreEnd(pitchedNotes));
+    const cutoff = barLines.length > SCORE_BAR_LIMIT ? barLines[SCORE_BAR_LIMIT].time : Infinity;
+    const shown = cutoff === Infinity ? pitchedNotes : pitchedNotes.filter(n => n.time < cutoff);
+    // Written in the estimated key so the signature and accidentals match the piece
+    const key = estimateKey(pitchedNotes)?.symbol;
+    return { abc: notesToAbc(shown, { timing, key }), barCount: barLines.length };
+  }, [isScoreShown, pitchedNotes, timing]);
 
   useEffect(() => {
-    if (aiResponse?.abcNotation && scoreRef.current && tab === 'score') {
+    if (score && notes.length > 0 && scoreRef.current) {
       try {
         scoreRef.current.innerHTML = '';
-        ABCJS.renderAbc(scoreRef.current, aiResponse.abcNotation, {
+        ABCJS.renderAbc(scoreRef.current, score.abc, {
           responsive: "resize",
           paddingtop: 10,
           paddingbottom: 10,
@@ -31,7 +63,7 @@ export const OutputPanel: React.FC<OutputPanelProps> = ({ aiResponse, groundingS
         console.error("ABC Rendering failed", err);
       }
     }
-  }, [aiResponse, tab]);
+  }, [score, notes.length, isLoading, error]);
 
   return (
     <Card className="h-full flex flex-col border-none bg-slate-950 shadow-2xl overflow-hidden rounded-none">
@@ -55,7 +87,15 @@ export const OutputPanel: React.FC<OutputPanelProps> = ({ aiResponse, groundingS
       </div>
 
       <div className="flex-grow p-4 overflow-y-auto custom-scrollbar">
-        {isLoading ? (
+        {isLoading && streamingText ? (
+          <div className="space-y-3 animate-fade-in">
+            <div className="text-[9px] font-black text-indigo-400 uppercase tracking-[0.2em]">Receiving Reply</div>
+            <p className="text-[11px] leading-relaxed text-slate-300 whitespace-pre-wrap">
+              {streamingText}
+              <span className="inline-block w-1.5 h-3 ml-0.5 bg-cyan-400 animate-pulse align-middle" />
+            </p>
+          </div>
+        ) : isLoading ? (
           <div className="h-full flex flex-col items-center justify-center space-y-6">
             <Spinner />
             <div className="text-center">
@@ -72,45 +112,80 @@ export const OutputPanel: React.FC<OutputPanelProps> = ({ aiResponse, groundingS
             <div className="font-bold mb-2 uppercase tracking-widest text-rose-500">Critical Engine Alert</div>
             {error}
           </div>
-        ) : aiResponse ? (
+        ) : aiResponse || notes.length > 0 ? (
           <div className="h-full space-y-6 animate-fade-in">
             {tab === 'score' && (
               <div className="bg-white/95 rounded-xl border border-slate-800 shadow-2xl p-2">
                 <div ref={scoreRef} className="abcjs-sidebar-render"></div>
+                {score && score.barCount > SCORE_BAR_LIMIT && (
+                  <p className="px-2 pb-1 text-[10px] text-slate-500">
+                    Showing the first {SCORE_BAR_LIMIT} of {score.barCount} bars. Export the score to see all of it.
+                  </p>
+                )}
               </div>
             )}
             
             {tab === 'theory' && (
               <div className="space-y-4">
-                <div className="text-[12px] text-slate-400 leading-relaxed bg-slate-900/50 p-5 border border-slate-800 rounded-2xl">
-                   <div className="text-cyan-400 font-black mb-4 flex items-center gap-2 text-[10px] tracking-[0.2em] uppercase">
-                     <div className="w-1.5 h-1.5 bg-cyan-500 rounded-full"></div> Composition Logic
-                   </div>
-                   <p className="whitespace-pre-wrap leading-loose italic">{aiResponse.thoughtProcess}</p>
-                </div>
+                <HarmonyPanel notes={pitchedNotes} timing={timing} />
 
-                {groundingSources && groundingSources.length > 0 && (
-                  <div className="bg-slate-900/30 p-4 border border-slate-800/50 rounded-2xl">
-                    <div className="text-indigo-400 font-black mb-3 text-[9px] tracking-[0.2em] uppercase">Grounding Sources</div>
-                    <div className="space-y-2">
-                      {groundingSources.map((source, idx) => (
-                        <a 
-                          key={idx} 
-                          href={source.web?.uri || '#'} 
-                          target="_blank" 
-                          rel="noreferrer"
-                          className="block text-[10px] text-slate-500 hover:text-cyan-400 transition-colors truncate mono underline decoration-indigo-500/30"
-                        >
-                          {source.web?.title || source.web?.uri}
-                        </a>
-                      ))}
+                {aiResponse && (
+                  <>
+                    <div className="text-[12px] text-slate-400 leading-relaxed bg-slate-900/50 p-5 border border-slate-800 rounded-2xl">
+                       <div className="text-cyan-400 font-black mb-4 flex items-center gap-2 text-[10px] tracking-[0.2em] uppercase">
+                         <div className="w-1.5 h-1.5 bg-cyan-500 rounded-full"></div> Composition Logic
+                       </div>
+                       <p className="whitespace-pre-wrap leading-loose italic">{aiResponse.thoughtProcess}</p>
                     </div>
-                  </div>
+
+                    {aiResponse.toolResults.map(result => (
+                      <div key={result.toolId} className="bg-slate-900/30 p-4 border border-slate-800/50 rounded-2xl">
+                        <div className="text-cyan-400 font-black mb-3 text-[9px] tracking-[0.2em] uppercase">{result.title}</div>
+                        <ul className="space-y-1.5">
+                          {result.lines.map((line, idx) => (
+                            <li key={idx} className="text-[11px] text-slate-400 leading-snug">{line}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+
+                    {responseIssues.length > 0 && (
+                      <div className="bg-slate-900/30 p-4 border border-slate-800/50 rounded-2xl">
+                        <div className="text-amber-400 font-black mb-3 text-[9px] tracking-[0.2em] uppercase">Response Checks</div>
+                        <ul className="space-y-1.5">
+                          {responseIssues.map((issue, idx) => (
+                            <li key={idx} className={`text-[10px] mono leading-snug ${issue.severity === 'error' ? 'text-rose-400' : 'text-slate-500'}`}>
+                              {issue.severity === 'error' ? '✕' : '↻'} {formatIssue(issue)}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {groundingSources && groundingSources.length > 0 && (
+                      <div className="bg-slate-900/30 p-4 border border-slate-800/50 rounded-2xl">
+                        <div className="text-indigo-400 font-black mb-3 text-[9px] tracking-[0.2em] uppercase">Grounding Sources</div>
+                        <div className="space-y-2">
+                          {groundingSources.map((source, idx) => (
+                            <a 
+                              key={idx} 
+                              href={source.web?.uri || '#'} 
+                              target="_blank" 
+                              rel="noreferrer"
+                              className="block text-[10px] text-slate-500 hover:text-cyan-400 transition-colors truncate mono underline decoration-indigo-500/30"
+                            >
+                              {source.web?.title || source.web?.uri}
+                            </a>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </>
                 )}
               </div>
             )}
 
-            {tab === 'lyrics' && (
+            {tab === 'lyrics' && aiResponse && (
               <div className="p-8 bg-gradient-to-b from-slate-900 to-slate-950 rounded-3xl border border-slate-800 text-center relative overflow-hidden">
                 <div className="absolute top-0 left-0 w-full h-1 bg-cyan-500/20"></div>
                 {aiResponse.lyrics ? (
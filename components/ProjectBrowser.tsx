@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Project } from '../types';
+import { createProjectId, getProjectFileName, parseProjectFile, PROJECT_FILE_EXTENSION, serializeProject } from '../services/project';
+import { deleteProject, listProjects, loadProject, ProjectSummary, renameProject } from '../services/projectStore';
+import { downloadFile } from '../services/fileUtils';
+
+interface ProjectBrowserProps {
+  project: Project;
+  saveError: string | null;
+  onOpen: (project: Project) => void;
+  onNew: () => void;
+  onRename: (name: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+const MENU_ITEM_CLASS = 'flex-1 py-1.5 rounded-md border border-slate-800 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-cyan-400 hover:border-cyan-500/40';
+const INPUT_CLASS = 'w-full bg-slate-950 border border-slate-800 rounded px-2 py-1 text-[10px] text-slate-300 focus:outline-none focus:border-cyan-500';
+
+/**
+ * Header popover listing the projects saved in this browser. The open project autosaves;
+ * files can be exported and imported as .musico.json.
+ */
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ project, saveError, onOpen, onNew, onRename, onDeleted }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    listProjects()
+      .then(setProjects)
+      .catch(e => setError(e instanceof Error ? e.message : 'Could not read saved projects'));
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  const open = async (id: string) => {
+    if (id === project.id) return;
+    try {
+      const loaded = await loadProject(id);
+      if (!loaded) throw new Error('Project no longer exists');
+      onOpen(loaded);
+      setIsOpen(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not open the project');
+    }
+  };
+
+  const commitRename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (!name) return;
+    if (renaming.id === project.id) onRename(name);
+    else await renameProject(renaming.id, name).catch(() => setError('Could not rename the project'));
+    refresh();
+  };
+
+  const remove = async (summary: ProjectSummary) => {
+    if (!confirm(`Delete "${summary.name}" from this browser?`)) return;
+    try {
+      await deleteProject(summary.id);
+      onDeleted(summary.id);
+      refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not delete the project');
+    }
+  };
+
+  // Imports get a fresh id so they never overwrite a project already in the library
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProjectFile(await file.text());
+      onOpen({ ...imported, id: createProjectId() });
+      setError(null);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import the file');
+    }
+  };
+
+  const exportFile = () => {
+    downloadFile(serializeProject(project), getProjectFileName(project), 'application/json');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`max-w-[9rem] truncate px-2 py-1 rounded-md border text-[9px] font-black uppercase tracking-widest hover:text-cyan-400 hover:border-cyan-500/50 ${saveError ? 'border-rose-500/50 text-rose-400' : 'border-slate-800 text-slate-400'}`}
+        title={saveError ? `Autosave failed: ${saveError}` : project.name}
+      >
+        {project.name}
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-72 bg-slate-900 border border-slate-800 rounded-xl shadow-2xl z-[60]">
+          <div className="p-3 flex gap-1">
+            <button onClick={() => { onNew(); setIsOpen(false); }} className={MENU_ITEM_CLASS}>New</button>
+            <button onClick={() => fileInputRef.current?.click()} className={MENU_ITEM_CLASS}>Import</button>
+            <button onClick={exportFile} className={MENU_ITEM_CLASS}>Export</button>
+            <input ref={fileInputRef} type="file" accept={`${PROJECT_FILE_EXTENSION},.json,application/json`} onChange={importFile} className="hidden" />
+          </div>
+          {(error || saveError) && (
+            <p className="px-3 pb-2 text-[10px] text-rose-400">{error || `Autosave failed: ${saveError}`}</p>
+          )}
+
+          <div className="border-t border-slate-800 max-h-72 overflow-y-auto custom-scrollbar">
+            <div className="px-3 pt-3 text-[9px] font-black text-indigo-400 uppercase tracking-[0.2em]">Saved in this browser</div>
+            {projects.length === 0 && <p className="px-3 py-3 text-[10px] text-slate-600">Nothing saved yet. Projects save themselves once they have notes or chat.</p>}
+            <ul className="p-2 space-y-1">
+              {projects.map(summary => (
+                <li
+                  key={summary.id}
+                  className={`group rounded-lg px-2 py-1.5 ${summary.id === project.id ? 'bg-cyan-500/10 border border-cyan-500/30' : 'border border-transparent hover:bg-slate-800/60'}`}
+                >
+                  {renaming?.id === summary.id ? (
+                    <input
+                      autoFocus
+                      value={renaming.name}
+                      onChange={e => setRenaming({ ...renaming, name: e.target.value })}
+                      onBlur={commitRename}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenaming(null);
+                      }}
+                      className={INPUT_CLASS}
+                    />
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => open(summary.id)} className="flex-grow min-w-0 text-left">
+                        <div className="text-[11px] font-bold text-slate-200 truncate">{summary.name}</div>
+                        <div className="text-[9px] text-slate-600">
+                          {summary.noteCount} notes · {new Date(summary.updatedAt).toLocaleString()}
+                        </div>
+                      </button>
+                      <button
+                        onClick={() => setRenaming({ id: summary.id, name: summary.id === project.id ? project.name : summary.name })}
+                        className="opacity-0 group-hover:opacity-100 text-[9px] font-bold uppercase text-slate-500 hover:text-cyan-400"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => remove(summary)}
+                        className="opacity-0 group-hover:opacity-100 text-[9px] font-bold uppercase text-slate-500 hover:text-rose-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
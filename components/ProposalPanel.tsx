@@ -0,0 +1,91 @@
+import React from 'react';
+import { NoteChange, ScoreProposal, summarizeChanges } from '../services/scoreDiff';
+
+export type AuditionVersion = 'current' | 'proposed';
+
+interface ProposalPanelProps {
+  proposal: ScoreProposal;
+  changes: NoteChange[];
+  auditioning: AuditionVersion | null;
+  onProposalChange: (proposal: ScoreProposal) => void;
+  onAudition: (version: AuditionVersion) => void;
+  onCommit: () => void;
+  onDiscard: () => void;
+}
+
+const BUTTON_CLASS = 'px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border border-slate-700 transition-colors';
+
+export const ProposalPanel: React.FC<ProposalPanelProps> = ({
+  proposal, changes, auditioning, onProposalChange, onAudition, onCommit, onDiscard
+}) => {
+  const rejected = new Set(proposal.rejectedIds);
+  const summary = summarizeChanges(changes.filter(c => !rejected.has(c.id)));
+
+  // One row per track touched by the proposal
+  const groups = new Map<string, { name: string; color: string; changes: NoteChange[] }>();
+  changes.forEach(change => {
+    const key = change.trackId || change.instrument;
+    if (!groups.has(key)) {
+      const track = proposal.tracks.find(t => t.id === change.trackId);
+      groups.set(key, { name: track?.name || change.instrument, color: track?.color || '#22d3ee', changes: [] });
+    }
+    groups.get(key)!.changes.push(change);
+  });
+
+  const setRejected = (ids: string[], reject: boolean) => {
+    const next = new Set(rejected);
+    ids.forEach(id => (reject ? next.add(id) : next.delete(id)));
+    onProposalChange({ ...proposal, rejectedIds: [...next] });
+  };
+
+  return (
+    <div className="px-4 py-2.5 border-b border-amber-500/30 bg-amber-950/20 flex flex-wrap items-center gap-3 z-40">
+      <div className="flex flex-col min-w-0">
+        <span className="text-[9px] font-black text-amber-400 uppercase tracking-[0.2em]">Review Proposal</span>
+        <span className="text-[10px] text-slate-400 truncate max-w-[14rem]">{proposal.label}</span>
+      </div>
+      <div className="flex gap-2 text-[10px] font-bold mono">
+        <span className="text-emerald-400">+{summary.added}</span>
+        <span className="text-rose-400">−{summary.removed}</span>
+        <span className="text-amber-300">~{summary.changed}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {[...groups.entries()].map(([key, group]) => {
+          const ids = group.changes.map(c => c.id);
+          const acceptedCount = ids.filter(id => !rejected.has(id)).length;
+          return (
+            <button
+              key={key}
+              onClick={() => setRejected(ids, acceptedCount > 0)}
+              className={`px-2 py-1 rounded-md text-[9px] font-bold border transition-opacity ${acceptedCount > 0 ? 'opacity-100' : 'opacity-40'}`}
+              style={{ borderColor: group.color, color: group.color }}
+              title={acceptedCount > 0 ? 'Reject all changes on this track' : 'Accept all changes on this track'}
+            >
+              {group.name} {acceptedCount}/{ids.length}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-1.5 ml-auto">
+        <button onClick={() => setRejected(changes.map(c => c.id), false)} className={`${BUTTON_CLASS} text-slate-400 hover:text-emerald-400`}>Accept All</button>
+        <button onClick={() => setRejected(changes.map(c => c.id), true)} className={`${BUTTON_CLASS} text-slate-400 hover:text-rose-400`}>Reject All</button>
+        <button
+          onClick={() => onAudition('current')}
+          className={`${BUTTON_CLASS} ${auditioning === 'current' ? 'bg-slate-200 text-slate-950' : 'text-slate-400 hover:text-cyan-400'}`}
+        >
+          {auditioning === 'current' ? 'Stop' : '▶ Current'}
+        </button>
+        <button
+          onClick={() => onAudition('proposed')}
+          className={`${BUTTON_CLASS} ${auditioning === 'proposed' ? 'bg-amber-400 text-slate-950' : 'text-slate-400 hover:text-amber-300'}`}
+        >
+          {auditioning === 'proposed' ? 'Stop' : '▶ Proposed'}
+        </button>
+        <button onClick={onDiscard} className={`${BUTTON_CLASS} text-slate-500 hover:text-rose-400`}>Discard</button>
+        <button onClick={onCommit} className={`${BUTTON_CLASS} bg-amber-400 text-slate-950 border-amber-400 hover:bg-amber-300`}>Apply</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { HUM_MODE_OPTIONS, HumMode, PROVIDER_OPTIONS, ProviderId, ProviderSettings as Settings } from '../services/modelProvider';
+
+interface ProviderSettingsProps {
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+}
+
+const INPUT_CLASS = 'w-full bg-slate-950 border border-slate-800 rounded px-2 py-1 text-[10px] text-slate-300 focus:outline-none focus:border-cyan-500';
+const LABEL_CLASS = 'block text-[9px] font-black text-slate-500 uppercase tracking-widest mb-1';
+
+/**
+ * Header popover for choosing the chat backend. Switching provider resets the model to that
+ * provider's default. The chat session carries over: its history is replayed to whichever
+ * provider answers the next turn.
+ */
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ settings, onSettingsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const active = PROVIDER_OPTIONS.find(p => p.id === settings.providerId) || PROVIDER_OPTIONS[0];
+
+  const selectProvider = (providerId: ProviderId) => {
+    const option = PROVIDER_OPTIONS.find(p => p.id === providerId)!;
+    onSettingsChange({ ...settings, providerId, model: option.defaultModel });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-2 py-1 rounded-md border border-slate-800 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-cyan-400 hover:border-cyan-500/50"
+        title="Model provider"
+      >
+        {active.label}
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-64 bg-slate-900 border border-slate-800 rounded-xl shadow-2xl p-4 space-y-3 z-[60]">
+          <div>
+            <label className={LABEL_CLASS}>Provider</label>
+            <select value={settings.providerId} onChange={e => selectProvider(e.target.value as ProviderId)} className={INPUT_CLASS}>
+              {PROVIDER_OPTIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            <p className="text-[9px] text-slate-600 mt-1">{active.description}</p>
+          </div>
+          {settings.providerId !== 'mock' && (
+            <div>
+              <label className={LABEL_CLASS}>Model</label>
+              <input
+                value={settings.model}
+                onChange={e => onSettingsChange({ ...settings, model: e.target.value })}
+                placeholder={active.defaultModel}
+                className={INPUT_CLASS}
+              />
+            </div>
+          )}
+          {settings.providerId === 'openai' && (
+            <>
+              <div>
+                <label className={LABEL_CLASS}>Base URL</label>
+                <input
+                  value={settings.baseUrl}
+                  onChange={e => onSettingsChange({ ...settings, baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div>
+                <label className={LABEL_CLASS}>API Key</label>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={e => onSettingsChange({ ...settings, apiKey: e.target.value })}
+                  placeholder="Optional for local servers"
+                  className={INPUT_CLASS}
+                />
+              </div>
+            </>
+          )}
+          <div>
+            <label className={LABEL_CLASS}>Humming</label>
+            <select value={settings.humMode} onChange={e => onSettingsChange({ ...settings, humMode: e.target.value as HumMode })} className={INPUT_CLASS}>
+              {HUM_MODE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.autoRepair}
+              onChange={e => onSettingsChange({ ...settings, autoRepair: e.target.checked })}
+              className="h-3 w-3 accent-cyan-500"
+            />
+            Ask the model to fix invalid replies
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
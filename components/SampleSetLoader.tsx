@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { unregisterPatch } from '../services/instruments';
+import { getSampleSets, loadSampleSet } from '../services/sampleSets';
+
+interface SampleSetLoaderProps {
+  onChange: () => void;
+}
+
+const INPUT_CLASS = 'w-full bg-slate-950 border border-slate-800 rounded px-2 py-1 text-[10px] text-slate-300 focus:outline-none focus:border-cyan-500';
+
+/**
+ * Track list popover for loading a folder's worth of recorded notes as a playable instrument.
+ * Tracks whose instrument name matches the set's name play it.
+ */
+export const SampleSetLoader: React.FC<SampleSetLoaderProps> = ({ onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sampleSets = getSampleSets();
+
+  const loadFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsLoading(true);
+    try {
+      await loadSampleSet(name.trim() || 'Samples', files);
+      setName('');
+      setError(null);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the samples');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const remove = (id: string) => {
+    unregisterPatch(id);
+    onChange();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`text-[9px] font-black uppercase tracking-widest ${isOpen ? 'text-cyan-300' : 'text-slate-500 hover:text-cyan-300'}`}
+      >
+        Samples
+      </button>
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-60 bg-slate-900 border border-slate-800 rounded-xl shadow-2xl z-[60] p-3 space-y-2">
+          <div className="text-[9px] font-black text-indigo-400 uppercase tracking-[0.2em]">Sample Sets</div>
+          <p className="text-[9px] text-slate-500 leading-relaxed">
+            Pick audio files named by pitch (C4.wav, F#3.mp3, 60.wav). Tracks using the set's name play it. Sets are kept until the page reloads.
+          </p>
+          <input value={name} onChange={e => setName(e.target.value)} placeholder="Set name, e.g. My Piano" className={INPUT_CLASS} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="w-full py-1.5 rounded-md border border-slate-800 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-cyan-400 hover:border-cyan-500/40 disabled:opacity-50"
+          >
+            {isLoading ? 'Decoding…' : 'Choose Files'}
+          </button>
+          <input ref={fileInputRef} type="file" accept="audio/*" multiple onChange={loadFiles} className="hidden" />
+          {error && <p className="text-[10px] text-rose-400">{error}</p>}
+          {sampleSets.length > 0 && (
+            <ul className="border-t border-slate-800 pt-2 space-y-1">
+              {sampleSets.map(set => (
+                <li key={set.id} className="flex items-center gap-2 text-[10px] text-slate-300">
+                  <span className="flex-grow truncate">{set.name}</span>
+                  <span className="text-[9px] text-slate-600">{set.voices[0].kind === 'sample' ? set.voices[0].zones.length : 0} notes</span>
+                  <button onClick={() => remove(set.id)} className="text-[9px] font-black text-slate-600 hover:text-rose-400">✕</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Timing } from '../types';
+import { clampBpm, getBarAt, getBarStart, MAX_BPM, MIN_BPM } from '../services/timing';
+
+interface TimingPanelProps {
+  timing: Timing;
+  onTimingChange: (timing: Timing) => void;
+}
+
+const METER_DENOMINATORS = [2, 4, 8, 16];
+const INPUT_CLASS = 'bg-slate-950 border border-slate-800 rounded px-1.5 py-0.5 text-[10px] font-bold text-slate-300 focus:outline-none focus:border-cyan-500';
+const ROW_BUTTON_CLASS = 'text-[9px] font-black text-slate-600 hover:text-rose-400';
+
+// Empty or invalid input keeps the previous tempo so the field can be retyped freely
+const readBpm = (value: number, fallback: number): number => (value > 0 ? clampBpm(Math.round(value)) : fallback);
+
+/**
+ * Footer control for the project tempo and meter plus the tempo/meter map. Changes are entered
+ * by bar number and stored at the grid unit where that bar starts.
+ */
+export const TimingPanel: React.FC<TimingPanelProps> = ({ timing, onTimingChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Bar positions are measured without the change being edited, so moving a meter change
+  // does not shift the bar it is being moved to
+  const withoutTempo = (index: number): Timing => ({ ...timing, tempoChanges: timing.tempoChanges.filter((_, i) => i !== index) });
+  const withoutMeter = (index: number): Timing => ({ ...timing, meterChanges: timing.meterChanges.filter((_, i) => i !== index) });
+  const barNumberAt = (time: number, reference: Timing) => getBarAt(reference, time).index + 1;
+  // Changes start at bar 2 at the earliest; bar 1 is the project tempo and meter themselves
+  const barStart = (barNumber: number, reference: Timing) => getBarStart(reference, Math.max(2, Math.round(barNumber) || 2) - 1);
+
+  const updateTempoChange = (index: number, patch: { bar?: number; bpm?: number }) => {
+    const reference = withoutTempo(index);
+    onTimingChange({
+      ...timing,
+      tempoChanges: timing.tempoChanges.map((change, i) => i !== index ? change : {
+        time: patch.bar !== undefined ? barStart(patch.bar, reference) : change.time,
+        bpm: patch.bpm !== undefined ? readBpm(patch.bpm, change.bpm) : change.bpm
+      })
+    });
+  };
+
+  const updateMeterChange = (index: number, patch: { bar?: number; numerator?: number; denominator?: number }) => {
+    const reference = withoutMeter(index);
+    onTimingChange({
+      ...timing,
+      meterChanges: timing.meterChanges.map((change, i) => i !== index ? change : {
+        time: patch.bar !== undefined ? barStart(patch.bar, reference) : change.time,
+        numerator: patch.numerator !== undefined ? Math.max(1, Math.round(patch.numerator) || 1) : change.numerator,
+        denominator: patch.denominator ?? change.denominator
+      })
+    });
+  };
+
+  const addTempoChange = () => {
+    const last = timing.tempoChanges[timing.tempoChanges.length - 1];
+    const bar = last ? barNumberAt(last.time, timing) + 4 : 5;
+    onTimingChange({ ...timing, tempoChanges: [...timing.tempoChanges, { time: barStart(bar, timing), bpm: last?.bpm ?? timing.bpm }] });
+  };
+
+  const addMeterChange = () => {
+    const last = timing.meterChanges[timing.meterChanges.length - 1];
+    const bar = last ? barNumberAt(last.time, timing) + 4 : 5;
+    onTimingChange({
+      ...timing,
+      meterChanges: [...timing.meterChanges, { time: barStart(bar, timing), numerator: 3, denominator: 4 }]
+    });
+  };
+
+  const mapSize = timing.tempoChanges.length + timing.meterChanges.length;
+
+  return (
+    <div className="relative flex items-center gap-4">
+      <label className="flex items-center gap-2">
+        <div className="w-1.5 h-1.5 bg-cyan-500 rounded-full"></div>
+        <input
+          type="number"
+          min={MIN_BPM}
+          max={MAX_BPM}
+          value={timing.bpm}
+          onChange={e => onTimingChange({ ...timing, bpm: readBpm(Number(e.target.value), timing.bpm) })}
+          className={`${INPUT_CLASS} w-12`}
+        />
+        BPM
+      </label>
+      <label className="flex items-center gap-2">
+        <div className="w-1.5 h-1.5 bg-indigo-500 rounded-full"></div>
+        <input
+          type="number"
+          min={1}
+          max={32}
+          value={timing.meter[0]}
+          onChange={e => onTimingChange({ ...timing, meter: [Math.max(1, Math.round(Number(e.target.value)) || 1), timing.meter[1]] })}
+          className={`${INPUT_CLASS} w-9`}
+        />
+        /
+        <select
+          value={timing.meter[1]}
+          onChange={e => onTimingChange({ ...timing, meter: [timing.meter[0], Number(e.target.value)] })}
+          className={INPUT_CLASS}
+        >
+          {METER_DENOMINATORS.map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+        TIME
+      </label>
+      <button onClick={() => setIsOpen(!isOpen)} className={`font-black ${mapSize > 0 ? 'text-cyan-400' : 'text-slate-500'} hover:text-cyan-300`}>
+        Map{mapSize > 0 ? ` (${mapSize})` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-3 w-72 bg-slate-900 border border-slate-800 rounded-xl shadow-2xl p-4 space-y-4 z-[60] normal-case tracking-normal">
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-[9px] font-black text-cyan-400 uppercase tracking-[0.2em]">Tempo Changes</span>
+              <button onClick={addTempoChange} className="text-[9px] font-black text-cyan-500 hover:text-cyan-300 uppercase tracking-widest">+ Add</button>
+            </div>
+            {timing.tempoChanges.length === 0 && <div className="text-[9px] text-slate-600 uppercase tracking-widest">None</div>}
+            {timing.tempoChanges.map((change, i) => (
+              <div key={i} className="flex items-center gap-2 text-[10px] text-slate-500 font-bold">
+                Bar
+                <input type="number" min={2} value={barNumberAt(change.time, withoutTempo(i))} onChange={e => updateTempoChange(i, { bar: Number(e.target.value) })} className={`${INPUT_CLASS} w-12`} />
+                <input type="number" min={MIN_BPM} max={MAX_BPM} value={change.bpm} onChange={e => updateTempoChange(i, { bpm: Number(e.target.value) })} className={`${INPUT_CLASS} w-14`} />
+                BPM
+                <button onClick={() => onTimingChange(withoutTempo(i))} className={`${ROW_BUTTON_CLASS} ml-auto`} title="Remove">✕</button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-[9px] font-black text-indigo-400 uppercase tracking-[0.2em]">Meter Changes</span>
+              <button onClick={addMeterChange} className="text-[9px] font-black text-cyan-500 hover:text-cyan-300 uppercase tracking-widest">+ Add</button>
+            </div>
+            {timing.meterChanges.length === 0 && <div className="text-[9px] text-slate-600 uppercase tracking-widest">None</div>}
+            {timing.meterChanges.map((change, i) => (
+              <div key={i} className="flex items-center gap-2 text-[10px] text-slate-500 font-bold">
+                Bar
+                <input type="number" min={2} value={barNumberAt(change.time, withoutMeter(i))} onChange={e => updateMeterChange(i, { bar: Number(e.target.value) })} className={`${INPUT_CLASS} w-12`} />
+                <input type="number" min={1} max={32} value={change.numerator} onChange={e => updateMeterChange(i, { numerator: Number(e.target.value) })} className={`${INPUT_CLASS} w-10`} />
+                /
+                <select value={change.denominator} onChange={e => updateMeterChange(i, { denominator: Number(e.target.value) })} className={INPUT_CLASS}>
+                  {METER_DENOMINATORS.map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+                <button onClick={() => onTimingChange(withoutMeter(i))} className={`${ROW_BUTTON_CLASS} ml-auto`} title="Remove">✕</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Track, TrackKind } from '../types';
+import { createTrack } from '../services/tracks';
+import { getPatches, resolvePatch } from '../services/instruments';
+import { DRUM_LANES } from '../services/drums';
+import { SampleSetLoader } from './SampleSetLoader';
+
+interface TrackListProps {
+  tracks: Track[];
+  activeTrackId: string | null;
+  onSelectTrack: (id: string) => void;
+  onTracksChange: (tracks: Track[]) => void;
+}
+
+export const TrackList: React.FC<TrackListProps> = ({ tracks, activeTrackId, onSelectTrack, onTracksChange }) => {
+  // Bumped when sample sets change so the patch list and matches are read again
+  const [, setPatchVersion] = useState(0);
+
+  const updateTrack = (id: string, patch: Partial<Track>) => {
+    onTracksChange(tracks.map(t => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const addTrack = (kind: TrackKind) => {
+    const track = kind === 'percussion'
+      ? createTrack(tracks.some(t => t.name === 'Drums') ? `Drums ${tracks.length + 1}` : 'Drums', 'Drum Kit', tracks.length, 'percussion')
+      : createTrack(`Track ${tracks.length + 1}`, 'Synth Lead', tracks.length);
+    onTracksChange([...tracks, track]);
+    onSelectTrack(track.id);
+  };
+
+  return (
+    <div className="w-56 flex-shrink-0 border-r border-slate-800 bg-slate-900/60 flex flex-col overflow-hidden">
+      <div className="px-3 py-2 border-b border-slate-800 flex justify-between items-center">
+        <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Tracks</span>
+        <div className="flex items-center gap-2.5">
+          <SampleSetLoader onChange={() => setPatchVersion(v => v + 1)} />
+          <button onClick={() => addTrack('percussion')} className="text-[9px] font-black text-amber-500 hover:text-amber-300 uppercase tracking-widest" title="Add a drum track">+ Drums</button>
+          <button onClick={() => addTrack('pitched')} className="text-[9px] font-black text-cyan-500 hover:text-cyan-300 uppercase tracking-widest">+ Add</button>
+        </div>
+      </div>
+      <datalist id="instrument-patches">
+        {getPatches().map(patch => <option key={patch.id} value={patch.name} />)}
+      </datalist>
+      <div className="flex-grow overflow-y-auto custom-scrollbar">
+        {tracks.length === 0 && (
+          <div className="p-4 text-[9px] text-slate-600 uppercase tracking-widest text-center">Draw a note to create a track</div>
+        )}
+        {tracks.map(track => {
+          const isActive = track.id === activeTrackId;
+          const patch = resolvePatch(track.instrument);
+          return (
+            <div
+              key={track.id}
+              onMouseDown={() => onSelectTrack(track.id)}
+              className={`px-3 py-2 border-b border-slate-800/60 space-y-1.5 cursor-pointer transition-colors ${isActive ? 'bg-slate-800/70' : 'hover:bg-slate-800/30'}`}
+              style={{ boxShadow: `inset 3px 0 0 0 ${track.color}` }}
+            >
+              <div className="flex items-center gap-1.5">
+                <input
+                  value={track.name}
+                  onChange={e => updateTrack(track.id, { name: e.target.value })}
+                  className="flex-grow min-w-0 bg-transparent text-[11px] font-bold text-slate-200 focus:outline-none focus:text-cyan-300"
+                />
+                <button
+                  onClick={() => updateTrack(track.id, { mute: !track.mute })}
+                  className={`w-5 h-5 rounded text-[9px] font-black ${track.mute ? 'bg-amber-500 text-slate-950' : 'bg-slate-800 text-slate-500'}`}
+                  title="Mute"
+                >M</button>
+                <button
+                  onClick={() => updateTrack(track.id, { solo: !track.solo })}
+                  className={`w-5 h-5 rounded text-[9px] font-black ${track.solo ? 'bg-cyan-500 text-slate-950' : 'bg-slate-800 text-slate-500'}`}
+                  title="Solo"
+                >S</button>
+                <button
+                  onClick={() => onTracksChange(tracks.filter(t => t.id !== track.id))}
+                  className="w-5 h-5 rounded text-[9px] font-black text-slate-600 hover:text-rose-400"
+                  title="Delete track and its notes"
+                >✕</button>
+              </div>
+              {track.kind === 'percussion' ? (
+                <div className="px-1.5 py-0.5 text-[9px] text-amber-400/80 font-bold uppercase tracking-wider" title="Hits are drawn in the drum lanes below the keyboard">
+                  Drum kit · {DRUM_LANES.length} lanes
+                </div>
+              ) : (
+                <div className="flex items-center gap-1.5">
+                  <input
+                    value={track.instrument}
+                    list="instrument-patches"
+                    onChange={e => updateTrack(track.id, { instrument: e.target.value })}
+                    className="flex-grow min-w-0 bg-slate-950/60 border border-slate-800 rounded px-1.5 py-0.5 text-[9px] text-slate-400 mono focus:outline-none focus:border-cyan-500"
+                    title="Instrument name, matched to the closest patch"
+                  />
+                  <span className="max-w-[4.5rem] truncate text-[8px] font-bold text-slate-600 uppercase" title={`Plays as ${patch.name}`}>{patch.name}</span>
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-[8px] text-slate-600 font-bold uppercase">
+                <span className="w-5">Vol</span>
+                <input type="range" min={0} max={1.5} step={0.01} value={track.gain} onChange={e => updateTrack(track.id, { gain: Number(e.target.value) })} className="flex-grow accent-cyan-500 h-1" />
+                <span className="w-5">Pan</span>
+                <input type="range" min={-1} max={1} step={0.05} value={track.pan} onChange={e => updateTrack(track.id, { pan: Number(e.target.value) })} onDoubleClick={() => updateTrack(track.id, { pan: 0 })} className="w-12 accent-indigo-500 h-1" />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
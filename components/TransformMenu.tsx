@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { Note, Track } from '../types';
+import { estimateKey } from '../services/harmony';
+import { getPercussionTrackIds, getPitchedNotes } from '../services/drums';
+import {
+  applyToSelection, exceptNotes, humanize, invert, quantize, retrograde, Scale, SCALE_MODES, ScaleMode, snapToScale,
+  timeStretch, transposeChromatic, transposeDiatonic
+} from '../services/transforms';
+
+interface TransformMenuProps {
+  notes: Note[];
+  tracks: Track[];
+  selection: Set<Note>;
+  onApply: (notes: Note[], selected: Note[], label: string) => void;
+}
+
+const TONIC_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const QUANTIZE_GRIDS = [
+  { label: '1/16', units: 1 },
+  { label: '1/8', units: 2 },
+  { label: '1/4', units: 4 },
+  { label: '1/8T', units: 4 / 3 },
+  { label: '1/16T', units: 2 / 3 }
+];
+const SECTION_CLASS = 'border-t border-slate-800 p-3 space-y-2';
+const HEADING_CLASS = 'text-[9px] font-black text-indigo-400 uppercase tracking-[0.2em]';
+const CHIP_CLASS = 'flex-1 py-1 rounded-md border border-slate-800 text-[9px] font-bold text-slate-400 hover:text-cyan-400 hover:border-cyan-500/40';
+const SELECT_CLASS = 'bg-slate-950 border border-slate-800 rounded px-1.5 py-1 text-[10px] font-bold text-slate-300 focus:outline-none focus:border-cyan-500';
+
+/**
+ * Header menu of score transforms. Each command runs on the selected notes, or on the whole
+ * score when nothing is selected, and lands in the history under its own name. Pitch commands
+ * leave drum hits alone.
+ */
+export const TransformMenu: React.FC<TransformMenuProps> = ({ notes, tracks, selection, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [chosenScale, setChosenScale] = useState<Scale | null>(null);
+  const [grid, setGrid] = useState(1);
+  const [strength, setStrength] = useState(1);
+  const [swing, setSwing] = useState(0);
+  const [quantizeLengths, setQuantizeLengths] = useState(false);
+  const [humanizeAmount, setHumanizeAmount] = useState(1 / 3);
+
+  // Until a scale is picked, diatonic commands follow the estimated key of the score
+  const estimated = useMemo(() => (isOpen && !chosenScale ? estimateKey(getPitchedNotes(notes, tracks)) : null), [isOpen, chosenScale, notes, tracks]);
+  const scale: Scale = chosenScale || (estimated ? { tonic: estimated.tonic, mode: estimated.mode } : { tonic: 0, mode: 'major' });
+  const scaleName = `${TONIC_NAMES[scale.tonic]} ${SCALE_MODES[scale.mode].label.toLowerCase()}`;
+
+  const targetCount = selection.size > 0 ? selection.size : notes.length;
+  const target = selection.size > 0 ? `${selection.size} selected` : 'whole score';
+
+  const run = (label: string, transform: (notes: Note[]) => Note[]) => {
+    const result = applyToSelection(notes, selection, transform);
+    onApply(result.notes, result.selected, `${label} (${target})`);
+  };
+
+  const runOnPitches = (label: string, transform: (notes: Note[]) => Note[]) => {
+    const percussion = getPercussionTrackIds(tracks);
+    run(label, n => exceptNotes(n, note => !!note.trackId && percussion.has(note.trackId), transform));
+  };
+
+  const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={notes.length === 0}
+        className="px-4 py-1.5 rounded-lg text-[10px] font-bold text-slate-500 hover:text-cyan-400 transition-colors uppercase border border-slate-800 disabled:opacity-30"
+      >
+        Transform{selection.size > 0 ? ` (${selection.size})` : ''}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-slate-900 border border-slate-800 rounded-xl shadow-2xl overflow-hidden z-[60]">
+          <div className="px-3 py-2 text-[10px] text-slate-500">
+            Applies to <span className="text-slate-300 font-bold">{target}</span> · {targetCount} notes
+          </div>
+
+          <div className={SECTION_CLASS}>
+            <div className={HEADING_CLASS}>Transpose</div>
+            <div className="flex gap-1">
+              {[-12, -1, 1, 12].map(semitones => (
+                <button key={semitones} onClick={() => runOnPitches(`Transpose ${signed(semitones)} st`, n => transposeChromatic(n, semitones))} className={CHIP_CLASS}>
+                  {semitones === 12 ? '+8va' : semitones === -12 ? '−8va' : `${signed(semitones)} st`}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              {[-2, -1, 1, 2].map(steps => (
+                <button key={steps} onClick={() => runOnPitches(`Transpose ${signed(steps)} in ${scaleName}`, n => transposeDiatonic(n, steps, scale))} className={CHIP_CLASS}>
+                  {signed(steps)} step
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className={SECTION_CLASS}>
+            <div className={HEADING_CLASS}>Scale</div>
+            <div className="flex gap-1">
+              <select value={scale.tonic} onChange={e => setChosenScale({ ...scale, tonic: Number(e.target.value) })} className={SELECT_CLASS}>
+                {TONIC_NAMES.map((name, pc) => <option key={name} value={pc}>{name}</option>)}
+              </select>
+              <select value={scale.mode} onChange={e => setChosenScale({ ...scale, mode: e.target.value as ScaleMode })} className={`${SELECT_CLASS} flex-1`}>
+                {(Object.keys(SCALE_MODES) as ScaleMode[]).map(mode => <option key={mode} value={mode}>{SCALE_MODES[mode].label}</option>)}
+              </select>
+            </div>
+            <button onClick={() => runOnPitches(`Snap to ${scaleName}`, n => snapToScale(n, scale))} className={`${CHIP_CLASS} w-full`}>
+              Snap to scale
+            </button>
+          </div>
+
+          <div className={SECTION_CLASS}>
+            <div className={HEADING_CLASS}>Timing</div>
+            <div className="flex gap-1 items-center">
+              <select value={grid} onChange={e => setGrid(Number(e.target.value))} className={SELECT_CLASS}>
+                {QUANTIZE_GRIDS.map(g => <option key={g.label} value={g.units}>{g.label}</option>)}
+              </select>
+              <label className="flex items-center gap-1 text-[9px] text-slate-500 font-bold uppercase">
+                <input type="checkbox" checked={quantizeLengths} onChange={e => setQuantizeLengths(e.target.checked)} className="accent-cyan-500" />
+                Lengths
+              </label>
+            </div>
+            <label className="block text-[9px] text-slate-500 font-bold uppercase tracking-widest">
+              Strength {Math.round(strength * 100)}%
+              <input type="range" min={0} max={1} step={0.05} value={strength} onChange={e => setStrength(Number(e.target.value))} className="w-full accent-cyan-500" />
+            </label>
+            <label className="block text-[9px] text-slate-500 font-bold uppercase tracking-widest">
+              Swing {Math.round(swing * 100)}%
+              <input type="range" min={0} max={1} step={0.05} value={swing} onChange={e => setSwing(Number(e.target.value))} className="w-full accent-cyan-500" />
+            </label>
+            <button
+              onClick={() => run(`Quantize ${QUANTIZE_GRIDS.find(g => g.units === grid)?.label}`, n => quantize(n, { grid, strength, swing, lengths: quantizeLengths }))}
+              className={`${CHIP_CLASS} w-full`}
+            >
+              Quantize
+            </button>
+            <div className="flex gap-1">
+              <select value={humanizeAmount} onChange={e => setHumanizeAmount(Number(e.target.value))} className={SELECT_CLASS}>
+                <option value={1 / 3}>± 1/3</option>
+                <option value={2 / 3}>± 2/3</option>
+                <option value={1}>± 1/16</option>
+              </select>
+              <button onClick={() => run('Humanize', n => humanize(n, humanizeAmount, Date.now()))} className={CHIP_CLASS}>
+                Humanize
+              </button>
+            </div>
+          </div>
+
+          <div className={SECTION_CLASS}>
+            <div className={HEADING_CLASS}>Shape</div>
+            <div className="flex gap-1">
+              <button onClick={() => runOnPitches('Invert', n => invert(n))} className={CHIP_CLASS}>Invert</button>
+              <button onClick={() => run('Retrograde', retrograde)} className={CHIP_CLASS}>Retrograde</button>
+            </div>
+            <div className="flex gap-1">
+              {[0.5, 2 / 3, 1.5, 2].map(factor => {
+                const label = factor === 2 / 3 ? '×2/3' : `×${factor}`;
+                return (
+                  <button key={factor} onClick={() => run(`Stretch ${label}`, n => timeStretch(n, factor))} className={CHIP_CLASS}>
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,4 @@
 
-import { Tool } from './types';
 
 export const MUSIC_STYLES: string[] = [
   "Classical",
@@ -12,34 +11,6 @@ export const MUSIC_STYLES: string[] = [
   "Blues Rock"
 ];
 
-export const AVAILABLE_TOOLS: Tool[] = [
-  {
-    id: "harmony_analysis",
-    name: "Analyze Harmony",
-    description: "Analyze and suggest chord progressions that fit the motif."
-  },
-  {
-    id: "instrumentation",
-    name: "Suggest Instrumentation",
-    description: "Recommend instruments that complement the selected style."
-  },
-  {
-    id: "rhythm_generation",
-    name: "Generate Rhythm Section",
-    description: "Create a complementary drum and bass line."
-  },
-  {
-    id: "web_inspiration",
-    name: "Web Search for Inspiration",
-    description: "Simulate a search for similar themes and styles online."
-  },
-  {
-    id: "lyric_writing",
-    name: "Write Lyrics",
-    description: "Generate lyrics that match the mood of the music."
-  }
-];
-
 export const PITCH_MAP: { [key: string]: number } = {
   'C': 0, 'C#': 1, 'D': 2, 'D#': 3, 'E': 4, 'F': 5, 'F#': 6, 'G': 7, 'G#': 8, 'A': 9, 'A#': 10, 'B': 11
 };
@@ -48,5 +19,56 @@ export const DURATION_MAP: { [key: string]: number } = {
   'whole': 16,
   'half': 8,
   'quarter': 4,
-  'eighth': 2
+  'eighth': 2,
+  'sixteenth': 1
+};
+
+// Free-length durations are counted in ticks; 12 per grid unit keeps triplets whole
+export const TICKS_PER_GRID_UNIT = 12;
+
+// Pitch range of the piano roll: C1 to C8
+export const LOWEST_MIDI = 24;
+export const HIGHEST_MIDI = 108;
+
+// General MIDI programs (0-based) matched by keyword against free-form instrument names
+export const GM_PROGRAMS: { [keyword: string]: number } = {
+  'piano': 0,
+  'electric piano': 4,
+  'rhodes': 4,
+  'keys': 4,
+  'bell': 14,
+  'organ': 16,
+  'guitar': 24,
+  'acoustic guitar': 25,
+  'electric guitar': 27,
+  'bass': 33,
+  'synth bass': 38,
+  'violin': 40,
+  'viola': 41,
+  'cello': 42,
+  'strings': 48,
+  'choir': 52,
+  'vocal': 52,
+  'voice': 53,
+  'trumpet': 56,
+  'trombone': 57,
+  'horn': 60,
+  'brass': 61,
+  'sax': 65,
+  'oboe': 68,
+  'clarinet': 71,
+  'flute': 73,
+  'lead': 80,
+  'synth': 81,
+  'pad': 88,
+  'arp': 81
 };
+
+export const GM_FAMILIES: string[] = [
+  'Piano', 'Chromatic Percussion', 'Organ', 'Guitar', 'Bass', 'Strings', 'Ensemble', 'Brass',
+  'Reed', 'Pipe', 'Synth Lead', 'Synth Pad', 'Synth Effects', 'Ethnic', 'Percussive', 'Sound Effects'
+];
+
+export const TRACK_COLORS: string[] = [
+  '#22d3ee', '#a78bfa', '#f472b6', '#34d399', '#fbbf24', '#fb7185', '#60a5fa', '#a3e635'
+];
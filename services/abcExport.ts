@@ -0,0 +1,127 @@
+import { Note, Timing } from '../types';
+import { getKeySignature, parsePitch } from './pitch';
+import { getMedianMidi, getScoreEnd, groupNotesByInstrument, sliceVoice, VoiceEvent, VoiceTone } from './notation';
+import { BarLine, DEFAULT_TIMING, getBarLines, getTempoSegments } from './timing';
+
+export interface AbcExportOptions {
+  title?: string;
+  timing?: Timing;
+  key?: string;
+}
+
+const BARS_PER_LINE = 4;
+const ACCIDENTAL_SYMBOLS: { [alter: string]: string } = { '-2': '__', '-1': '_', '0': '=', '1': '^', '2': '^^' };
+
+// Lengths are in 16ths (L:1/16); only 32nds inside triplets fall below one unit
+const formatLength = (length: number): string => (length === 1 ? '' : length < 1 ? `/${Math.round(1 / length)}` : String(length));
+
+// Triplet events are written at their nominal value, 3/2 of the time they occupy
+const writtenLength = (event: VoiceEvent): number => (event.triplet ? Math.round(event.length * 3) / 2 : event.length);
+
+const formatTone = (tone: VoiceTone, length: number, accidentals: Map<string, number>, signature: { [letter: string]: number }): string => {
+  const parsed = parsePitch(tone.pitch);
+  if (!parsed) return '';
+  const slot = `${parsed.letter}${parsed.octave}`;
+  const current = accidentals.has(slot) ? accidentals.get(slot)! : signature[parsed.letter];
+  let accidental = '';
+  if (parsed.alter !== current) {
+    accidental = ACCIDENTAL_SYMBOLS[String(parsed.alter)] || '';
+    accidentals.set(slot, parsed.alter);
+  }
+  const step = parsed.octave >= 5
+    ? parsed.letter.toLowerCase() + "'".repeat(parsed.octave - 5)
+    : parsed.letter + ','.repeat(4 - parsed.octave);
+  return `${accidental}${step}${formatLength(length)}${tone.tieToNext ? '-' : ''}`;
+};
+
+const formatVoice = (
+  events: VoiceEvent[],
+  barLines: BarLine[],
+  tempos: { time: number; bpm: number }[],
+  signature: { [letter: string]: number }
+): string => {
+  const bars: string[] = [];
+  const pendingTempos = [...tempos];
+  let accidentals = new Map<string, number>();
+  let current = '';
+  let currentBar = 0;
+
+  events.forEach((event, index) => {
+    if (event.bar !== currentBar) {
+      bars.push(current.trim());
+      current = '';
+      currentBar = event.bar;
+      accidentals = new Map();
+      const bar = barLines[event.bar];
+      const previous = barLines[event.bar - 1];
+      if (bar && previous && (bar.meter[0] !== previous.meter[0] || bar.meter[1] !== previous.meter[1])) {
+        current += `[M:${bar.meter[0]}/${bar.meter[1]}]`;
+      }
+    }
+    while (pendingTempos.length && pendingTempos[0].time <= event.time) {
+      current += ` [Q:1/4=${Math.round(pendingTempos.shift()!.bpm)}]`;
+    }
+    // Break beams on every beat (positions compared in thirds to stay exact inside triplets)
+    const bar = barLines[event.bar];
+    if (!bar || Math.round((event.time - bar.time) * 3) % Math.max(3, Math.round(bar.beatLength * 3)) === 0) current += ' ';
+    const previous = events[index - 1];
+    if (event.triplet && !(previous?.triplet && previous.bar === event.bar)) {
+      let run = 0;
+      while (events[index + run]?.triplet && events[index + run].bar === event.bar) run++;
+      current += `(3:2:${run}`;
+    }
+    const length = writtenLength(event);
+    if (event.tones.length === 0) {
+      current += `z${formatLength(length)}`;
+    } else if (event.tones.length === 1) {
+      current += formatTone(event.tones[0], length, accidentals, signature);
+    } else {
+      current += `[${event.tones.map(tone => formatTone(tone, length, accidentals, signature)).join('')}]`;
+    }
+  });
+  bars.push(current.trim());
+
+  const lines: string[] = [];
+  for (let i = 0; i < bars.length; i += BARS_PER_LINE) {
+    lines.push(bars.slice(i, i + BARS_PER_LINE).join(' | '));
+  }
+  return lines.join(' |\n') + ' |]';
+};
+
+/**
+ * Serializes the score to ABC notation with one voice per instrument. The unit note length
+ * is a 16th so every grid unit maps onto an integer ABC length.
+ */
+export const notesToAbc = (notes: Note[], options: AbcExportOptions = {}): string => {
+  const { title, timing = DEFAULT_TIMING, key = 'C' } = options;
+  const signature = getKeySignature(key) || getKeySignature('C')!;
+  const endTime = Math.max(getScoreEnd(notes), 1);
+  const barLines = getBarLines(timing, endTime);
+  const tempoChanges = getTempoSegments(timing).slice(1);
+
+  const header = [
+    'X:1',
+    ...(title ? [`T:${title}`] : []),
+    `M:${timing.meter[0]}/${timing.meter[1]}`,
+    'L:1/16',
+    `Q:1/4=${Math.round(timing.bpm)}`,
+    `K:${getKeySignature(key) ? key : 'C'}`
+  ];
+
+  const voices = groupNotesByInstrument(notes);
+  if (voices.size === 0) {
+    return [...header, formatVoice(sliceVoice([], timing, endTime), barLines, [], signature)].join('\n');
+  }
+
+  const body: string[] = [];
+  let index = 1;
+  voices.forEach((voiceNotes, instrument) => {
+    const clef = getMedianMidi(voiceNotes) < 55 ? ' clef=bass' : '';
+    body.push(`V:${index} name="${instrument.replace(/"/g, "'")}"${clef}`);
+    // Tempo changes only need to be written once, in the first voice
+    body.push(formatVoice(sliceVoice(voiceNotes, timing, endTime), barLines, index === 1 ? tempoChanges : [], signature));
+    index++;
+  });
+
+  return [...header, ...body].join('\n');
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseAbc } from './abcImport';
+
+const tune = (...lines: string[]) => ['X:1', ...lines].join('\n');
+
+// Pitch, duration and start of every note, in order
+const summarize = (text: string) => parseAbc(text).notes.map(n => [n.pitch, n.duration, Math.round(n.time * 1000) / 1000]);
+
+describe('parseAbc', () => {
+  it('reads the header and places notes by the unit note length', () => {
+    const result = parseAbc(tune('T:Scale', 'M:4/4', 'L:1/8', 'Q:1/4=100', 'K:C', 'CDEF G2 A2|c4 z4|]'));
+    expect(result.title).toBe('Scale');
+    expect(result.timing).toEqual({ bpm: 100, meter: [4, 4], tempoChanges: [], meterChanges: [] });
+    expect(result.warnings).toEqual([]);
+    expect(result.notes.map(n => [n.pitch, n.duration, n.time])).toEqual([
+      ['C4', 'eighth', 0], ['D4', 'eighth', 2], ['E4', 'eighth', 4], ['F4', 'eighth', 6],
+      ['G4', 'quarter', 8], ['A4', 'quarter', 12], ['C5', 'half', 16]
+    ]);
+  });
+
+  it('applies the key signature and keeps accidentals to the end of the bar', () => {
+    expect(summarize(tune('M:3/4', 'L:1/4', 'K:F', 'B =B B|B ^c c|'))).toEqual([
+      ['Bb4', 'quarter', 0], ['B4', 'quarter', 4], ['B4', 'quarter', 8],
+      ['Bb4', 'quarter', 12], ['C#5', 'quarter', 16], ['C#5', 'quarter', 20]
+    ]);
+    expect(summarize(tune('L:1/4', 'K:G', "f F,"))).toEqual([['F#5', 'quarter', 0], ['F#3', 'quarter', 4]]);
+  });
+
+  it('reads triplets, broken rhythms, chords and ties', () => {
+    expect(summarize(tune('M:4/4', 'L:1/8', 'K:C', '(3CDE F2 [CEG]4|C>D E<F G2-G2|'))).toEqual([
+      ['C4', 'triplet-eighth', 0], ['D4', 'triplet-eighth', 1.333], ['E4', 'triplet-eighth', 2.667], ['F4', 'quarter', 4],
+      ['C4', 'half', 8], ['E4', 'half', 8], ['G4', 'half', 8],
+      ['C4', 'dotted-eighth', 16], ['D4', 'sixteenth', 19], ['E4', 'sixteenth', 20], ['F4', 'dotted-eighth', 21],
+      ['G4', 'half', 24]
+    ]);
+  });
+
+  it('expands repeats and first and second endings', () => {
+    expect(summarize(tune('M:4/4', 'L:1/4', 'K:C', '|:C D:|', '|:E F|1 G2:|2 A2|]'))).toEqual([
+      ['C4', 'quarter', 0], ['D4', 'quarter', 4], ['C4', 'quarter', 8], ['D4', 'quarter', 12],
+      ['E4', 'quarter', 16], ['F4', 'quarter', 20], ['G4', 'half', 24],
+      ['E4', 'quarter', 32], ['F4', 'quarter', 36], ['A4', 'half', 40]
+    ]);
+  });
+
+  it('gives each voice its own instrument', () => {
+    const result = parseAbc(tune('M:4/4', 'L:1/4', 'K:C', 'V:1 name="Melody"', 'c d e f|', 'V:2 name="Bass"', 'C,4|'));
+    expect(result.notes.filter(n => n.instrument === 'Melody').map(n => n.pitch)).toEqual(['C5', 'D5', 'E5', 'F5']);
+    expect(result.notes.filter(n => n.instrument === 'Bass').map(n => [n.pitch, n.duration, n.time])).toEqual([['C3', 'whole', 0]]);
+  });
+
+  it('turns meter and tempo fields inside the tune into changes', () => {
+    const result = parseAbc(tune('M:4/4', 'L:1/4', 'Q:1/4=100', 'K:C', 'C D E F|', 'M:3/4', 'G A B|', 'Q:1/4=80', 'c3|'));
+    expect(result.timing).toEqual({
+      bpm: 100,
+      meter: [4, 4],
+      tempoChanges: [{ time: 28, bpm: 80 }],
+      meterChanges: [{ time: 16, numerator: 3, denominator: 4 }]
+    });
+    expect(result.notes.at(-1)).toMatchObject({ pitch: 'C5', duration: 'dotted-half', time: 28 });
+  });
+
+  it('skips what the canvas cannot hold and says so', () => {
+    const result = parseAbc(tune('M:4/4', 'L:1/4', 'K:C', '"C"C !f!D {g}E F|', 'w: la la', 'X:2', 'K:D', 'A'));
+    expect(summarize(tune('M:4/4', 'L:1/4', 'K:C', '"C"C !f!D {g}E F|'))).toEqual([
+      ['C4', 'quarter', 0], ['D4', 'quarter', 4], ['E4', 'quarter', 8], ['F4', 'quarter', 12]
+    ]);
+    expect(result.warnings).toEqual([
+      'Chord symbols and annotations are not imported (line 5)',
+      'Decorations are not imported (line 5)',
+      'Grace notes are not supported and were skipped (line 5)',
+      'Lyrics lines are not imported (line 6)',
+      'Only the first tune in the file was imported'
+    ]);
+  });
+});
@@ -0,0 +1,506 @@
+import { MeterChange, Note, ScoreImportResult, TempoChange } from '../types';
+import { PITCH_MAP } from '../constants';
+import { formatPitch, getKeyFifths, getSignatureFromFifths } from './pitch';
+import { GRID_WARNINGS, placeOnGrid } from './notation';
+import { createImportReport } from './importReport';
+import { DEFAULT_TIMING } from './timing';
+
+interface RawNote {
+  letter: string;
+  alter: number;
+  octave: number;
+  midi: number;
+  time: number; // Grid units, may be fractional inside tuplets
+  length: number;
+  line: number;
+}
+
+interface VoiceState {
+  name: string;
+  time: number;
+  notes: RawNote[];
+  pendingTies: RawNote[];
+  barAccidentals: Map<string, number>;
+  repeatStartTime: number;
+  repeatStartIndex: number;
+  endingStart: { time: number; index: number } | null;
+}
+
+// Offsets from the major key signature for each church mode
+const MODE_FIFTHS: { [mode: string]: number } = {
+  '': 0, 'maj': 0, 'ion': 0, 'm': -3, 'min': -3, 'aeo': -3, 'mix': -1, 'dor': -2, 'phr': -4, 'lyd': 1, 'loc': -5
+};
+
+const DECORATION_CHARS = '.~HLMOPSTuv';
+const ACCIDENTAL_PATTERN = /^(\^\^|\^|__|_|=)?/;
+
+const parseFraction = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+)\/(\d+)$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) / parseInt(match[2], 10);
+};
+
+const parseMeter = (value: string): [number, number] | null => {
+  const trimmed = value.trim();
+  if (trimmed === 'C') return [4, 4];
+  if (trimmed === 'C|') return [2, 2];
+  const match = trimmed.match(/^(\d+)\/(\d+)/);
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : null;
+};
+
+const parseTempo = (value: string): number | null => {
+  const beat = value.match(/(\d+)\/(\d+)\s*=\s*(\d+)/);
+  if (beat) return (parseInt(beat[3], 10) * parseInt(beat[1], 10) * 4) / parseInt(beat[2], 10);
+  const plain = value.match(/^\s*(\d+)\s*$/);
+  return plain ? parseInt(plain[1], 10) : null;
+};
+
+const parseKey = (value: string): number | null => {
+  const match = value.trim().match(/^([A-G][#b]?)\s*([A-Za-z]*)/);
+  if (!match) return value.trim() === '' || /^none/i.test(value.trim()) ? 0 : null;
+  // Anything that is not a mode (e.g. clef=bass) leaves the key untouched
+  const offset = MODE_FIFTHS[match[2].toLowerCase().slice(0, 3)] ?? 0;
+  const major = getKeyFifths(match[1]);
+  return major === null ? null : major + offset;
+};
+
+/**
+ * Parses an ABC tune into grid-aligned notes, one instrument per voice. Repeats and first/second
+ * endings are expanded; constructs the canvas cannot represent are listed in `warnings`.
+ */
+export const parseAbc = (text: string): ScoreImportResult => {
+  const report = createImportReport();
+  const voices = new Map<string, VoiceState>();
+  let unitLength = 0; // Grid units per ABC unit note length, resolved once M:/L: are known
+  let meter: [number, number] | undefined; // Meter in effect at the parse position
+  let tempo: number | undefined;
+  let initialMeter: [number, number] | undefined;
+  let initialTempo: number | undefined;
+  const meterChanges: MeterChange[] = [];
+  const tempoChanges: TempoChange[] = [];
+  let title: string | undefined;
+  let fifths = 0;
+  let inBody = false;
+  let tuneCount = 0;
+  let current: VoiceState | null = null;
+
+  const getVoice = (id: string, name?: string): VoiceState => {
+    let voice = voices.get(id);
+    if (!voice) {
+      voice = {
+        name: name || (id === 'default' ? 'Lead' : id),
+        time: 0,
+        notes: [],
+        pendingTies: [],
+        barAccidentals: new Map(),
+        repeatStartTime: 0,
+        repeatStartIndex: 0,
+        endingStart: null
+      };
+      voices.set(id, voice);
+    } else if (name) {
+      voice.name = name;
+    }
+    return voice;
+  };
+
+  const resolveUnitLength = () => {
+    if (unitLength) return unitLength;
+    const ratio = meter ? meter[0] / meter[1] : 1;
+    unitLength = ratio < 0.75 ? 1 : 2;
+    return unitLength;
+  };
+
+  const applyField = (field: string, value: string, line: number) => {
+    switch (field) {
+      case 'X':
+        tuneCount++;
+        break;
+      case 'T':
+        if (!title) title = value.trim();
+        break;
+      case 'M': {
+        const parsed = parseMeter(value);
+        if (!parsed) {
+          if (value.trim().toLowerCase() !== 'none') report.warn(`Unrecognized meter "${value.trim()}" was ignored`, line);
+          break;
+        }
+        if (!initialMeter) initialMeter = parsed;
+        else if (inBody && meter && (parsed[0] !== meter[0] || parsed[1] !== meter[1])) {
+          meterChanges.push({ time: Math.round(current?.time ?? 0), numerator: parsed[0], denominator: parsed[1] });
+        }
+        meter = parsed;
+        break;
+      }
+      case 'L': {
+        const fraction = parseFraction(value);
+        if (fraction) unitLength = fraction * 16;
+        else report.warn(`Unrecognized unit note length "${value.trim()}" was ignored`, line);
+        break;
+      }
+      case 'Q': {
+        const parsed = parseTempo(value);
+        if (!parsed) {
+          report.warn(`Unrecognized tempo "${value.trim()}" was ignored`, line);
+          break;
+        }
+        if (initialTempo === undefined) initialTempo = parsed;
+        else if (inBody && parsed !== tempo) tempoChanges.push({ time: Math.round(current?.time ?? 0), bpm: parsed });
+        tempo = parsed;
+        break;
+      }
+      case 'K': {
+        const parsed = parseKey(value);
+        if (parsed === null) report.warn(`Unrecognized key "${value.trim()}"; C major was assumed`, line);
+        fifths = parsed ?? 0;
+        if (/(\^|_|=)[a-g]/i.test(value.replace(/^\S+/, ''))) report.warn('Explicit key signature accidentals are not supported', line);
+        inBody = true;
+        break;
+      }
+      case 'V': {
+        const id = value.trim().split(/\s+/)[0] || 'default';
+        const nameMatch = value.match(/(?:name|nm)\s*=\s*"([^"]*)"/);
+        current = getVoice(id, nameMatch ? nameMatch[1] : undefined);
+        break;
+      }
+      case 'w':
+      case 'W':
+        report.warn('Lyrics lines are not imported', line);
+        break;
+      case 'P':
+        if (inBody) report.warn('Part markers are not expanded', line);
+        break;
+      default:
+        break;
+    }
+  };
+
+  const voice = (): VoiceState => {
+    if (!current) current = getVoice('default');
+    return current;
+  };
+
+  const endRepeat = () => {
+    const v = voice();
+    const endIndex = v.endingStart ? v.endingStart.index : v.notes.length;
+    const endTime = v.endingStart ? v.endingStart.time : v.time;
+    const body = v.notes.slice(v.repeatStartIndex, endIndex);
+    const offset = v.time - v.repeatStartTime;
+    body.forEach(note => v.notes.push({ ...note, time: note.time + offset }));
+    v.time += endTime - v.repeatStartTime;
+    v.pendingTies = [];
+    // A later :| without a matching |: repeats from here
+    v.repeatStartTime = v.time;
+    v.repeatStartIndex = v.notes.length;
+    v.endingStart = null;
+  };
+
+  const startRepeat = () => {
+    const v = voice();
+    v.repeatStartTime = v.time;
+    v.repeatStartIndex = v.notes.length;
+    v.endingStart = null;
+  };
+
+  const startEnding = (ending: number) => {
+    const v = voice();
+    if (ending === 1) v.endingStart = { time: v.time, index: v.notes.length };
+    else if (ending > 2) report.warn('Only first and second endings are supported');
+  };
+
+  const parseBody = (source: string, line: number) => {
+    let i = 0;
+    let tuplet: { ratio: number; remaining: number } | null = null;
+    let brokenFactor = 1;
+    let lastElement: { notes: RawNote[]; length: number } | null = null;
+
+    const readLength = (): number => {
+      const match = source.slice(i).match(/^(\d*)(\/*)(\d*)/);
+      if (!match || match[0] === '') return 1;
+      i += match[0].length;
+      const numerator = match[1] ? parseInt(match[1], 10) : 1;
+      let denominator = 1;
+      if (match[2]) denominator = match[3] ? parseInt(match[3], 10) * Math.pow(2, match[2].length - 1) : Math.pow(2, match[2].length);
+      return numerator / denominator;
+    };
+
+    const readNote = (): { letter: string; alter: number | null; octave: number } | null => {
+      const accidental = source.slice(i).match(ACCIDENTAL_PATTERN)![0];
+      const letterChar = source[i + accidental.length];
+      if (!letterChar || !/[A-Ga-g]/.test(letterChar)) return null;
+      i += accidental.length + 1;
+      let octave = letterChar === letterChar.toUpperCase() ? 4 : 5;
+      while (source[i] === "'" || source[i] === ',') {
+        octave += source[i] === "'" ? 1 : -1;
+        i++;
+      }
+      const alterMap: { [key: string]: number } = { '^^': 2, '^': 1, '__': -2, '_': -1, '=': 0 };
+      return { letter: letterChar.toUpperCase(), alter: accidental ? alterMap[accidental] : null, octave };
+    };
+
+    const resolveAlter = (letter: string, octave: number, explicit: number | null): number => {
+      const v = voice();
+      const slot = `${letter}${octave}`;
+      if (explicit !== null) {
+        v.barAccidentals.set(slot, explicit);
+        return explicit;
+      }
+      if (v.barAccidentals.has(slot)) return v.barAccidentals.get(slot)!;
+      return getSignatureFromFifths(fifths)[letter];
+    };
+
+    const scaleLength = (base: number): number => {
+      let length = base * resolveUnitLength() * brokenFactor;
+      brokenFactor = 1;
+      if (tuplet) {
+        length *= tuplet.ratio;
+        tuplet.remaining--;
+        if (tuplet.remaining <= 0) tuplet = null;
+      }
+      return length;
+    };
+
+    const emit = (pitches: { letter: string; alter: number; octave: number; length: number }[], advance: number) => {
+      const v = voice();
+      const emitted: RawNote[] = [];
+      pitches.forEach(p => {
+        const midi = (p.octave + 1) * 12 + PITCH_MAP[p.letter] + p.alter;
+        const tied = v.pendingTies.find(n => n.midi === midi && Math.abs(n.time + n.length - v.time) < 1e-6);
+        if (tied) {
+          tied.length += p.length;
+          emitted.push(tied);
+        } else {
+          const note: RawNote = { letter: p.letter, alter: p.alter, octave: p.octave, midi, time: v.time, length: p.length, line };
+          v.notes.push(note);
+          emitted.push(note);
+        }
+      });
+      v.pendingTies = [];
+      v.time += advance;
+      lastElement = { notes: emitted, length: advance };
+      return emitted;
+    };
+
+    const applyBrokenRhythm = (symbol: string) => {
+      const v = voice();
+      const depth = symbol.length;
+      const shorter = Math.pow(0.5, depth);
+      const longer = 2 - shorter;
+      if (!lastElement) return;
+      const factor = symbol[0] === '>' ? longer : shorter;
+      const delta = lastElement.length * (factor - 1);
+      lastElement.notes.forEach(n => { n.length *= factor; });
+      v.time += delta;
+      brokenFactor = symbol[0] === '>' ? shorter : longer;
+    };
+
+    const barLine = () => {
+      voice().barAccidentals = new Map();
+    };
+
+    while (i < source.length) {
+      const ch = source[i];
+      const rest = source.slice(i);
+
+      if (ch === '%') break;
+      if (/\s/.test(ch) || ch === '`' || ch === '\\' || ch === '$') { i++; continue; }
+
+      // Inline fields such as [V:2] or [K:G]
+      const inline = rest.match(/^\[([A-Za-z]):([^\]]*)\]/);
+      if (inline) {
+        applyField(inline[1], inline[2], line);
+        i += inline[0].length;
+        continue;
+      }
+
+      // Bar lines, repeats and endings
+      const bar = rest.match(/^(:*\|[\]|]?:*|\[\||::+)(\s*\[?\d)?|^\[(\d)/);
+      if (bar) {
+        const symbol = bar[1] || '';
+        i += bar[0].length;
+        barLine();
+        if (symbol.startsWith(':')) endRepeat();
+        if (symbol.endsWith(':')) startRepeat();
+        const ending = bar[2] ? parseInt(bar[2].replace(/[\s[]/g, ''), 10) : bar[3] ? parseInt(bar[3], 10) : null;
+        if (ending !== null) {
+          startEnding(ending);
+          // Skip list endings like [1,3 which the canvas cannot replay
+          const list = source.slice(i).match(/^([,-]\d)+/);
+          if (list) {
+            i += list[0].length;
+            report.warn('Multi-pass endings are not supported', line);
+          }
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        const end = source.indexOf('"', i + 1);
+        report.warn('Chord symbols and annotations are not imported', line);
+        i = end === -1 ? source.length : end + 1;
+        continue;
+      }
+
+      if (ch === '!' || ch === '+') {
+        const end = source.indexOf(ch, i + 1);
+        report.warn('Decorations are not imported', line);
+        i = end === -1 ? source.length : end + 1;
+        continue;
+      }
+
+      if (ch === '{') {
+        const end = source.indexOf('}', i + 1);
+        report.warn('Grace notes are not supported and were skipped', line);
+        i = end === -1 ? source.length : end + 1;
+        continue;
+      }
+
+      if (ch === '(') {
+        const tupletMatch = rest.match(/^\((\d)(?::(\d)?)?(?::(\d))?/);
+        if (tupletMatch) {
+          const p = parseInt(tupletMatch[1], 10);
+          const compound = meter ? meter[1] === 8 && meter[0] % 3 === 0 : false;
+          const defaultQ: { [key: number]: number } = { 2: 3, 3: 2, 4: 3, 6: 2, 8: 3 };
+          const q = tupletMatch[2] ? parseInt(tupletMatch[2], 10) : (defaultQ[p] || (compound ? 3 : 2));
+          const r = tupletMatch[3] ? parseInt(tupletMatch[3], 10) : p;
+          tuplet = { ratio: q / p, remaining: r };
+          // Triplets land on the canvas's triplet grid; other ratios are rounded to 16ths
+          if ((3 * q) % p !== 0) report.warn('Tuplets other than triplets were quantized to the 16th-note grid', line);
+          i += tupletMatch[0].length;
+        } else {
+          report.warn('Slurs are not imported', line);
+          i++;
+        }
+        continue;
+      }
+
+      if (ch === ')') { i++; continue; }
+
+      if (ch === '-') {
+        if (lastElement) voice().pendingTies = [...lastElement.notes];
+        i++;
+        continue;
+      }
+
+      const broken = rest.match(/^(>{1,3}|<{1,3})/);
+      if (broken) {
+        applyBrokenRhythm(broken[1]);
+        i += broken[1].length;
+        continue;
+      }
+
+      if (DECORATION_CHARS.includes(ch)) {
+        report.warn('Decorations are not imported', line);
+        i++;
+        continue;
+      }
+
+      if (ch === 'z' || ch === 'x') {
+        i++;
+        const length = scaleLength(readLength());
+        voice().pendingTies = [];
+        voice().time += length;
+        lastElement = { notes: [], length };
+        continue;
+      }
+
+      if (ch === 'Z' || ch === 'X') {
+        i++;
+        const countMatch = source.slice(i).match(/^\d+/);
+        const bars = countMatch ? parseInt(countMatch[0], 10) : 1;
+        if (countMatch) i += countMatch[0].length;
+        const barLength = meter ? (16 * meter[0]) / meter[1] : 16;
+        voice().time += bars * barLength;
+        lastElement = null;
+        continue;
+      }
+
+      if (ch === '[') {
+        const close = source.indexOf(']', i);
+        if (close === -1) {
+          report.warn('Unterminated chord was skipped', line);
+          break;
+        }
+        i++;
+        const chordNotes: { letter: string; alter: number; octave: number; length: number; tie: boolean }[] = [];
+        while (i < close) {
+          const note = readNote();
+          if (!note) {
+            // A tie inside the brackets belongs to the note just before it
+            if (source[i] === '-' && chordNotes.length > 0) chordNotes[chordNotes.length - 1].tie = true;
+            i++;
+            continue;
+          }
+          const inner = readLength();
+          chordNotes.push({ letter: note.letter, alter: resolveAlter(note.letter, note.octave, note.alter), octave: note.octave, length: inner, tie: false });
+        }
+        i = close + 1;
+        const outer = readLength();
+        if (chordNotes.length === 0) continue;
+        const first = scaleLength(chordNotes[0].length * outer);
+        const unit = first / chordNotes[0].length;
+        const emitted = emit(chordNotes.map(n => ({ ...n, length: n.length * unit })), first);
+        voice().pendingTies = emitted.filter((_, index) => chordNotes[index].tie);
+        continue;
+      }
+
+      const note = readNote();
+      if (note) {
+        const length = scaleLength(readLength());
+        emit([{ letter: note.letter, alter: resolveAlter(note.letter, note.octave, note.alter), octave: note.octave, length }], length);
+        continue;
+      }
+
+      report.warn(`Unsupported symbol "${ch}" was skipped`, line);
+      i++;
+    }
+  };
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const raw = lines[index];
+    const lineNumber = index + 1;
+    const trimmed = raw.trim();
+    if (trimmed === '' || trimmed.startsWith('%')) continue;
+
+    const field = trimmed.match(/^([A-Za-z]):(.*)$/);
+    if (field) {
+      if (field[1] === 'X' && tuneCount >= 1) {
+        report.warn('Only the first tune in the file was imported');
+        break;
+      }
+      applyField(field[1], field[2], lineNumber);
+      continue;
+    }
+
+    if (!inBody) {
+      report.warn('Music found before the K: header was read with default settings', lineNumber);
+      inBody = true;
+    }
+    parseBody(raw, lineNumber);
+  }
+
+  const notes: Note[] = [];
+  voices.forEach(v => {
+    v.notes.forEach(raw => {
+      const placed = placeOnGrid(formatPitch(raw.letter, raw.alter, raw.octave), v.name, raw.time, raw.length);
+      if (placed.moved) report.warn(GRID_WARNINGS.moved, raw.line);
+      if (placed.rounded) report.warn(GRID_WARNINGS.rounded, raw.line);
+      notes.push(...placed.notes);
+    });
+  });
+
+  if (notes.length === 0 && voices.size === 0 && !inBody) {
+    throw new Error('No ABC tune found. Make sure the text contains a K: header followed by notes.');
+  }
+
+  notes.sort((a, b) => a.time - b.time);
+  const timing = {
+    bpm: initialTempo ?? DEFAULT_TIMING.bpm,
+    meter: initialMeter ?? DEFAULT_TIMING.meter,
+    // Every voice repeats inline changes, so keep one change per position
+    tempoChanges: tempoChanges.filter((c, i) => tempoChanges.findIndex(o => o.time === c.time) === i),
+    meterChanges: meterChanges.filter((c, i) => meterChanges.findIndex(o => o.time === c.time) === i)
+  };
+  return { notes, warnings: report.list(), title, timing };
+};
@@ -0,0 +1,77 @@
+import { Note, Timing, Track } from '../types';
+import { getScoreEnd } from './notation';
+import { scheduleArrangement } from './synth';
+import { DEFAULT_TIMING, unitToSeconds } from './timing';
+
+export interface WavBounceOptions {
+  sampleRate: number;
+  bitDepth: 16 | 24;
+  tailSeconds: number;
+  timing?: Timing;
+  tracks?: Track[];
+}
+
+export const BOUNCE_SAMPLE_RATES = [22050, 44100, 48000, 96000];
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+// Encodes an AudioBuffer as interleaved little-endian PCM
+export const encodeWav = (buffer: AudioBuffer, bitDepth: 16 | 24): ArrayBuffer => {
+  const channels = buffer.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataLength = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataLength));
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  const maxValue = Math.pow(2, bitDepth - 1) - 1;
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, channelData[c][i]));
+      const value = Math.round(sample * maxValue);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return view.buffer;
+};
+
+/**
+ * Renders the arrangement through the same synth graph and track mix as live playback using
+ * an OfflineAudioContext, then encodes the result as a WAV file.
+ */
+export const renderNotesToWav = async (notes: Note[], options: WavBounceOptions): Promise<ArrayBuffer> => {
+  const { sampleRate, bitDepth, tailSeconds, timing = DEFAULT_TIMING, tracks = [] } = options;
+  const totalSeconds = unitToSeconds(timing, getScoreEnd(notes)) + tailSeconds;
+  const ctx = new OfflineAudioContext(2, Math.max(1, Math.ceil(totalSeconds * sampleRate)), sampleRate);
+
+  const masterGain = ctx.createGain();
+  masterGain.connect(ctx.destination);
+  scheduleArrangement(ctx, masterGain, notes, tracks, 0, timing);
+
+  const rendered = await ctx.startRendering();
+  return encodeWav(rendered, bitDepth);
+};
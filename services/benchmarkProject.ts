@@ -0,0 +1,62 @@
+import { Note, Project, Track } from '../types';
+import { DRUM_LANES, getDrumPitch } from './drums';
+import { midiToPitch } from './pitch';
+import { createProject } from './project';
+import { createTrack } from './tracks';
+
+// A long, dense arrangement for checking that the editor stays smooth: drums, bass, piano chords
+// and an eighth-note lead, 32 notes a bar. Open the app with #benchmark in the URL to load it.
+
+export const BENCHMARK_NOTE_COUNT = 10000;
+
+const BAR_UNITS = 16;
+const PROGRESSION = [0, 7, 9, 5]; // I-V-vi-IV in C, as semitones above C
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+
+// Small seeded generator so every run draws the same score
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const drumPitch = (id: string): string => getDrumPitch(DRUM_LANES.find(lane => lane.id === id)!);
+
+/** A deterministic project with exactly `noteCount` notes on four tracks. */
+export const createBenchmarkProject = (noteCount = BENCHMARK_NOTE_COUNT): Project => {
+  const random = createRandom(noteCount);
+  const drums = createTrack('Drums', 'Drum Kit', 0, 'percussion');
+  const bass = createTrack('Bass', 'Bass', 1);
+  const piano = createTrack('Piano', 'Piano', 2);
+  const lead = createTrack('Lead', 'Square Lead', 3);
+  const tracks: Track[] = [drums, bass, piano, lead];
+  const notes: Note[] = [];
+  const add = (track: Track, pitch: string, time: number, duration: Note['duration']) =>
+    notes.push({ pitch, duration, instrument: track.name, time, trackId: track.id });
+
+  let step = 0; // Lead position on the scale, walking up and down from C5
+  for (let bar = 0; notes.length < noteCount; bar++) {
+    const start = bar * BAR_UNITS;
+    const root = PROGRESSION[bar % PROGRESSION.length];
+    for (let unit = 0; unit < BAR_UNITS; unit += 2) add(drums, drumPitch('closed-hat'), start + unit, 'sixteenth');
+    [0, 8].forEach(unit => add(drums, drumPitch('kick'), start + unit, 'sixteenth'));
+    [4, 12].forEach(unit => add(drums, drumPitch('snare'), start + unit, 'sixteenth'));
+    for (let unit = 0; unit < BAR_UNITS; unit += 4) add(bass, midiToPitch(36 + root), start + unit, 'quarter');
+    [0, 8].forEach(unit => [0, 4, 7, 12].forEach(interval => {
+      const semitones = interval === 4 && root === 9 ? 3 : interval; // The vi chord is minor
+      add(piano, midiToPitch(60 + root + semitones), start + unit, 'half');
+    }));
+    for (let unit = 0; unit < BAR_UNITS; unit += 2) {
+      step = Math.max(-7, Math.min(7, step + Math.floor(random() * 5) - 2));
+      const octave = Math.floor(step / 7);
+      add(lead, midiToPitch(72 + 12 * octave + MAJOR_SCALE[step - 7 * octave]), start + unit, 'eighth');
+    }
+  }
+
+  return {
+    ...createProject(`Benchmark (${noteCount.toLocaleString()} notes)`),
+    notes: notes.slice(0, noteCount),
+    tracks
+  };
+};
@@ -0,0 +1,48 @@
+import { ChatExchange, ChatSession, Message, SessionTurn } from '../types';
+
+// Chat sessions own the conversation. Providers are stateless, so a session's exchanges are
+// sent as history on every turn and a session can be resumed or branched at any point.
+
+const createId = (prefix: string): string => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTurnId = (): string => createId('turn');
+
+export const createSession = (name: string): ChatSession => {
+  const now = Date.now();
+  return { id: createId('chat'), name, createdAt: now, updatedAt: now, turns: [] };
+};
+
+// "Chat 3" for the third session, skipping names already taken
+export const nextSessionName = (sessions: ChatSession[]): string => {
+  let index = sessions.length + 1;
+  while (sessions.some(s => s.name === `Chat ${index}`)) index++;
+  return `Chat ${index}`;
+};
+
+export const appendTurn = (session: ChatSession, turn: SessionTurn): ChatSession => ({
+  ...session,
+  turns: [...session.turns, turn],
+  updatedAt: Date.now()
+});
+
+// Everything the model has seen in this session, oldest first
+export const getSessionHistory = (session: ChatSession): ChatExchange[] => session.turns.flatMap(turn => turn.exchanges);
+
+/**
+ * A new session holding the turns up to and including `turnId`. Later turns stay in the
+ * original session only.
+ */
+export const branchSession = (session: ChatSession, turnId: string, name: string): ChatSession => {
+  const index = session.turns.findIndex(turn => turn.id === turnId);
+  return {
+    ...createSession(name),
+    turns: session.turns.slice(0, index + 1),
+    branchOf: { sessionId: session.id, turnId }
+  };
+};
+
+export const sessionToMessages = (session: ChatSession): Message[] =>
+  session.turns.flatMap((turn): Message[] => [
+    ...(turn.prompt || turn.isAudio ? [{ role: 'user' as const, text: turn.prompt, isAudio: turn.isAudio, turnId: turn.id }] : []),
+    ...(turn.summary ? [{ role: 'model' as const, text: turn.summary, turnId: turn.id }] : [])
+  ]);
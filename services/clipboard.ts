@@ -0,0 +1,68 @@
+import { Note, Track } from '../types';
+import { parseDuration } from './duration';
+import { parsePitch } from './pitch';
+
+// Notes travel through the system clipboard as tagged JSON text, so a copy in one tab
+// (or window) can be pasted into another. Times are stored relative to the first note.
+
+const CLIPBOARD_FORMAT = 'musico/notes';
+const CLIPBOARD_VERSION = 1;
+
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  notes: Note[];
+}
+
+const snapThird = (units: number): number => Math.round(units * 3) / 3;
+
+export const serializeNotes = (notes: Note[]): string => {
+  const start = Math.min(...notes.map(n => n.time));
+  const payload: ClipboardPayload = {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    notes: [...notes]
+      .sort((a, b) => a.time - b.time)
+      .map(({ pitch, duration, instrument, time, trackId }) => ({ pitch, duration, instrument, time: snapThird(time - start), trackId }))
+  };
+  return JSON.stringify(payload);
+};
+
+// Null for anything that is not a note clipboard; invalid notes inside one are skipped
+export const parseClipboard = (text: string): Note[] | null => {
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!payload || payload.format !== CLIPBOARD_FORMAT || payload.version > CLIPBOARD_VERSION || !Array.isArray(payload.notes)) return null;
+
+  return payload.notes.flatMap((raw: any): Note[] => {
+    const duration = parseDuration(raw?.duration);
+    if (!raw || typeof raw.pitch !== 'string' || !parsePitch(raw.pitch) || !duration || !Number.isFinite(raw.time)) return [];
+    return [{
+      pitch: raw.pitch,
+      duration,
+      instrument: typeof raw.instrument === 'string' ? raw.instrument : 'Lead',
+      time: Math.max(0, snapThird(raw.time)),
+      trackId: typeof raw.trackId === 'string' ? raw.trackId : undefined
+    }];
+  });
+};
+
+/**
+ * Places clipboard notes with the first one at `time`. Notes keep their track when it exists
+ * here, move to the track of the same name when it does not, and are otherwise left for
+ * bindNotesToTracks to give a new track.
+ */
+export const placeClipboardNotes = (clipped: Note[], time: number, tracks: Track[]): Note[] =>
+  clipped.map(note => {
+    const track = tracks.find(t => t.id === note.trackId) || tracks.find(t => t.name.toLowerCase() === note.instrument.toLowerCase());
+    return {
+      ...note,
+      time: snapThird(time + note.time),
+      trackId: track?.id,
+      instrument: track ? track.name : note.instrument
+    };
+  });
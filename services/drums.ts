@@ -0,0 +1,125 @@
+import { Note, Track, TrackKind } from '../types';
+import { midiToPitch, pitchToMidi } from './pitch';
+
+// Percussion tracks hold unpitched hits. A hit is stored as an ordinary note whose pitch is the
+// General MIDI drum key (C2 = 36 = kick), so it survives every pitch-based code path, and is
+// shown, played and exported by its lane instead.
+
+// A hit is a pitch sweep and/or filtered noise with an exponential decay
+export interface DrumVoice {
+  tone?: { waveform: OscillatorType; from: number; to: number; sweep: number; level: number };
+  noise?: { filter: BiquadFilterType; frequency: number; q?: number; level: number };
+  decay: number;
+  bursts?: number; // Hand claps are a few quick noise bursts
+}
+
+export interface DrumLane {
+  id: string;
+  name: string;
+  midi: number; // General MIDI percussion key
+  aliases: string[];
+  voice: DrumVoice;
+}
+
+// Top to bottom as drawn on the canvas
+export const DRUM_LANES: DrumLane[] = [
+  {
+    id: 'crash', name: 'Crash', midi: 49, aliases: ['crash cymbal', 'cymbal', 'splash', 'china'],
+    voice: { noise: { filter: 'highpass', frequency: 5000, level: 0.5 }, decay: 1.4 }
+  },
+  {
+    id: 'ride', name: 'Ride', midi: 51, aliases: ['ride cymbal', 'ride bell', 'bell'],
+    voice: { tone: { waveform: 'square', from: 620, to: 620, sweep: 0, level: 0.08 }, noise: { filter: 'bandpass', frequency: 8000, q: 0.8, level: 0.4 }, decay: 0.9 }
+  },
+  {
+    id: 'open-hat', name: 'Open Hat', midi: 46, aliases: ['open hihat', 'open hi-hat', 'open hi hat', 'oh'],
+    voice: { noise: { filter: 'highpass', frequency: 7000, level: 0.45 }, decay: 0.35 }
+  },
+  {
+    id: 'closed-hat', name: 'Closed Hat', midi: 42, aliases: ['hihat', 'hi-hat', 'hi hat', 'hat', 'hh', 'closed hihat', 'closed hi-hat', 'ch'],
+    voice: { noise: { filter: 'highpass', frequency: 8000, level: 0.4 }, decay: 0.05 }
+  },
+  {
+    id: 'pedal-hat', name: 'Pedal Hat', midi: 44, aliases: ['pedal hihat', 'pedal hi-hat', 'foot hat'],
+    voice: { noise: { filter: 'highpass', frequency: 6000, level: 0.3 }, decay: 0.08 }
+  },
+  {
+    id: 'tambourine', name: 'Tambourine', midi: 54, aliases: ['tamb', 'shaker', 'jingle'],
+    voice: { noise: { filter: 'highpass', frequency: 9000, level: 0.35 }, decay: 0.15 }
+  },
+  {
+    id: 'cowbell', name: 'Cowbell', midi: 56, aliases: ['bell block', 'agogo'],
+    voice: { tone: { waveform: 'square', from: 560, to: 540, sweep: 0.02, level: 0.25 }, decay: 0.25 }
+  },
+  {
+    id: 'high-tom', name: 'High Tom', midi: 50, aliases: ['hi tom', 'tom 1', 'rack tom'],
+    voice: { tone: { waveform: 'sine', from: 300, to: 190, sweep: 0.12, level: 0.8 }, decay: 0.3 }
+  },
+  {
+    id: 'mid-tom', name: 'Mid Tom', midi: 47, aliases: ['middle tom', 'tom 2', 'tom'],
+    voice: { tone: { waveform: 'sine', from: 230, to: 140, sweep: 0.14, level: 0.8 }, decay: 0.35 }
+  },
+  {
+    id: 'low-tom', name: 'Low Tom', midi: 45, aliases: ['floor tom', 'tom 3'],
+    voice: { tone: { waveform: 'sine', from: 170, to: 100, sweep: 0.16, level: 0.8 }, decay: 0.4 }
+  },
+  {
+    id: 'clap', name: 'Clap', midi: 39, aliases: ['hand clap', 'handclap', 'claps', 'snap'],
+    voice: { noise: { filter: 'bandpass', frequency: 1500, q: 1.2, level: 0.8 }, decay: 0.2, bursts: 3 }
+  },
+  {
+    id: 'snare', name: 'Snare', midi: 38, aliases: ['snare drum', 'sd', 'backbeat'],
+    voice: { tone: { waveform: 'triangle', from: 220, to: 180, sweep: 0.05, level: 0.4 }, noise: { filter: 'highpass', frequency: 1200, level: 0.6 }, decay: 0.2 }
+  },
+  {
+    id: 'rim', name: 'Rimshot', midi: 37, aliases: ['rim', 'side stick', 'sidestick', 'cross stick', 'stick'],
+    voice: { tone: { waveform: 'square', from: 800, to: 800, sweep: 0, level: 0.2 }, noise: { filter: 'bandpass', frequency: 2500, q: 2, level: 0.4 }, decay: 0.05 }
+  },
+  {
+    id: 'kick', name: 'Kick', midi: 36, aliases: ['bass drum', 'kick drum', 'bd', 'bassdrum'],
+    voice: { tone: { waveform: 'sine', from: 150, to: 45, sweep: 0.1, level: 1 }, decay: 0.45 }
+  }
+];
+
+// Other General MIDI drum keys and the lane that stands in for them
+const GM_KEY_LANES: { [midi: number]: string } = {
+  35: 'kick', 40: 'snare', 41: 'low-tom', 43: 'low-tom', 48: 'mid-tom', 52: 'crash', 53: 'ride',
+  55: 'crash', 57: 'crash', 59: 'ride', 69: 'tambourine', 70: 'tambourine', 82: 'tambourine'
+};
+
+const lanesById = new Map(DRUM_LANES.map(lane => [lane.id, lane]));
+const lanesByMidi = new Map(DRUM_LANES.map(lane => [lane.midi, lane]));
+
+const PERCUSSION_NAME = /\b(drums?|drum ?kit|kit|percussion|perc|beats?|grooves?)\b/i;
+
+export const isPercussionName = (name: string): boolean => PERCUSSION_NAME.test(name);
+
+export const inferTrackKind = (name: string): TrackKind => (isPercussionName(name) ? 'percussion' : 'pitched');
+
+export const getPercussionTrackIds = (tracks: Track[]): Set<string> =>
+  new Set(tracks.filter(t => t.kind === 'percussion').map(t => t.id));
+
+// The notes that carry real pitches, for harmony and key analysis
+export const getPitchedNotes = (notes: Note[], tracks: Track[]): Note[] => {
+  const percussion = getPercussionTrackIds(tracks);
+  return percussion.size ? notes.filter(n => !n.trackId || !percussion.has(n.trackId)) : notes;
+};
+
+/** The lane a drum key plays on. Keys without a lane of their own go to the nearest one. */
+export const getDrumLane = (pitch: string): DrumLane => {
+  const midi = pitchToMidi(pitch) ?? DRUM_LANES[DRUM_LANES.length - 1].midi;
+  const mapped = lanesByMidi.get(midi) || lanesById.get(GM_KEY_LANES[midi]);
+  if (mapped) return mapped;
+  return DRUM_LANES.reduce((best, lane) => (Math.abs(lane.midi - midi) < Math.abs(best.midi - midi) ? lane : best));
+};
+
+export const getDrumLaneIndex = (pitch: string): number => DRUM_LANES.indexOf(getDrumLane(pitch));
+
+export const getDrumPitch = (lane: DrumLane): string => midiToPitch(lane.midi);
+
+// Reads a lane name as written by the model or a user: "kick", "Hi-Hat", "open_hat"
+export const findDrumLane = (name: string): DrumLane | undefined => {
+  const key = name.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+  const dashed = key.replace(/ /g, '-');
+  return DRUM_LANES.find(lane => lane.id === dashed || lane.name.toLowerCase() === key || lane.aliases.includes(key));
+};
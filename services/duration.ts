@@ -0,0 +1,73 @@
+import { NoteDuration, NoteValue } from '../types';
+import { DURATION_MAP, TICKS_PER_GRID_UNIT } from '../constants';
+
+const EPSILON = 1e-6;
+
+const DURATION_ALIASES: { [alias: string]: NoteValue } = {
+  semibreve: 'whole',
+  minim: 'half',
+  crotchet: 'quarter',
+  quaver: 'eighth',
+  '8th': 'eighth',
+  semiquaver: 'sixteenth',
+  '16th': 'sixteenth'
+};
+
+const isNoteValue = (value: string): value is NoteValue => value in DURATION_MAP;
+
+// Every named duration with its length in grid units, longest first
+export const NAMED_DURATIONS: { duration: NoteDuration; units: number }[] = Object.entries(DURATION_MAP)
+  .flatMap(([value, units]) => [
+    { duration: value as NoteDuration, units },
+    { duration: `dotted-${value}` as NoteDuration, units: units * 1.5 },
+    { duration: `triplet-${value}` as NoteDuration, units: (units * 2) / 3 }
+  ])
+  .sort((a, b) => b.units - a.units);
+
+export const durationToUnits = (duration: NoteDuration): number => {
+  if (typeof duration === 'number') return duration > 0 ? duration / TICKS_PER_GRID_UNIT : 4;
+  const [modifier, value] = duration.includes('-') ? duration.split('-') : ['', duration];
+  const base = DURATION_MAP[value];
+  if (!base) return 4;
+  if (modifier === 'dotted') return base * 1.5;
+  if (modifier === 'triplet') return (base * 2) / 3;
+  return base;
+};
+
+// Names the length when a single named value covers it, otherwise falls back to ticks
+export const unitsToDuration = (units: number): NoteDuration => {
+  const named = NAMED_DURATIONS.find(d => Math.abs(d.units - units) < EPSILON);
+  return named ? named.duration : Math.max(1, Math.round(units * TICKS_PER_GRID_UNIT));
+};
+
+// True when a grid position or length lies on the triplet grid but not the 16th grid
+export const isTripletUnits = (units: number): boolean => {
+  const thirds = units * 3;
+  return Math.abs(thirds - Math.round(thirds)) < EPSILON && Math.round(thirds) % 3 !== 0;
+};
+
+/**
+ * Reads a duration written loosely (e.g. "dotted quarter", "8th", "quarter triplet", "60"),
+ * as produced by the model or typed by a user. Bare numbers are tick counts. Returns null
+ * when nothing recognizable is found.
+ */
+export const parseDuration = (value: unknown): NoteDuration | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  if (/^\d+$/.test(text)) return parseDuration(parseInt(text, 10));
+
+  const words = text.replace(/[\s_]+/g, '-').replace(/\.$/, '-dotted').split('-').filter(Boolean);
+  let modifier = '';
+  let base: NoteValue | null = null;
+  words.forEach(word => {
+    if (word === 'dotted' || word === 'triplet') modifier = word;
+    else if (isNoteValue(word)) base = word;
+    else if (DURATION_ALIASES[word]) base = DURATION_ALIASES[word];
+  });
+  if (!base) return null;
+  return (modifier ? `${modifier}-${base}` : base) as NoteDuration;
+};
+
+export const formatDuration = (duration: NoteDuration): string =>
+  typeof duration === 'number' ? `${duration} ticks` : duration.replace('-', ' ');
@@ -1,89 +1,64 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { AIResponse, Message } from '../types';
-import { AVAILABLE_TOOLS } from "../constants";
+import { AudioClip, ChatExchange } from '../types';
+import { ModelProvider, ResponseSchema } from './modelProvider';
 
-let activeChat: any = null;
+const toGeminiSchema = (schema: ResponseSchema): any => ({
+  ...schema,
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([name, value]) => [name, toGeminiSchema(value)]))
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) })
+});
 
-export const generateMusicChat = async (
-  prompt: string,
-  style: string,
-  selectedToolIds: string[],
-  currentContextNotes: any[],
-  audioData?: { data: string; mimeType: string }
-): Promise<{ response: AIResponse; groundingSources?: any[] }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-  
-  const systemInstruction = `You are 'Musico Co-Pilot,' a professional music production agent.
-Your primary specialty is transcribing user audio (humming, singing, whistling) into precise musical sequences and collaborating on polyphonic scores.
-
-Context Awareness:
-- The user provides notes with a 'time' property (grid units, where 4 units = 1 beat).
-- You can create chords by giving multiple notes the same 'time'.
+const toUserContent = (message: string, audio?: AudioClip) => ({
+  role: 'user',
+  parts: audio ? [{ text: message }, { inlineData: audio }] : [{ text: message }]
+});
 
-Audio Input Handling:
-- If the user provides an audio clip, listen carefully for the pitch and rhythm.
-- Transcribe the melody accurately into the 'musicalSequence' array.
-- Use the 'style' (${style}) to inform the accompaniment or instrumentation.
+// Earlier exchanges, recordings included, go back to the model as alternating user/model turns
+const toContents = (history: ChatExchange[]) => history.flatMap(exchange => [
+  toUserContent(exchange.message, exchange.audio),
+  { role: 'model', parts: [{ text: exchange.reply }] }
+]);
 
-Output Requirements:
-1. Return valid JSON only.
-2. 'thoughtProcess': Brief musical analysis of the transcription and suggestions.
-3. 'musicalSequence': Pitch (e.g., C4, Eb5), Duration (quarter, eighth, etc.), Instrument, and 'time' (integer grid unit).
-4. 'abcNotation': Valid ABC notation matching the sequence.`;
+/**
+ * Gemini with optional search grounding. Each turn is a single generateContent call carrying
+ * the whole session history.
+ */
+export const createGeminiProvider = (model: string): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
 
-  if (!activeChat) {
-    activeChat = ai.chats.create({
-      model: "gemini-3-pro-preview",
-      config: {
-        systemInstruction,
+  return {
+    id: 'gemini',
+    supportsAudio: true,
+    sendMessage: async (request, onText) => {
+      // Schema and search follow the tools enabled for this turn, so the config is sent per message
+      const config = {
+        systemInstruction: request.systemInstruction,
         responseMimeType: "application/json",
-        tools: [{ googleSearch: {} }],
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            thoughtProcess: { type: Type.STRING },
-            musicalSequence: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  pitch: { type: Type.STRING },
-                  duration: { type: Type.STRING },
-                  instrument: { type: Type.STRING },
-                  time: { type: Type.INTEGER }
-                },
-                required: ['pitch', 'duration', 'instrument', 'time']
-              }
-            },
-            lyrics: { type: Type.STRING, nullable: true },
-            abcNotation: { type: Type.STRING, nullable: true }
-          },
-          required: ['thoughtProcess', 'musicalSequence', 'lyrics', 'abcNotation']
-        }
-      }
-    });
-  }
+        ...(request.useSearch && { tools: [{ googleSearch: {} }] }),
+        responseSchema: toGeminiSchema(request.responseSchema)
+      };
+      const params = { model, contents: [...toContents(request.history), toUserContent(request.message, request.audio)], config };
 
-  const contextPrompt = audioData 
-    ? `User has provided a recording. Please transcribe the melody and incorporate it into the score. Current canvas: ${JSON.stringify(currentContextNotes)}`
-    : `Current Canvas State: ${JSON.stringify(currentContextNotes)}. User Input: ${prompt || "Enhance current composition."}`;
-
-  try {
-    const messageContent = audioData 
-      ? { parts: [{ text: contextPrompt }, { inlineData: audioData }] } 
-      : contextPrompt;
+      if (!onText) {
+        const response = await ai.models.generateContent(params);
+        return {
+          text: (response.text || '').trim(),
+          groundingSources: response.candidates?.[0]?.groundingMetadata?.groundingChunks
+        };
+      }
 
-    const response = await activeChat.sendMessage(messageContent);
-    const textOutput = response.text.trim();
-    const grounding = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    
-    return {
-      response: JSON.parse(textOutput),
-      groundingSources: grounding
-    };
-  } catch (error) {
-    console.error("Gemini Production Error:", error);
-    activeChat = null;
-    throw new Error("Studio engine reset required. Please try again.");
-  }
-};
\ No newline at end of file
+      // Grounding metadata arrives with the later chunks, so the last one seen is kept
+      let text = '';
+      let groundingSources: any[] | undefined;
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        text += chunk.text || '';
+        groundingSources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || groundingSources;
+        onText(text);
+      }
+      return { text: text.trim(), groundingSources };
+    }
+  };
+};
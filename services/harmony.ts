@@ -0,0 +1,256 @@
+import { Note, Timing } from '../types';
+import { getKeyFifths, midiToPitch, pitchToMidi } from './pitch';
+import { getNoteLength, getScoreEnd } from './notation';
+import { getBarLines } from './timing';
+import { createNoteIndex } from './noteIndex';
+
+export type ChordQuality =
+  | 'major' | 'minor' | 'diminished' | 'augmented' | 'sus4'
+  | 'dominant7' | 'major7' | 'minor7' | 'half-diminished7' | 'diminished7';
+
+export interface KeyEstimate {
+  tonic: number; // Pitch class, 0 = C
+  mode: 'major' | 'minor';
+  name: string; // e.g. "Eb major"
+  symbol: string; // Key as the exporters take it, e.g. "Eb" or "Cm"
+  confidence: number; // Correlation with the key profile, -1..1
+}
+
+export interface ChordSegment {
+  time: number; // Grid units
+  length: number;
+  bar: number; // 0-based bar index
+  root: number; // Pitch class
+  bass: number; // Pitch class of the lowest sounding note
+  quality: ChordQuality;
+  symbol: string; // e.g. "Am7", "C/E"
+  numeral: string | null; // Roman numeral in the estimated key
+}
+
+export type CadenceType = 'perfect-authentic' | 'imperfect-authentic' | 'plagal' | 'half' | 'deceptive';
+
+export interface Cadence {
+  type: CadenceType;
+  time: number; // Where the cadence arrives
+  bar: number;
+  progression: string; // e.g. "V7 → I"
+}
+
+export interface HarmonyAnalysis {
+  key: KeyEstimate | null;
+  chords: ChordSegment[];
+  cadences: Cadence[];
+}
+
+export type HarmonyResolution = 'bar' | 'beat';
+
+// Krumhansl–Kessler probe-tone profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Triads first so a seventh chord only wins when its seventh is actually present
+const CHORD_TEMPLATES: { quality: ChordQuality; intervals: number[]; suffix: string; numeral: string; upper: boolean }[] = [
+  { quality: 'major', intervals: [0, 4, 7], suffix: '', numeral: '', upper: true },
+  { quality: 'minor', intervals: [0, 3, 7], suffix: 'm', numeral: '', upper: false },
+  { quality: 'diminished', intervals: [0, 3, 6], suffix: 'dim', numeral: '°', upper: false },
+  { quality: 'augmented', intervals: [0, 4, 8], suffix: 'aug', numeral: '+', upper: true },
+  { quality: 'sus4', intervals: [0, 5, 7], suffix: 'sus4', numeral: 'sus4', upper: true },
+  { quality: 'dominant7', intervals: [0, 4, 7, 10], suffix: '7', numeral: '7', upper: true },
+  { quality: 'major7', intervals: [0, 4, 7, 11], suffix: 'maj7', numeral: 'maj7', upper: true },
+  { quality: 'minor7', intervals: [0, 3, 7, 10], suffix: 'm7', numeral: '7', upper: false },
+  { quality: 'half-diminished7', intervals: [0, 3, 6, 10], suffix: 'm7b5', numeral: 'ø7', upper: false },
+  { quality: 'diminished7', intervals: [0, 3, 6, 9], suffix: 'dim7', numeral: '°7', upper: false }
+];
+
+// Scale degree of each semitone above the tonic; case is set by the chord quality
+const MAJOR_DEGREES = ['I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'];
+const MINOR_DEGREES = ['I', 'bII', 'II', 'III', '#III', 'IV', '#IV', 'V', 'VI', '#VI', 'VII', 'VII'];
+
+const EPSILON = 1e-6;
+
+const pitchClassName = (pc: number, preferFlats: boolean): string => midiToPitch(60 + pc, preferFlats).replace(/-?\d+$/, '');
+
+const correlate = (a: number[], b: number[]): number => {
+  const meanA = a.reduce((s, x) => s + x, 0) / a.length;
+  const meanB = b.reduce((s, x) => s + x, 0) / b.length;
+  let num = 0, denA = 0, denB = 0;
+  a.forEach((x, i) => {
+    num += (x - meanA) * (b[i] - meanB);
+    denA += (x - meanA) ** 2;
+    denB += (b[i] - meanB) ** 2;
+  });
+  return denA > 0 && denB > 0 ? num / Math.sqrt(denA * denB) : 0;
+};
+
+// Sounding time of each pitch class, optionally restricted to a window
+const pitchClassWeights = (notes: Note[], from = -Infinity, to = Infinity): number[] => {
+  const weights = new Array(12).fill(0);
+  notes.forEach(note => {
+    const midi = pitchToMidi(note.pitch);
+    if (midi === null) return;
+    const overlap = Math.min(note.time + getNoteLength(note), to) - Math.max(note.time, from);
+    if (overlap > EPSILON) weights[midi % 12] += overlap;
+  });
+  return weights;
+};
+
+/**
+ * Estimates the key by correlating the duration-weighted pitch-class histogram with the
+ * Krumhansl–Kessler profiles in all 24 keys. The tonic is spelled with the fewer accidentals.
+ */
+export const estimateKey = (notes: Note[]): KeyEstimate | null => {
+  const weights = pitchClassWeights(notes);
+  if (weights.every(w => w === 0)) return null;
+
+  let best: { tonic: number; mode: 'major' | 'minor'; confidence: number } | null = null;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = weights.map((_, i) => weights[(i + tonic) % 12]);
+    (['major', 'minor'] as const).forEach(mode => {
+      const confidence = correlate(rotated, mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE);
+      if (!best || confidence > best.confidence + EPSILON) best = { tonic, mode, confidence };
+    });
+  }
+  const { tonic, mode, confidence } = best!;
+
+  const suffix = mode === 'minor' ? 'm' : '';
+  const spellings = [pitchClassName(tonic, false), pitchClassName(tonic, true)]
+    .map(name => ({ name, fifths: getKeyFifths(name + suffix) }))
+    .filter((s): s is { name: string; fifths: number } => s.fifths !== null)
+    .sort((a, b) => Math.abs(a.fifths) - Math.abs(b.fifths));
+  const tonicName = spellings[0]?.name ?? pitchClassName(tonic, false);
+  return { tonic, mode, name: `${tonicName} ${mode}`, symbol: tonicName + suffix, confidence };
+};
+
+const formatNumeral = (root: number, quality: ChordQuality, key: KeyEstimate): string => {
+  const template = CHORD_TEMPLATES.find(t => t.quality === quality)!;
+  const degree = (key.mode === 'major' ? MAJOR_DEGREES : MINOR_DEGREES)[(root - key.tonic + 12) % 12];
+  const accidental = degree.match(/^[b#]?/)![0];
+  const numeral = degree.slice(accidental.length);
+  return accidental + (template.upper ? numeral : numeral.toLowerCase()) + template.numeral;
+};
+
+// Best-fitting chord for a pitch-class profile, or null when fewer than two pitch classes sound
+const identifyChord = (weights: number[], bass: number) => {
+  const total = weights.reduce((s, w) => s + w, 0);
+  if (weights.filter(w => w > EPSILON).length < 2) return null;
+  const share = weights.map(w => w / total);
+
+  let best: { root: number; quality: ChordQuality; score: number } | null = null;
+  for (let root = 0; root < 12; root++) {
+    if (share[root] < EPSILON) continue;
+    CHORD_TEMPLATES.forEach(template => {
+      const tones = new Set(template.intervals.map(i => (root + i) % 12));
+      let score = 0;
+      share.forEach((w, pc) => { score += tones.has(pc) ? w : -0.6 * w; });
+      score -= 0.15 * [...tones].filter(pc => share[pc] < EPSILON).length;
+      if (bass === root) score += 0.1;
+      if (!best || score > best.score + EPSILON) best = { root, quality: template.quality, score };
+    });
+  }
+  return best as { root: number; quality: ChordQuality; score: number } | null;
+};
+
+const getSegments = (timing: Timing, end: number, resolution: HarmonyResolution) =>
+  getBarLines(timing, end).flatMap(bar => {
+    if (resolution === 'bar') return [{ time: bar.time, length: bar.length, bar: bar.index }];
+    const beats = Math.ceil(bar.length / bar.beatLength - EPSILON);
+    return Array.from({ length: beats }, (_, beat) => {
+      const time = bar.time + beat * bar.beatLength;
+      return { time, length: Math.min(bar.beatLength, bar.time + bar.length - time), bar: bar.index };
+    });
+  });
+
+const isTonic = (chord: ChordSegment, key: KeyEstimate) => (chord.root - key.tonic + 12) % 12 === 0 && ['major', 'minor', 'major7', 'minor7'].includes(chord.quality);
+const isSubdominant = (chord: ChordSegment, key: KeyEstimate) => (chord.root - key.tonic + 12) % 12 === 5 && ['major', 'minor'].includes(chord.quality);
+const isDominant = (chord: ChordSegment, key: KeyEstimate) => (chord.root - key.tonic + 12) % 12 === 7 && ['major', 'dominant7'].includes(chord.quality);
+const isLeadingTone = (chord: ChordSegment, key: KeyEstimate) => (chord.root - key.tonic + 12) % 12 === 11 && ['diminished', 'half-diminished7', 'diminished7'].includes(chord.quality);
+const isSubmediant = (chord: ChordSegment, key: KeyEstimate) => (chord.root - key.tonic + 12) % 12 === (key.mode === 'major' ? 9 : 8);
+
+/**
+ * Finds cadences between consecutive chords. A dominant left hanging (last chord, before a
+ * rest, or at the end of a four-bar phrase) counts as a half cadence.
+ */
+const findCadences = (chords: ChordSegment[], key: KeyEstimate, timing: Timing): Cadence[] => {
+  const cadences: Cadence[] = [];
+  const label = (chord: ChordSegment) => chord.numeral || chord.symbol;
+  const bars = getBarLines(timing, chords.length ? chords[chords.length - 1].time + 1 : 1);
+
+  chords.forEach((chord, i) => {
+    const next = chords[i + 1];
+    const progression = next ? `${label(chord)} → ${label(next)}` : label(chord);
+    if (next && Math.abs(next.time - (chord.time + chord.length)) < EPSILON) {
+      if ((isDominant(chord, key) || isLeadingTone(chord, key)) && isTonic(next, key)) {
+        const perfect = isDominant(chord, key) && chord.bass === chord.root && next.bass === next.root;
+        cadences.push({ type: perfect ? 'perfect-authentic' : 'imperfect-authentic', time: next.time, bar: next.bar, progression });
+        return;
+      }
+      if (isSubdominant(chord, key) && isTonic(next, key)) {
+        cadences.push({ type: 'plagal', time: next.time, bar: next.bar, progression });
+        return;
+      }
+      if (isDominant(chord, key) && isSubmediant(next, key)) {
+        cadences.push({ type: 'deceptive', time: next.time, bar: next.bar, progression });
+        return;
+      }
+    }
+    if (isDominant(chord, key)) {
+      const end = chord.time + chord.length;
+      const endsPhrase = bars.some(bar => bar.index % 4 === 3 && Math.abs(bar.time + bar.length - end) < EPSILON);
+      const hangs = !next || next.time - end > EPSILON;
+      if (hangs || endsPhrase) cadences.push({ type: 'half', time: chord.time, bar: chord.bar, progression: label(chord) });
+    }
+  });
+  return cadences;
+};
+
+/**
+ * Deterministic harmony analysis of the canvas: key, one chord per bar or beat (repeats merged),
+ * Roman numerals in the estimated key, and cadences.
+ */
+export const analyzeHarmony = (notes: Note[], timing: Timing, resolution: HarmonyResolution = 'bar'): HarmonyAnalysis => {
+  const key = estimateKey(notes);
+  if (!key || notes.length === 0) return { key, chords: [], cadences: [] };
+
+  const preferFlats = (getKeyFifths(key.symbol) ?? 0) < 0;
+  const chords: ChordSegment[] = [];
+  const index = createNoteIndex(notes);
+  getSegments(timing, getScoreEnd(notes), resolution).forEach(segment => {
+    const end = segment.time + segment.length;
+    const sounding = index.query(segment.time + EPSILON, end - EPSILON).map(i => notes[i]);
+    const bassMidi = Math.min(...sounding.map(n => pitchToMidi(n.pitch) ?? Infinity));
+    if (!Number.isFinite(bassMidi)) return;
+    const bass = bassMidi % 12;
+    const chord = identifyChord(pitchClassWeights(sounding, segment.time, end), bass);
+    if (!chord) return;
+
+    const previous = chords[chords.length - 1];
+    if (previous && previous.root === chord.root && previous.quality === chord.quality && previous.bass === bass
+      && Math.abs(previous.time + previous.length - segment.time) < EPSILON) {
+      previous.length += segment.length;
+      return;
+    }
+    const template = CHORD_TEMPLATES.find(t => t.quality === chord.quality)!;
+    const root = pitchClassName(chord.root, preferFlats);
+    const slash = bass !== chord.root ? `/${pitchClassName(bass, preferFlats)}` : '';
+    chords.push({
+      time: segment.time,
+      length: segment.length,
+      bar: segment.bar,
+      root: chord.root,
+      bass,
+      quality: chord.quality,
+      symbol: `${root}${template.suffix}${slash}`,
+      numeral: formatNumeral(chord.root, chord.quality, key)
+    });
+  });
+
+  return { key, chords, cadences: findCadences(chords, key, timing) };
+};
+
+export const CADENCE_LABELS: { [type in CadenceType]: string } = {
+  'perfect-authentic': 'Perfect authentic',
+  'imperfect-authentic': 'Imperfect authentic',
+  'plagal': 'Plagal',
+  'half': 'Half',
+  'deceptive': 'Deceptive'
+};
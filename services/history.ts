@@ -0,0 +1,132 @@
+import { Note, Timing, Track } from '../types';
+import { formatDuration } from './duration';
+import { getBarAt } from './timing';
+
+// Everything a history step restores
+export interface ScoreSnapshot {
+  notes: Note[];
+  tracks: Track[];
+  timing: Timing;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  snapshot: ScoreSnapshot;
+  timestamp: number;
+  mergeKey?: string; // Consecutive steps with the same key (e.g. slider drags) collapse into one
+}
+
+export interface ScoreHistory {
+  entries: HistoryEntry[];
+  index: number; // Entry currently shown; entries after it can be redone
+}
+
+export interface ChangeDescription {
+  label: string;
+  mergeKey?: string;
+}
+
+const MERGE_WINDOW_MS = 1500;
+
+let nextEntryId = 1;
+
+export const createHistory = (snapshot: ScoreSnapshot, label = 'Empty canvas'): ScoreHistory => ({
+  entries: [{ id: nextEntryId++, label, snapshot, timestamp: Date.now() }],
+  index: 0
+});
+
+export const getCurrentSnapshot = (history: ScoreHistory): ScoreSnapshot => history.entries[history.index].snapshot;
+
+/**
+ * Records a new step after the current one, discarding anything that could have been redone.
+ * A step sharing the previous step's `mergeKey` within a short window replaces it instead, so
+ * dragging a slider or typing a name yields a single undo step.
+ */
+export const pushHistory = (history: ScoreHistory, snapshot: ScoreSnapshot, change: ChangeDescription): ScoreHistory => {
+  const now = Date.now();
+  const current = history.entries[history.index];
+  const isLatest = history.index === history.entries.length - 1;
+  if (change.mergeKey && isLatest && current.mergeKey === change.mergeKey && now - current.timestamp < MERGE_WINDOW_MS && history.index > 0) {
+    const merged = { ...current, label: change.label, snapshot, timestamp: now };
+    return { entries: [...history.entries.slice(0, history.index), merged], index: history.index };
+  }
+  const entry: HistoryEntry = { id: nextEntryId++, label: change.label, snapshot, timestamp: now, mergeKey: change.mergeKey };
+  return { entries: [...history.entries.slice(0, history.index + 1), entry], index: history.index + 1 };
+};
+
+export const canUndo = (history: ScoreHistory): boolean => history.index > 0;
+
+export const canRedo = (history: ScoreHistory): boolean => history.index < history.entries.length - 1;
+
+// Moving the index never removes entries, so any step can be revisited until a new edit is made
+export const jumpToHistory = (history: ScoreHistory, index: number): ScoreHistory => ({
+  ...history,
+  index: Math.max(0, Math.min(history.entries.length - 1, index))
+});
+
+export const undoHistory = (history: ScoreHistory): ScoreHistory => jumpToHistory(history, history.index - 1);
+
+export const redoHistory = (history: ScoreHistory): ScoreHistory => jumpToHistory(history, history.index + 1);
+
+const noteKey = (note: Note): string => `${note.trackId || note.instrument}|${note.pitch}|${note.time}|${note.duration}`;
+
+// Notes in `a` that have no counterpart in `b`, counting duplicates
+const subtractNotes = (a: Note[], b: Note[]): Note[] => {
+  const remaining = new Map<string, number>();
+  b.forEach(note => remaining.set(noteKey(note), (remaining.get(noteKey(note)) || 0) + 1));
+  return a.filter(note => {
+    const count = remaining.get(noteKey(note)) || 0;
+    if (count === 0) return true;
+    remaining.set(noteKey(note), count - 1);
+    return false;
+  });
+};
+
+export const describeNoteChange = (before: Note[], after: Note[], timing: Timing): ChangeDescription | null => {
+  const added = subtractNotes(after, before);
+  const removed = subtractNotes(before, after);
+  const barOf = (note: Note) => getBarAt(timing, note.time).index + 1;
+
+  if (added.length === 0 && removed.length === 0) return null;
+  if (after.length === 0) return { label: 'Cleared canvas' };
+  if (added.length === 1 && removed.length === 0) return { label: `Added ${added[0].pitch} at bar ${barOf(added[0])}` };
+  if (removed.length === 1 && added.length === 0) return { label: `Removed ${removed[0].pitch} from bar ${barOf(removed[0])}` };
+  if (added.length === 1 && removed.length === 1 && added[0].pitch === removed[0].pitch) {
+    return added[0].time === removed[0].time
+      ? { label: `Resized ${added[0].pitch} to ${formatDuration(added[0].duration)}` }
+      : { label: `Moved ${added[0].pitch} to bar ${barOf(added[0])}` };
+  }
+  if (removed.length === 0) return { label: `Added ${added.length} notes` };
+  if (added.length === 0) return { label: `Removed ${removed.length} notes` };
+  return { label: `Edited ${Math.max(added.length, removed.length)} notes` };
+};
+
+export const describeTrackChange = (before: Track[], after: Track[]): ChangeDescription | null => {
+  if (after.length > before.length) return { label: `Added track ${after[after.length - 1].name}` };
+  const deleted = before.find(t => !after.some(a => a.id === t.id));
+  if (deleted) return { label: `Deleted track ${deleted.name}` };
+
+  for (const track of after) {
+    const previous = before.find(t => t.id === track.id);
+    if (!previous) continue;
+    if (previous.name !== track.name) return { label: `Renamed ${previous.name} to ${track.name}`, mergeKey: `track:${track.id}:name` };
+    if (previous.mute !== track.mute) return { label: `${track.mute ? 'Muted' : 'Unmuted'} ${track.name}` };
+    if (previous.solo !== track.solo) return { label: `${track.solo ? 'Soloed' : 'Unsoloed'} ${track.name}` };
+    if (previous.instrument !== track.instrument) return { label: `Set ${track.name} patch to ${track.instrument}`, mergeKey: `track:${track.id}:instrument` };
+    if (previous.gain !== track.gain) return { label: `Changed ${track.name} volume`, mergeKey: `track:${track.id}:gain` };
+    if (previous.pan !== track.pan) return { label: `Panned ${track.name}`, mergeKey: `track:${track.id}:pan` };
+  }
+  return null;
+};
+
+export const describeTimingChange = (before: Timing, after: Timing): ChangeDescription | null => {
+  if (before.bpm !== after.bpm) return { label: `Tempo ${after.bpm} BPM`, mergeKey: 'timing:bpm' };
+  if (before.meter[0] !== after.meter[0] || before.meter[1] !== after.meter[1]) {
+    return { label: `Meter ${after.meter[0]}/${after.meter[1]}`, mergeKey: 'timing:meter' };
+  }
+  if (JSON.stringify(before.tempoChanges) !== JSON.stringify(after.tempoChanges) || JSON.stringify(before.meterChanges) !== JSON.stringify(after.meterChanges)) {
+    return { label: 'Edited tempo map', mergeKey: 'timing:map' };
+  }
+  return null;
+};
@@ -0,0 +1,19 @@
+// Collects importer warnings, folding repeats of the same problem into one line
+export const createImportReport = () => {
+  const entries = new Map<string, number[]>();
+
+  const warn = (message: string, line?: number) => {
+    const lines = entries.get(message) || [];
+    if (line !== undefined && !lines.includes(line)) lines.push(line);
+    entries.set(message, lines);
+  };
+
+  const list = (): string[] =>
+    [...entries.entries()].map(([message, lines]) => {
+      if (lines.length === 0) return message;
+      const shown = lines.slice(0, 6).join(', ') + (lines.length > 6 ? ', …' : '');
+      return `${message} (line${lines.length > 1 ? 's' : ''} ${shown})`;
+    });
+
+  return { warn, list };
+};
@@ -0,0 +1,288 @@
+// Instrument patches used by playback and audio export. A patch is one or more voices (plain
+// oscillators, wavetables built from harmonic amplitudes, two-operator FM or decoded samples)
+// shaped by an ADSR envelope and an optional filter with its own envelope.
+
+export interface Envelope {
+  attack: number;
+  decay: number;
+  sustain: number; // Level as a fraction of the peak
+  release: number;
+}
+
+export interface PatchFilter {
+  type: BiquadFilterType;
+  frequency: number;
+  q?: number;
+  // Hz added to the cutoff at the start of the note, falling back over `decay` seconds
+  envelopeAmount?: number;
+  decay?: number;
+  // 1 moves the cutoff with pitch (relative to middle C), 0 keeps it fixed
+  keyTracking?: number;
+}
+
+export interface SampleZone {
+  midi: number;
+  buffer: AudioBuffer;
+}
+
+export type PatchVoice =
+  | { kind: 'oscillator'; waveform: OscillatorType; detune?: number; octave?: number; level?: number }
+  // Amplitudes of the fundamental and its overtones
+  | { kind: 'wavetable'; harmonics: number[]; detune?: number; level?: number }
+  // `index` is the peak modulation depth as a multiple of the modulator frequency
+  | { kind: 'fm'; carrier: OscillatorType; ratio: number; index: number; indexDecay: number; level?: number }
+  | { kind: 'sample'; zones: SampleZone[]; level?: number };
+
+export interface InstrumentPatch {
+  id: string;
+  name: string;
+  keywords: string[];
+  voices: PatchVoice[];
+  envelope: Envelope;
+  filter?: PatchFilter;
+  gain: number;
+}
+
+export const DEFAULT_PATCH_ID = 'synth';
+
+const BUILT_IN_PATCHES: InstrumentPatch[] = [
+  {
+    // The original sound: a sawtooth through a closing lowpass
+    id: 'synth',
+    name: 'Synth',
+    keywords: ['lead', 'arp', 'saw', 'sawtooth'],
+    voices: [{ kind: 'oscillator', waveform: 'sawtooth' }],
+    envelope: { attack: 0.01, decay: 0.4, sustain: 0.5, release: 0.08 },
+    filter: { type: 'lowpass', frequency: 900, envelopeAmount: 1600, decay: 0.6, keyTracking: 0.5 },
+    gain: 0.1
+  },
+  {
+    id: 'square-lead',
+    name: 'Square Lead',
+    keywords: ['square', 'chiptune', '8-bit', '8bit', 'retro'],
+    voices: [
+      { kind: 'oscillator', waveform: 'square' },
+      { kind: 'oscillator', waveform: 'sawtooth', detune: 8, level: 0.4 }
+    ],
+    envelope: { attack: 0.005, decay: 0.2, sustain: 0.7, release: 0.06 },
+    filter: { type: 'lowpass', frequency: 2400, keyTracking: 0.5 },
+    gain: 0.07
+  },
+  {
+    id: 'piano',
+    name: 'Piano',
+    keywords: ['piano', 'grand', 'upright', 'keys', 'harpsichord'],
+    voices: [{ kind: 'wavetable', harmonics: [1, 0.55, 0.32, 0.22, 0.12, 0.09, 0.05, 0.04, 0.02] }],
+    envelope: { attack: 0.004, decay: 1.4, sustain: 0.15, release: 0.3 },
+    filter: { type: 'lowpass', frequency: 1800, envelopeAmount: 3500, decay: 0.5, keyTracking: 0.7 },
+    gain: 0.16
+  },
+  {
+    id: 'electric-piano',
+    name: 'Electric Piano',
+    keywords: ['electric piano', 'e-piano', 'epiano', 'rhodes', 'wurlitzer', 'ep'],
+    voices: [
+      { kind: 'fm', carrier: 'sine', ratio: 1, index: 1.8, indexDecay: 0.6 },
+      { kind: 'fm', carrier: 'sine', ratio: 14, index: 0.4, indexDecay: 0.08, level: 0.3 }
+    ],
+    envelope: { attack: 0.003, decay: 1.6, sustain: 0.25, release: 0.35 },
+    gain: 0.16
+  },
+  {
+    id: 'organ',
+    name: 'Organ',
+    keywords: ['organ', 'hammond', 'church', 'drawbar'],
+    voices: [{ kind: 'wavetable', harmonics: [1, 0.8, 0.6, 0.45, 0, 0.35, 0, 0.3] }],
+    envelope: { attack: 0.01, decay: 0.05, sustain: 1, release: 0.05 },
+    gain: 0.08
+  },
+  {
+    id: 'strings',
+    name: 'Strings',
+    keywords: ['string', 'violin', 'viola', 'cello', 'contrabass', 'orchestra', 'ensemble', 'fiddle'],
+    voices: [
+      { kind: 'oscillator', waveform: 'sawtooth', detune: -7 },
+      { kind: 'oscillator', waveform: 'sawtooth', detune: 7 }
+    ],
+    envelope: { attack: 0.18, decay: 0.3, sustain: 0.85, release: 0.4 },
+    filter: { type: 'lowpass', frequency: 2600, q: 0.7, keyTracking: 0.4 },
+    gain: 0.06
+  },
+  {
+    id: 'pad',
+    name: 'Pad',
+    keywords: ['pad', 'ambient', 'atmosphere', 'drone', 'texture', 'warm'],
+    voices: [
+      { kind: 'oscillator', waveform: 'sawtooth', detune: -12 },
+      { kind: 'oscillator', waveform: 'sawtooth', detune: 12 },
+      { kind: 'oscillator', waveform: 'triangle', octave: -1, level: 0.6 }
+    ],
+    envelope: { attack: 0.6, decay: 0.8, sustain: 0.8, release: 1.2 },
+    filter: { type: 'lowpass', frequency: 1100, q: 1.5, envelopeAmount: 600, decay: 1.5 },
+    gain: 0.05
+  },
+  {
+    id: 'bass',
+    name: 'Bass',
+    keywords: ['bass', 'bass guitar', 'electric bass', 'upright bass', 'double bass', 'fingered', 'low end'],
+    voices: [
+      { kind: 'oscillator', waveform: 'triangle' },
+      { kind: 'oscillator', waveform: 'sine', octave: -1, level: 0.5 }
+    ],
+    envelope: { attack: 0.008, decay: 0.5, sustain: 0.6, release: 0.1 },
+    filter: { type: 'lowpass', frequency: 700, envelopeAmount: 500, decay: 0.2 },
+    gain: 0.18
+  },
+  {
+    id: 'synth-bass',
+    name: 'Synth Bass',
+    keywords: ['synth bass', 'sub', '808', 'acid', 'reese', 'wobble'],
+    voices: [
+      { kind: 'oscillator', waveform: 'square' },
+      { kind: 'oscillator', waveform: 'sawtooth', detune: 10, level: 0.6 }
+    ],
+    envelope: { attack: 0.004, decay: 0.3, sustain: 0.5, release: 0.08 },
+    filter: { type: 'lowpass', frequency: 300, q: 6, envelopeAmount: 2200, decay: 0.25 },
+    gain: 0.1
+  },
+  {
+    id: 'pluck',
+    name: 'Pluck',
+    keywords: ['pluck', 'guitar', 'harp', 'banjo', 'mandolin', 'koto', 'sitar', 'ukulele', 'pizzicato', 'lute'],
+    voices: [{ kind: 'oscillator', waveform: 'sawtooth' }, { kind: 'oscillator', waveform: 'square', detune: 5, level: 0.3 }],
+    envelope: { attack: 0.002, decay: 0.7, sustain: 0, release: 0.15 },
+    filter: { type: 'lowpass', frequency: 600, envelopeAmount: 4000, decay: 0.15, keyTracking: 0.8 },
+    gain: 0.12
+  },
+  {
+    id: 'brass',
+    name: 'Brass',
+    keywords: ['brass', 'trumpet', 'trombone', 'horn', 'tuba', 'cornet', 'flugelhorn'],
+    voices: [{ kind: 'oscillator', waveform: 'sawtooth' }, { kind: 'oscillator', waveform: 'sawtooth', detune: 4 }],
+    envelope: { attack: 0.05, decay: 0.2, sustain: 0.8, release: 0.12 },
+    filter: { type: 'lowpass', frequency: 800, q: 1.2, envelopeAmount: 2000, decay: 0.12, keyTracking: 0.6 },
+    gain: 0.07
+  },
+  {
+    id: 'reed',
+    name: 'Reed',
+    keywords: ['sax', 'saxophone', 'alto sax', 'tenor sax', 'baritone sax', 'clarinet', 'oboe', 'bassoon', 'reed', 'harmonica', 'accordion'],
+    voices: [{ kind: 'wavetable', harmonics: [1, 0.15, 0.6, 0.1, 0.4, 0.08, 0.25, 0.05, 0.12] }],
+    envelope: { attack: 0.04, decay: 0.2, sustain: 0.85, release: 0.1 },
+    filter: { type: 'lowpass', frequency: 2200, keyTracking: 0.5 },
+    gain: 0.1
+  },
+  {
+    id: 'flute',
+    name: 'Flute',
+    keywords: ['flute', 'piccolo', 'recorder', 'whistle', 'pan flute', 'ocarina', 'woodwind'],
+    voices: [{ kind: 'wavetable', harmonics: [1, 0.12, 0.05, 0.02] }],
+    envelope: { attack: 0.07, decay: 0.2, sustain: 0.9, release: 0.12 },
+    gain: 0.14
+  },
+  {
+    id: 'bell',
+    name: 'Bell',
+    keywords: ['bell', 'glockenspiel', 'celesta', 'chime', 'music box', 'vibraphone', 'vibes'],
+    voices: [{ kind: 'fm', carrier: 'sine', ratio: 3.5, index: 3, indexDecay: 1.2 }],
+    envelope: { attack: 0.002, decay: 2.5, sustain: 0, release: 1 },
+    gain: 0.12
+  },
+  {
+    id: 'mallet',
+    name: 'Mallet',
+    keywords: ['marimba', 'xylophone', 'mallet', 'kalimba', 'steel drum', 'steelpan'],
+    voices: [{ kind: 'fm', carrier: 'sine', ratio: 4, index: 1.2, indexDecay: 0.05 }],
+    envelope: { attack: 0.002, decay: 0.5, sustain: 0, release: 0.2 },
+    gain: 0.16
+  },
+  {
+    id: 'choir',
+    name: 'Choir',
+    keywords: ['choir', 'vocal', 'voice', 'vox', 'aah', 'ooh', 'singer', 'soprano', 'alto', 'tenor', 'baritone'],
+    voices: [
+      { kind: 'wavetable', harmonics: [1, 0.7, 0.9, 0.3, 0.2, 0.1, 0.05], detune: -5 },
+      { kind: 'wavetable', harmonics: [1, 0.7, 0.9, 0.3, 0.2, 0.1, 0.05], detune: 5 }
+    ],
+    envelope: { attack: 0.25, decay: 0.3, sustain: 0.85, release: 0.5 },
+    filter: { type: 'lowpass', frequency: 1800, q: 2 },
+    gain: 0.07
+  }
+];
+
+// Sample sets loaded by the user, looked up before the built-in patches
+const customPatches = new Map<string, InstrumentPatch>();
+const resolved = new Map<string, InstrumentPatch>();
+
+export const getPatches = (): InstrumentPatch[] => [...customPatches.values(), ...BUILT_IN_PATCHES];
+
+export const getPatch = (id: string): InstrumentPatch | undefined =>
+  customPatches.get(id) || BUILT_IN_PATCHES.find(patch => patch.id === id);
+
+export const registerPatch = (patch: InstrumentPatch) => {
+  customPatches.set(patch.id, patch);
+  resolved.clear();
+};
+
+export const unregisterPatch = (id: string) => {
+  customPatches.delete(id);
+  resolved.clear();
+};
+
+// Edit distance, used to let "violn" or "trumpets" still find their patch
+const distance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const normalize = (name: string): string => name.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+const findPatch = (name: string): InstrumentPatch | undefined => {
+  const patches = getPatches();
+  const exact = patches.find(patch => patch.id === name || normalize(patch.name) === name);
+  if (exact) return exact;
+
+  // Longest keyword wins so "synth bass" beats "bass" and "electric piano" beats "piano".
+  // "Synth" itself is not a keyword: names like "Synth Strings" go to the more specific patch.
+  let best: { patch: InstrumentPatch; length: number } | undefined;
+  patches.forEach(patch =>
+    patch.keywords.forEach(keyword => {
+      const matches = keyword.length <= 3 ? name.split(/[^a-z0-9-]+/).includes(keyword) : name.includes(keyword);
+      if (matches && (!best || keyword.length > best.length)) best = { patch, length: keyword.length };
+    })
+  );
+  if (best) return best.patch;
+
+  // Then the nearest single-word keyword within a typo or two
+  const words = name.split(/[^a-z0-9]+/).filter(word => word.length >= 4);
+  let nearest: { patch: InstrumentPatch; score: number } | undefined;
+  patches.forEach(patch =>
+    patch.keywords.filter(keyword => keyword.length >= 4 && !keyword.includes(' ')).forEach(keyword =>
+      words.forEach(word => {
+        const score = distance(word, keyword);
+        if (score <= (keyword.length >= 7 ? 2 : 1) && (!nearest || score < nearest.score)) nearest = { patch, score };
+      })
+    )
+  );
+  return nearest?.patch;
+};
+
+/**
+ * Maps a free-form instrument name (as written by the model or typed on a track) to the closest
+ * patch. Unknown names fall back to the default synth.
+ */
+export const resolvePatch = (instrument: string | undefined): InstrumentPatch => {
+  const name = normalize(instrument || '');
+  const cached = resolved.get(name);
+  if (cached) return cached;
+  const patch = (name && findPatch(name)) || getPatch(DEFAULT_PATCH_ID)!;
+  resolved.set(name, patch);
+  return patch;
+};
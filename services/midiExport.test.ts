@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { Note, Timing } from '../types';
+import { MIDI_PPQ, notesToMidi } from './midiExport';
+import { parseMidi } from './midiImport';
+import { createTrack } from './tracks';
+import { DRUM_LANES, getDrumPitch } from './drums';
+import { DEFAULT_TIMING } from './timing';
+
+interface Chunk {
+  id: string;
+  bytes: Uint8Array;
+}
+
+interface MidiEvent {
+  tick: number;
+  data: number[];
+}
+
+const readChunks = (file: Uint8Array): Chunk[] => {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 0; offset < file.length; ) {
+    const id = String.fromCharCode(...file.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4);
+    chunks.push({ id, bytes: file.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length;
+  }
+  return chunks;
+};
+
+// Absolute-time events of one MTrk body; the exporter never uses running status
+const readEvents = (track: Uint8Array): MidiEvent[] => {
+  const events: MidiEvent[] = [];
+  let position = 0;
+  let tick = 0;
+  const readVarLen = () => {
+    let value = 0;
+    let byte = 0;
+    do {
+      byte = track[position++];
+      value = (value << 7) | (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  };
+  while (position < track.length) {
+    tick += readVarLen();
+    const status = track[position];
+    if (status === 0xff) {
+      const start = position;
+      position += 2;
+      const length = readVarLen();
+      position += length;
+      events.push({ tick, data: Array.from(track.subarray(start, position)) });
+    } else {
+      const size = (status & 0xf0) === 0xc0 ? 2 : 3;
+      events.push({ tick, data: Array.from(track.subarray(position, position + size)) });
+      position += size;
+    }
+  }
+  return events;
+};
+
+const notes: Note[] = [
+  { pitch: 'C4', duration: 'quarter', instrument: 'Piano', time: 0 },
+  { pitch: 'E4', duration: 'eighth', instrument: 'Piano', time: 4 },
+  { pitch: 'C2', duration: 'half', instrument: 'Bass', time: 0 }
+];
+
+describe('notesToMidi', () => {
+  it('writes a Type 1 file with a conductor track and one track per instrument', () => {
+    const [header, ...tracks] = readChunks(notesToMidi(notes));
+    expect(header.id).toBe('MThd');
+    expect(Array.from(header.bytes)).toEqual([0, 1, 0, 3, MIDI_PPQ >> 8, MIDI_PPQ & 0xff]);
+    expect(tracks.map(t => t.id)).toEqual(['MTrk', 'MTrk', 'MTrk']);
+    tracks.forEach(track => expect(Array.from(track.bytes.subarray(-4))).toEqual([0x00, 0xff, 0x2f, 0x00]));
+  });
+
+  it('puts the title and a 120 BPM tempo on the conductor track', () => {
+    const [, conductor] = readChunks(notesToMidi(notes, { title: 'Sketch' }));
+    const events = readEvents(conductor.bytes);
+    expect(events).toContainEqual({ tick: 0, data: [0xff, 0x03, 6, ...new TextEncoder().encode('Sketch')] });
+    expect(events).toContainEqual({ tick: 0, data: [0xff, 0x51, 3, 0x07, 0xa1, 0x20] }); // 500000 µs a quarter
+  });
+
+  it('writes notes at 480 ticks a quarter with a program per instrument', () => {
+    const [, , piano, bass] = readChunks(notesToMidi(notes));
+    const pianoEvents = readEvents(piano.bytes).filter(e => e.data[0] !== 0xff);
+    const bassEvents = readEvents(bass.bytes).filter(e => e.data[0] !== 0xff);
+    expect(pianoEvents).toEqual([
+      { tick: 0, data: [0xc0, 0] },
+      { tick: 0, data: [0x90, 60, 96] },
+      { tick: 480, data: [0x80, 60, 0] },
+      { tick: 480, data: [0x90, 64, 96] },
+      { tick: 720, data: [0x80, 64, 0] }
+    ]);
+    expect(bassEvents).toEqual([
+      { tick: 0, data: [0xc1, 33] },
+      { tick: 0, data: [0x91, 36, 96] },
+      { tick: 960, data: [0x81, 36, 0] }
+    ]);
+  });
+
+  it('leaves channel 10 free for percussion', () => {
+    const many: Note[] = Array.from({ length: 12 }, (_, i) => ({ pitch: 'C4', duration: 'quarter', instrument: `Synth ${i}`, time: 0 }));
+    const channels = readChunks(notesToMidi(many)).slice(2)
+      .map(track => readEvents(track.bytes).find(e => (e.data[0] & 0xf0) === 0x90)!.data[0] & 0x0f);
+    expect(channels).not.toContain(9);
+    expect(new Set(channels).size).toBe(12);
+  });
+});
+
+const roundTrip = (notes: Note[], options: Parameters<typeof notesToMidi>[1] = {}) => {
+  const bytes = notesToMidi(notes, options);
+  return parseMidi(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+};
+
+// Imported notes come back without track ids, sorted by time
+const byTime = (notes: Note[]) => [...notes]
+  .map(({ trackId, ...note }) => note)
+  .sort((a, b) => a.time - b.time || a.pitch.localeCompare(b.pitch));
+
+describe('MIDI export and import', () => {
+  it('keeps named durations, pitches and positions', () => {
+    const notes: Note[] = [
+      { pitch: 'C4', duration: 'quarter', instrument: 'Piano', time: 0 },
+      { pitch: 'E4', duration: 'dotted-eighth', instrument: 'Piano', time: 4 },
+      { pitch: 'G4', duration: 'sixteenth', instrument: 'Piano', time: 7 },
+      { pitch: 'C#5', duration: 'whole', instrument: 'Piano', time: 8 }
+    ];
+    const result = roundTrip(notes, { title: 'Round trip' });
+    expect(result.title).toBe('Round trip');
+    expect(byTime(result.notes)).toEqual(byTime(notes));
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('keeps triplets on the triplet grid', () => {
+    const notes: Note[] = [0, 1, 2].map(i => ({
+      pitch: ['C4', 'D4', 'E4'][i],
+      duration: 'triplet-eighth',
+      instrument: 'Flute',
+      time: 4 + (i * 4) / 3
+    }));
+    const result = roundTrip(notes);
+    expect(result.notes.map(n => n.duration)).toEqual(['triplet-eighth', 'triplet-eighth', 'triplet-eighth']);
+    result.notes.forEach((note, i) => expect(note.time).toBeCloseTo(notes[i].time, 6));
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('keeps free lengths given in ticks', () => {
+    const notes: Note[] = [
+      { pitch: 'A3', duration: 60, instrument: 'Cello', time: 0 }, // Five 16ths
+      { pitch: 'B3', duration: 132, instrument: 'Cello', time: 5 } // Eleven 16ths
+    ];
+    expect(byTime(roundTrip(notes).notes)).toEqual(byTime(notes));
+  });
+
+  it('rounds tick lengths that fall between grid steps and says so', () => {
+    const result = roundTrip([{ pitch: 'A3', duration: 27, instrument: 'Cello', time: 0 }]); // 2.25 16ths
+    expect(result.notes[0].duration).toBe('eighth');
+    expect(result.warnings).toContain('Some note lengths were rounded to the 16th-note grid');
+  });
+
+  it('keeps the base tempo and meter and their changes', () => {
+    const timing: Timing = {
+      bpm: 96,
+      meter: [3, 4],
+      tempoChanges: [{ time: 24, bpm: 140 }, { time: 48, bpm: 72.5 }],
+      meterChanges: [{ time: 24, numerator: 6, denominator: 8 }, { time: 60, numerator: 5, denominator: 16 }]
+    };
+    const notes: Note[] = [{ pitch: 'C4', duration: 'quarter', instrument: 'Piano', time: 64 }];
+    expect(roundTrip(notes, { timing }).timing).toEqual(timing);
+  });
+
+  it('writes the default timing when none is given', () => {
+    const result = roundTrip([{ pitch: 'C4', duration: 'quarter', instrument: 'Piano', time: 0 }]);
+    expect(result.timing).toEqual(DEFAULT_TIMING);
+  });
+
+  it('plays percussion tracks on channel 10 and reads them back as drum keys', () => {
+    // Not a drum-like name, so the import only names it for drums if it arrives on channel 10
+    const drums = createTrack('Rhythm', 'Drum Kit', 0, 'percussion');
+    const bass = createTrack('Bass', 'Bass', 1);
+    const hit = (id: string, time: number): Note => ({
+      pitch: getDrumPitch(DRUM_LANES.find(lane => lane.id === id)!),
+      duration: 'sixteenth',
+      instrument: drums.name,
+      time,
+      trackId: drums.id
+    });
+    const notes: Note[] = [
+      hit('kick', 0), hit('closed-hat', 0), hit('snare', 4), hit('crash', 8),
+      { pitch: 'C2', duration: 'half', instrument: bass.name, time: 0, trackId: bass.id }
+    ];
+    const result = roundTrip(notes, { tracks: [drums, bass] });
+    const drumHits = notes.slice(0, 4).map(note => ({ ...note, instrument: 'Rhythm Drums' }));
+    expect(byTime(result.notes.filter(n => n.instrument === 'Rhythm Drums'))).toEqual(byTime(drumHits));
+    expect(byTime(result.notes.filter(n => n.instrument === 'Bass'))).toEqual(byTime(notes.slice(4)));
+  });
+
+  it('keeps notes without a percussion track on a melodic channel', () => {
+    const notes: Note[] = [{ pitch: 'C2', duration: 'quarter', instrument: 'Rhythm', time: 0 }];
+    // Read back from a melodic channel, the track keeps its own name
+    expect(roundTrip(notes).notes).toEqual(notes);
+  });
+});
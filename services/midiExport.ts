@@ -0,0 +1,113 @@
+import { Note, Timing, Track } from '../types';
+import { GM_PROGRAMS } from '../constants';
+import { pitchToMidi } from './pitch';
+import { getNoteLength, groupNotesByInstrument } from './notation';
+import { DEFAULT_TIMING, getMeterSegments, getTempoSegments } from './timing';
+import { getDrumLane, getPercussionTrackIds } from './drums';
+
+export interface MidiExportOptions {
+  title?: string;
+  timing?: Timing;
+  tracks?: Track[]; // Notes of percussion tracks are written to the drum channel
+}
+
+export const MIDI_PPQ = 480;
+export const TICKS_PER_UNIT = MIDI_PPQ / 4; // One grid unit is a 16th note
+const DRUM_CHANNEL = 9;
+const MELODIC_CHANNELS = Array.from({ length: 16 }, (_, i) => i).filter(channel => channel !== DRUM_CHANNEL);
+const DEFAULT_VELOCITY = 96;
+
+interface TrackEvent {
+  tick: number;
+  order: number; // Note-offs sort before note-ons at the same tick
+  data: number[];
+}
+
+const writeVarLen = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  let remaining = value >> 7;
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining >>= 7;
+  }
+  return bytes;
+};
+
+const writeText = (text: string): number[] => Array.from(new TextEncoder().encode(text));
+
+const metaEvent = (type: number, data: number[]): number[] => [0xff, type, ...writeVarLen(data.length), ...data];
+
+const buildChunk = (id: string, body: number[]): number[] => {
+  const length = body.length;
+  return [
+    ...writeText(id),
+    (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff,
+    ...body
+  ];
+};
+
+const buildTrack = (events: TrackEvent[]): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(event => {
+    body.push(...writeVarLen(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  });
+  body.push(0x00, ...metaEvent(0x2f, []));
+  return buildChunk('MTrk', body);
+};
+
+export const getProgramForInstrument = (instrument: string): number => {
+  const name = instrument.toLowerCase();
+  // Longest keyword wins so "synth bass" beats "bass"
+  const keyword = Object.keys(GM_PROGRAMS)
+    .filter(k => name.includes(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return keyword ? GM_PROGRAMS[keyword] : 0;
+};
+
+/**
+ * Writes a Type 1 Standard MIDI File: a conductor track carrying tempo and meter, followed by
+ * one track per instrument. Percussion tracks play on channel 10 with their General MIDI drum
+ * keys and no program change; melodic tracks share the other fifteen channels.
+ */
+export const notesToMidi = (notes: Note[], options: MidiExportOptions = {}): Uint8Array => {
+  const { title, timing = DEFAULT_TIMING, tracks: scoreTracks = [] } = options;
+  const percussion = getPercussionTrackIds(scoreTracks);
+
+  const conductor: TrackEvent[] = title ? [{ tick: 0, order: 0, data: metaEvent(0x03, writeText(title)) }] : [];
+  getTempoSegments(timing).forEach(({ time, bpm }) => {
+    const microsPerQuarter = Math.round(60000000 / bpm);
+    const data = metaEvent(0x51, [(microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff]);
+    conductor.push({ tick: Math.round(time * TICKS_PER_UNIT), order: 0, data });
+  });
+  getMeterSegments(timing).forEach(({ time, meter }) => {
+    const data = metaEvent(0x58, [meter[0], Math.round(Math.log2(meter[1])), 24, 8]);
+    conductor.push({ tick: Math.round(time * TICKS_PER_UNIT), order: 0, data });
+  });
+
+  const tracks: number[][] = [buildTrack(conductor)];
+  let melodicIndex = 0;
+  groupNotesByInstrument(notes).forEach((trackNotes, instrument) => {
+    const isDrums = trackNotes.some(n => n.trackId && percussion.has(n.trackId));
+    const channel = isDrums ? DRUM_CHANNEL : MELODIC_CHANNELS[melodicIndex++ % MELODIC_CHANNELS.length];
+
+    const events: TrackEvent[] = [
+      { tick: 0, order: 0, data: metaEvent(0x03, writeText(instrument)) },
+      ...(isDrums ? [] : [{ tick: 0, order: 0, data: [0xc0 | channel, getProgramForInstrument(instrument)] }])
+    ];
+    trackNotes.forEach(note => {
+      const midi = isDrums ? getDrumLane(note.pitch).midi : pitchToMidi(note.pitch);
+      if (midi === null || midi < 0 || midi > 127) return;
+      const start = Math.max(0, Math.round(note.time * TICKS_PER_UNIT));
+      const end = start + Math.max(1, Math.round(getNoteLength(note) * TICKS_PER_UNIT));
+      events.push({ tick: start, order: 2, data: [0x90 | channel, midi, DEFAULT_VELOCITY] });
+      events.push({ tick: end, order: 1, data: [0x80 | channel, midi, 0] });
+    });
+    tracks.push(buildTrack(events));
+  });
+
+  const header = buildChunk('MThd', [0x00, 0x01, (tracks.length >> 8) & 0xff, tracks.length & 0xff, (MIDI_PPQ >> 8) & 0xff, MIDI_PPQ & 0xff]);
+  return Uint8Array.from([...header, ...tracks.flat()]);
+};
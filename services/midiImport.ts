@@ -0,0 +1,195 @@
+import { Note, ScoreImportResult } from '../types';
+import { GM_FAMILIES, GM_PROGRAMS } from '../constants';
+import { midiToPitch } from './pitch';
+import { GRID_WARNINGS, placeOnGrid } from './notation';
+import { createImportReport } from './importReport';
+import { DEFAULT_TIMING } from './timing';
+import { isPercussionName } from './drums';
+
+const DRUM_CHANNEL = 9;
+
+interface OpenNote {
+  tick: number;
+  instrument: string;
+}
+
+export const getInstrumentForProgram = (program: number): string => {
+  const exact = Object.entries(GM_PROGRAMS).find(([, value]) => value === program);
+  if (exact) return exact[0].replace(/\b\w/g, c => c.toUpperCase());
+  return GM_FAMILIES[Math.floor(program / 8)] || 'Lead';
+};
+
+const readString = (view: DataView, offset: number, length: number): string => {
+  let text = '';
+  for (let i = 0; i < length; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+};
+
+/**
+ * Reads a format 0 or 1 Standard MIDI File and places its notes on the 16th-note grid.
+ * Each track becomes an instrument named after its track name, or after its GM program.
+ */
+export const parseMidi = (buffer: ArrayBuffer): ScoreImportResult => {
+  const view = new DataView(buffer);
+  const report = createImportReport();
+
+  if (view.byteLength < 14 || readString(view, 0, 4) !== 'MThd') {
+    throw new Error('Not a Standard MIDI File (missing MThd header).');
+  }
+  const headerLength = view.getUint32(4);
+  const format = view.getUint16(8);
+  const trackCount = view.getUint16(10);
+  const division = view.getUint16(12);
+  if (format > 1) throw new Error(`MIDI format ${format} files are not supported. Please export as format 0 or 1.`);
+  if (division & 0x8000) throw new Error('SMPTE-timed MIDI files are not supported.');
+  const ticksPerUnit = division / 4;
+
+  const tempos: { tick: number; bpm: number }[] = [];
+  const meters: { tick: number; meter: [number, number] }[] = [];
+  let title: string | undefined;
+  const notes: Note[] = [];
+
+  let offset = 8 + headerLength;
+  for (let track = 0; track < trackCount && offset + 8 <= view.byteLength; track++) {
+    const chunkId = readString(view, offset, 4);
+    const chunkLength = view.getUint32(offset + 4);
+    const start = offset + 8;
+    const end = Math.min(start + chunkLength, view.byteLength);
+    offset = start + chunkLength;
+    if (chunkId !== 'MTrk') {
+      track--;
+      continue;
+    }
+
+    let position = start;
+    let tick = 0;
+    let runningStatus = 0;
+    let trackName = '';
+    const programs = new Array(16).fill(-1);
+    const open = new Map<number, OpenNote[]>(); // Keyed by channel * 128 + key
+    const rawNotes: { key: number; tick: number; length: number; instrument: string }[] = [];
+
+    const readVarLen = (): number => {
+      let value = 0;
+      let byte = 0;
+      do {
+        byte = view.getUint8(position++);
+        value = (value << 7) | (byte & 0x7f);
+      } while (byte & 0x80 && position < end);
+      return value;
+    };
+
+    const instrumentFor = (channel: number): string => {
+      // Named so the track it lands on is made a percussion track
+      if (channel === DRUM_CHANNEL) return !trackName ? 'Drums' : isPercussionName(trackName) ? trackName : `${trackName} Drums`;
+      if (trackName) return trackName;
+      if (programs[channel] >= 0) return getInstrumentForProgram(programs[channel]);
+      return `Track ${track + 1}`;
+    };
+
+    const closeNote = (channel: number, key: number) => {
+      const stack = open.get(channel * 128 + key);
+      const started = stack?.shift();
+      if (!started) return;
+      rawNotes.push({ key, tick: started.tick, length: tick - started.tick, instrument: started.instrument });
+    };
+
+    try {
+      while (position < end) {
+        tick += readVarLen();
+        let status = view.getUint8(position);
+        if (status & 0x80) {
+          position++;
+        } else if (runningStatus) {
+          status = runningStatus;
+        } else {
+          throw new Error(`Data byte without status in track ${track + 1}`);
+        }
+
+        if (status === 0xff) {
+          runningStatus = 0;
+          const type = view.getUint8(position++);
+          const length = readVarLen();
+          if (type === 0x03) {
+            const name = readString(view, position, length).trim();
+            if (format === 1 && track === 0) title = title || name;
+            else trackName = trackName || name;
+          } else if (type === 0x51 && length === 3) {
+            const micros = (view.getUint8(position) << 16) | (view.getUint8(position + 1) << 8) | view.getUint8(position + 2);
+            tempos.push({ tick, bpm: Math.round((60000000 / micros) * 100) / 100 });
+          } else if (type === 0x58 && length >= 2) {
+            const signature: [number, number] = [view.getUint8(position), Math.pow(2, view.getUint8(position + 1))];
+            meters.push({ tick, meter: signature });
+          } else if (type === 0x2f) {
+            position += length;
+            break;
+          }
+          position += length;
+          continue;
+        }
+
+        if (status === 0xf0 || status === 0xf7) {
+          runningStatus = 0;
+          position += readVarLen();
+          continue;
+        }
+
+        runningStatus = status;
+        const type = status & 0xf0;
+        const channel = status & 0x0f;
+        const data1 = view.getUint8(position++);
+        const data2 = type === 0xc0 || type === 0xd0 ? 0 : view.getUint8(position++);
+
+        if (type === 0x90 && data2 > 0) {
+          const slot = channel * 128 + data1;
+          const stack = open.get(slot) || [];
+          stack.push({ tick, instrument: instrumentFor(channel) });
+          open.set(slot, stack);
+        } else if (type === 0x80 || type === 0x90) {
+          closeNote(channel, data1);
+        } else if (type === 0xc0) {
+          programs[channel] = data1;
+        }
+      }
+    } catch (e) {
+      if (e instanceof RangeError) report.warn(`Track ${track + 1} ends unexpectedly; notes up to that point were kept`);
+      else throw e;
+    }
+
+    let unclosed = 0;
+    open.forEach((stack, slot) => {
+      while (stack.length) {
+        unclosed++;
+        closeNote(Math.floor(slot / 128), slot % 128);
+      }
+    });
+    if (unclosed > 0) report.warn(`Track ${track + 1} had ${unclosed} notes without a note-off; they were ended at the track end`);
+
+    rawNotes.forEach(raw => {
+      const placed = placeOnGrid(midiToPitch(raw.key), raw.instrument, raw.tick / ticksPerUnit, raw.length / ticksPerUnit);
+      if (placed.moved) report.warn(GRID_WARNINGS.moved);
+      if (placed.rounded) report.warn(GRID_WARNINGS.rounded);
+      notes.push(...placed.notes);
+    });
+  }
+
+  tempos.sort((a, b) => a.tick - b.tick);
+  meters.sort((a, b) => a.tick - b.tick);
+  const toUnit = (tick: number) => Math.round(tick / ticksPerUnit);
+  const offGrid = [...tempos, ...meters].filter(e => e.tick > 0 && e.tick % ticksPerUnit !== 0).length;
+  if (offGrid > 0) report.warn(`${offGrid} tempo or meter changes fell between grid steps and were moved to the nearest 16th`);
+
+  const timing = {
+    bpm: tempos[0]?.tick === 0 ? tempos[0].bpm : DEFAULT_TIMING.bpm,
+    meter: meters[0]?.tick === 0 ? meters[0].meter : DEFAULT_TIMING.meter,
+    tempoChanges: tempos
+      .filter(t => t.tick > 0)
+      .map(t => ({ time: toUnit(t.tick), bpm: t.bpm })),
+    meterChanges: meters
+      .filter(m => m.tick > 0)
+      .map(m => ({ time: toUnit(m.tick), numerator: m.meter[0], denominator: m.meter[1] }))
+  };
+
+  notes.sort((a, b) => a.time - b.time);
+  return { notes, warnings: report.list(), title, timing };
+};
@@ -0,0 +1,134 @@
+import { ChatTurnRequest, ModelProvider, ModelReply, ModelTrack, toModelTracks } from './modelProvider';
+import { getScoreEnd } from './notation';
+import { getBarLength } from './timing';
+import { midiToPitch, pitchToMidi } from './pitch';
+import { findDrumLane } from './drums';
+
+// A scripted reply, either fixed or computed from the turn
+export type MockReply = ModelReply | ((request: ChatTurnRequest, turn: number) => ModelReply);
+
+// I–V–vi–IV in C: bass root plus close-voiced chord tones
+const PROGRESSION = [
+  { chord: 'C', numeral: 'I', root: 'C2', tones: ['C3', 'E3', 'G3'] },
+  { chord: 'G', numeral: 'V', root: 'G2', tones: ['G2', 'B2', 'D3'] },
+  { chord: 'Am', numeral: 'vi', root: 'A2', tones: ['A2', 'C3', 'E3'] },
+  { chord: 'F', numeral: 'IV', root: 'F2', tones: ['F2', 'A2', 'C3'] }
+];
+const MOTIF = ['E4', 'G4', 'A4', 'G4', 'E4', 'D4', 'C4', 'D4'];
+const C_MAJOR = new Set([0, 2, 4, 5, 7, 9, 11]);
+
+const upsertTrack = (tracks: ModelTrack[], track: ModelTrack): ModelTrack[] => {
+  const index = tracks.findIndex(t => t.name.toLowerCase() === track.name.toLowerCase());
+  if (index === -1) return [...tracks, track];
+  return tracks.map((t, i) => (i === index ? { ...track, id: t.id } : t));
+};
+
+// A diatonic third below, staying in C major
+const thirdBelow = (pitch: string): string => {
+  const midi = pitchToMidi(pitch);
+  if (midi === null) return pitch;
+  const target = [midi - 3, midi - 4].find(m => C_MAJOR.has(((m % 12) + 12) % 12)) ?? midi - 3;
+  return midiToPitch(target);
+};
+
+// Kick on the downbeats, snare on the backbeats and closed hats on every eighth
+const backbeat = (bars: number, barLength: number): ModelTrack['notes'] =>
+  Array.from({ length: bars }, (_, bar) =>
+    Array.from({ length: Math.floor(barLength / 2) }, (_, step) => {
+      const time = bar * barLength + step * 2;
+      const hits = ['closed-hat'];
+      if (step % 4 === 0) hits.push(step % 8 === 0 ? 'kick' : 'snare');
+      if (bar === 0 && step === 0) hits.push('crash');
+      return hits.map(drum => ({ pitch: midiToPitch(findDrumLane(drum)!.midi), drum, duration: 'sixteenth', time }));
+    }).flat()
+  ).flat();
+
+/**
+ * The default script: answers from the canvas alone so the same canvas and prompt always give
+ * the same reply. Mentions of "drums" add a backbeat, "bass" a root-note bass line, an empty
+ * canvas gets a melody and chords, and anything else adds a harmony a third below the first
+ * pitched track.
+ */
+export const composeMockReply = (request: ChatTurnRequest, turn: number): ModelReply => {
+  const { prompt, notes, tracks, timing } = request.context;
+  const barLength = getBarLength(timing.meter);
+  const bars = Math.max(4, Math.ceil(getScoreEnd(notes) / barLength));
+  let modelTracks = toModelTracks(notes, tracks);
+  let summary: string;
+
+  if (/drum|beat|groove/i.test(prompt)) {
+    modelTracks = upsertTrack(modelTracks, { id: null, name: 'Drums', kind: 'percussion', instrument: 'Drum Kit', notes: backbeat(bars, barLength) });
+    summary = `Added a kick, snare and hi-hat backbeat over ${bars} bars.`;
+  } else if (/bass/i.test(prompt)) {
+    const bass = Array.from({ length: bars }, (_, bar) => ({
+      pitch: PROGRESSION[bar % PROGRESSION.length].root,
+      duration: 'half',
+      time: bar * barLength
+    }));
+    modelTracks = upsertTrack(modelTracks, { id: null, name: 'Bass', kind: 'pitched', instrument: 'Synth Bass', notes: bass });
+    summary = `Added a root-note bass line over ${bars} bars of I–V–vi–IV.`;
+  } else if (notes.length === 0) {
+    const lead = MOTIF.map((pitch, i) => ({ pitch, duration: 'eighth', time: i * 2 }));
+    const pad = Array.from({ length: bars }, (_, bar) =>
+      PROGRESSION[bar % PROGRESSION.length].tones.map(pitch => ({ pitch, duration: 'whole', time: bar * barLength }))
+    ).flat();
+    modelTracks = [
+      { id: null, name: 'Lead', kind: 'pitched', instrument: 'Synth Lead', notes: lead },
+      { id: null, name: 'Pad', kind: 'pitched', instrument: 'Warm Pad', notes: pad }
+    ];
+    summary = 'Sketched a pentatonic motif over a I–V–vi–IV pad.';
+  } else {
+    const source = modelTracks.find(t => t.kind === 'pitched' && t.notes.length > 0);
+    if (source) {
+      const harmony = source.notes.map(n => ({ ...n, pitch: thirdBelow(n.pitch) }));
+      modelTracks = upsertTrack(modelTracks, { id: null, name: 'Harmony', kind: 'pitched', instrument: 'Strings', notes: harmony });
+      summary = `Doubled ${source.name} a diatonic third below on a new Harmony track.`;
+    } else {
+      summary = 'The canvas only has drums; ask for a bass line or clear it to sketch a melody.';
+    }
+  }
+
+  const reply: ModelReply & { harmony?: object[] } = {
+    thoughtProcess: `[Mock turn ${turn + 1}] ${summary} This reply was generated offline from the canvas; no model was called.`,
+    tracks: modelTracks,
+    lyrics: null
+  };
+  // Fill in the chord chart when the harmony tool asks for it
+  if (request.responseSchema.properties?.harmony) {
+    reply.harmony = Array.from({ length: bars }, (_, bar) => {
+      const { chord, numeral } = PROGRESSION[bar % PROGRESSION.length];
+      return { bar: bar + 1, chord, numeral };
+    });
+  }
+  return reply;
+};
+
+const MOCK_STREAM_CHUNKS = 40;
+
+/**
+ * Offline provider for tests and demos. Replies come from `script` in order (the last one
+ * repeats), or from `composeMockReply` when no script is given.
+ */
+export const createMockProvider = (script: MockReply[] = [], delayMs = 300): ModelProvider => {
+  return {
+    id: 'mock',
+    supportsAudio: true,
+    sendMessage: async (request, onText) => {
+      const turn = request.history.length;
+      const entry = script.length ? script[Math.min(turn, script.length - 1)] : composeMockReply;
+      const reply = typeof entry === 'function' ? entry(request, turn) : entry;
+      const text = JSON.stringify(reply);
+      if (!onText) {
+        if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+        return { text };
+      }
+      // Streams the reply in MOCK_STREAM_CHUNKS pieces spread over the delay
+      const size = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+      for (let end = size; end < text.length + size; end += size) {
+        if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs / MOCK_STREAM_CHUNKS));
+        onText(text.slice(0, end));
+      }
+      return { text };
+    }
+  };
+};
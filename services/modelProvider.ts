@@ -0,0 +1,148 @@
+import { AudioClip, ChatExchange, Note, Timing, Track, TrackKind } from '../types';
+import { getDrumLane, inferTrackKind } from './drums';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// How recordings reach the model: as audio, as an on-device transcription, or not at all
+export type HumMode = 'model' | 'prepass' | 'local';
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  model: string;
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+  apiKey: string; // Optional for local servers; Gemini reads its key from the build environment
+  autoRepair: boolean; // Send a follow-up turn when a reply fails validation
+  humMode: HumMode;
+}
+
+/**
+ * Response schema in the OpenAPI subset both Gemini and JSON-schema based servers understand:
+ * lowercase `type`, `nullable` for optional values. Providers convert it to their own dialect.
+ */
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: { [name: string]: ResponseSchema };
+  items?: ResponseSchema;
+  required?: string[];
+  nullable?: boolean;
+  enum?: string[];
+  description?: string;
+}
+
+// Structured view of the turn, for providers (such as the mock) that do not read the prompt text
+export interface ChatTurnContext {
+  prompt: string;
+  style: string;
+  notes: Note[];
+  tracks: Track[];
+  timing: Timing;
+  toolIds: string[];
+}
+
+export interface ChatTurnRequest {
+  systemInstruction: string;
+  history: ChatExchange[]; // Earlier exchanges of the session, oldest first
+  message: string;
+  audio?: AudioClip;
+  responseSchema: ResponseSchema;
+  useSearch: boolean; // Ground the reply in a web search, where the provider can
+  context: ChatTurnContext;
+}
+
+// Shape of the canvas and of replies as exchanged with the model
+export interface ModelTrack {
+  id?: string | null;
+  name: string;
+  kind: TrackKind;
+  instrument: string;
+  notes: { pitch: string; drum?: string; duration: string; time: number }[];
+}
+
+export interface ModelReply {
+  thoughtProcess: string;
+  tracks: ModelTrack[];
+  lyrics: string | null;
+}
+
+// Groups the canvas by track so the model can keep each part's identity across turns
+export const toModelTracks = (notes: Note[], tracks: Track[]): ModelTrack[] => {
+  const known = new Set(tracks.map(t => t.id));
+  const toModelNote = (n: Note) => ({ pitch: n.pitch, duration: String(n.duration), time: n.time });
+  // Drum hits also name their lane, which is what the model is asked to write
+  const toModelHit = (n: Note) => ({ ...toModelNote(n), drum: getDrumLane(n.pitch).id });
+  const modelTracks: ModelTrack[] = tracks.map(track => ({
+    id: track.id,
+    name: track.name,
+    kind: track.kind,
+    instrument: track.instrument,
+    notes: notes.filter(n => n.trackId === track.id).map(track.kind === 'percussion' ? toModelHit : toModelNote)
+  }));
+  notes.filter(n => !n.trackId || !known.has(n.trackId)).forEach(n => {
+    let loose = modelTracks.find(t => !t.id && t.name === n.instrument);
+    if (!loose) {
+      loose = { id: null, name: n.instrument, kind: inferTrackKind(n.instrument), instrument: n.instrument, notes: [] };
+      modelTracks.push(loose);
+    }
+    loose.notes.push(loose.kind === 'percussion' ? toModelHit(n) : toModelNote(n));
+  });
+  return modelTracks;
+};
+
+export interface ChatTurnResult {
+  text: string; // Raw JSON text as returned by the model
+  groundingSources?: any[];
+}
+
+// Called with the whole reply text received so far, each time more of it arrives
+export type StreamListener = (textSoFar: string) => void;
+
+/**
+ * A chat backend. Providers hold no conversation state: every request carries the session's
+ * history, so a conversation survives reloads, errors and switching provider. Given a
+ * listener, a provider streams the reply into it before resolving with the full text.
+ */
+export interface ModelProvider {
+  id: ProviderId;
+  supportsAudio: boolean;
+  sendMessage: (request: ChatTurnRequest, onText?: StreamListener) => Promise<ChatTurnResult>;
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; defaultModel: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini', defaultModel: 'gemini-3-pro-preview', description: 'Google Gemini with search grounding and audio input' },
+  { id: 'openai', label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini', description: 'Any /chat/completions server, including local ones' },
+  { id: 'mock', label: 'Offline mock', defaultModel: 'scripted', description: 'Deterministic scripted replies for tests and demos' }
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  model: 'gemini-3-pro-preview',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  autoRepair: true,
+  humMode: 'model'
+};
+
+export const HUM_MODE_OPTIONS: { id: HumMode; label: string }[] = [
+  { id: 'model', label: 'Send audio to the model' },
+  { id: 'prepass', label: 'Transcribe on device, then ask the model' },
+  { id: 'local', label: 'Transcribe on device only' }
+];
+
+const SETTINGS_STORAGE_KEY = 'musico.providerSettings';
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not persist provider settings", e);
+  }
+};
@@ -0,0 +1,169 @@
+import { AIResponse, AudioClip, ChatExchange, Note, Timing, Track } from '../types';
+import { describeTiming } from "./timing";
+import { DRUM_LANES } from './drums';
+import { ChatTurnRequest, ModelProvider, ProviderSettings, ResponseSchema, toModelTracks } from './modelProvider';
+import { formatIssue, hasResponseErrors, parseModelReply, parsePartialReply, PartialReply, ResponseIssue } from './responseValidator';
+import { buildToolPrompt, collectToolResults, extendSchema, getTools } from './tools';
+import { transcribeRecording } from './pitchTracking';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+
+const MUSIC_RESPONSE_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    thoughtProcess: { type: 'string' },
+    tracks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', nullable: true },
+          name: { type: 'string' },
+          kind: { type: 'string', enum: ['pitched', 'percussion'] },
+          instrument: { type: 'string' },
+          notes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                pitch: { type: 'string', nullable: true },
+                drum: { type: 'string', nullable: true },
+                duration: { type: 'string' },
+                time: { type: 'number' }
+              },
+              required: ['pitch', 'duration', 'time']
+            }
+          }
+        },
+        required: ['name', 'kind', 'instrument', 'notes']
+      }
+    },
+    lyrics: { type: 'string', nullable: true }
+  },
+  required: ['thoughtProcess', 'tracks', 'lyrics']
+};
+
+const buildSystemInstruction = (style: string): string => `You are 'Musico Co-Pilot,' a professional music production agent.
+Your primary specialty is transcribing user audio (humming, singing, whistling) into precise musical sequences and collaborating on polyphonic scores.
+
+Context Awareness:
+- The canvas is organized into tracks. Each track has an 'id', a 'name', an 'instrument' patch and its own 'notes'.
+- Notes have a 'time' property (grid units, where 4 units = 1 quarter note).
+- Each message states the project timing (tempo, meter and any tempo/meter changes at grid units). Write bars that fit that meter.
+- You can create chords by giving multiple notes in a track the same 'time'.
+- 'duration' is one of whole, half, quarter, eighth, sixteenth, optionally prefixed with 'dotted-' or 'triplet-' (e.g. dotted-quarter, triplet-eighth). For any other length give a whole number of ticks as the string (48 ticks = 1 quarter note), e.g. "60" for a quarter tied to a sixteenth.
+- Triplet notes start on thirds of a grid unit (e.g. triplet-eighths at 0, 1.3333, 2.6667).
+- Keep the 'id' of every existing track you return. Use a null 'id' for new tracks.
+- A track's 'kind' is 'pitched' for melodic parts or 'percussion' for a drum kit. On percussion tracks every note is a hit: give its 'drum' (${DRUM_LANES.map(lane => lane.id).join(', ')}), a null 'pitch' and a 'sixteenth' duration. Pitched notes have a null 'drum'.
+
+Audio Input Handling:
+- If the user provides an audio clip, listen carefully for the pitch and rhythm.
+- Transcribe the melody accurately as the 'notes' of a pitched track in 'tracks' (a new one with a null 'id' unless the user names an existing track).
+- Use the 'style' (${style}) to inform the accompaniment or instrumentation.
+
+Output Requirements:
+1. Return valid JSON only.
+2. 'thoughtProcess': Brief musical analysis of the transcription and suggestions.
+3. 'tracks': The complete arrangement, one entry per track. Each note has Pitch (e.g., C4, Eb5), Duration (quarter, dotted-eighth, triplet-eighth, ticks, etc.), and 'time' (grid unit).`;
+
+const createProvider = (settings: ProviderSettings): ModelProvider => {
+  switch (settings.providerId) {
+    case 'openai': return createOpenAiProvider(settings);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider(settings.model);
+  }
+};
+
+// Providers are stateless, so one is kept per settings purely to reuse its client
+let activeProvider: { key: string; provider: ModelProvider } | null = null;
+
+const getProvider = (settings: ProviderSettings): ModelProvider => {
+  const key = JSON.stringify(settings);
+  if (activeProvider?.key !== key) {
+    activeProvider = { key, provider: createProvider(settings) };
+  }
+  return activeProvider.provider;
+};
+
+export const generateMusicChat = async (
+  prompt: string,
+  style: string,
+  selectedToolIds: string[],
+  currentContextNotes: Note[],
+  currentTracks: Track[],
+  timing: Timing,
+  settings: ProviderSettings,
+  history: ChatExchange[],
+  audioData?: AudioClip,
+  onPartial?: (partial: PartialReply) => void
+): Promise<{ response: AIResponse; groundingSources?: any[]; issues: ResponseIssue[]; exchanges: ChatExchange[] }> => {
+  const provider = getProvider(settings);
+
+  // Providers that cannot listen get the on-device transcription instead of the audio
+  let audio = audioData;
+  let transcription = '';
+  if (audioData && (settings.humMode === 'prepass' || !provider.supportsAudio)) {
+    const { notes, warnings } = await transcribeRecording(audioData, timing);
+    if (notes.length === 0) throw new Error(warnings[0] || 'No melody could be transcribed from the recording');
+    audio = undefined;
+    transcription = JSON.stringify(toModelTracks(notes, [])[0].notes);
+  }
+
+  const canvasContext = JSON.stringify({ tracks: toModelTracks(currentContextNotes, currentTracks) });
+  const timingContext = `Project timing: ${describeTiming(timing)}.`;
+  const toolPrompt = buildToolPrompt(selectedToolIds);
+  const contextPrompt = (transcription
+    ? `User hummed a melody, transcribed on-device (pitch tracking may be slightly off) as: ${transcription}. Please clean it up and incorporate it into the score. ${timingContext} Current canvas: ${canvasContext}`
+    : audio
+    ? `User has provided a recording. Please transcribe the melody and incorporate it into the score. ${timingContext} Current canvas: ${canvasContext}`
+    : `${timingContext} Current Canvas State: ${canvasContext}. User Input: ${prompt || "Enhance current composition."}`
+  ) + (toolPrompt ? `\n\n${toolPrompt}` : '');
+
+  try {
+    const request: ChatTurnRequest = {
+      systemInstruction: buildSystemInstruction(style),
+      history,
+      message: contextPrompt,
+      audio,
+      responseSchema: extendSchema(MUSIC_RESPONSE_SCHEMA, selectedToolIds),
+      useSearch: getTools(selectedToolIds).some(tool => tool.useSearch),
+      context: { prompt, style, notes: currentContextNotes, tracks: currentTracks, timing, toolIds: selectedToolIds }
+    };
+    // With a listener the reply is streamed and re-read as it grows
+    const onText = onPartial && ((text: string) => onPartial(parsePartialReply(text)));
+    let result = await provider.sendMessage(request, onText);
+    let validated = parseModelReply(result.text);
+    const exchanges: ChatExchange[] = [{ message: request.message, audio: request.audio, reply: result.text }];
+
+    // One follow-up turn asking the model to correct what could not be used
+    if (hasResponseErrors(validated) && settings.autoRepair) {
+      const problems = validated.issues.filter(issue => issue.severity === 'error').map(issue => `- ${formatIssue(issue)}`);
+      const followUp = `Your last reply could not be used as-is:\n${problems.join('\n')}\nReturn the complete corrected reply as JSON matching the schema.`;
+      result = await provider.sendMessage({ ...request, history: [...history, ...exchanges], audio: undefined, message: followUp }, onText);
+      exchanges.push({ message: followUp, reply: result.text });
+      const retried = parseModelReply(result.text);
+      validated = retried.response ? {
+        response: retried.response,
+        issues: [{ severity: 'repair', path: '', message: `Asked the model to fix ${problems.length} problem${problems.length === 1 ? '' : 's'} in its reply` }, ...retried.issues],
+        fields: retried.fields
+      } : validated;
+    }
+
+    if (!validated.response) {
+      throw new Error(validated.issues.map(formatIssue).join('; '));
+    }
+    const response = {
+      ...validated.response,
+      toolResults: collectToolResults(selectedToolIds, {
+        response: validated.response, fields: validated.fields, notes: currentContextNotes, tracks: currentTracks, timing
+      })
+    };
+    return { response, groundingSources: result.groundingSources, issues: validated.issues, exchanges };
+  } catch (error) {
+    // The session is untouched, so the same conversation can simply be retried
+    console.error(`${provider.id} Production Error:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Studio session error: ${reason}`);
+  }
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { Note, Timing } from '../types';
+import { notesToMusicXml } from './musicXmlExport';
+import { createTrack } from './tracks';
+import { DRUM_LANES, getDrumPitch } from './drums';
+
+// The XML of one part, split into its measures
+const getMeasures = (xml: string, partId: string): string[] => {
+  const part = xml.match(new RegExp(`<part id="${partId}">([\\s\\S]*?)</part>`))![1];
+  return part.split('<measure ').slice(1);
+};
+
+// The <note> elements of a measure, without line breaks
+const getNotes = (measure: string): string[] => (measure.match(/<note>[\s\S]*?<\/note>/g) || []).map(n => n.replace(/\n/g, ''));
+
+describe('notesToMusicXml', () => {
+  it('writes one part per instrument under an escaped title', () => {
+    const xml = notesToMusicXml([
+      { pitch: 'C4', duration: 'quarter', instrument: 'Piano', time: 0 },
+      { pitch: 'C3', duration: 'quarter', instrument: 'Bass & Co', time: 0 }
+    ], { title: 'A & B' });
+    expect(xml).toContain('<work-title>A &amp; B</work-title>');
+    expect(xml.match(/<part-name>[^<]*<\/part-name>/g)).toEqual(['<part-name>Piano</part-name>', '<part-name>Bass &amp; Co</part-name>']);
+    // Low parts get a bass clef
+    expect(getMeasures(xml, 'P1')[0]).toContain('<clef><sign>G</sign><line>2</line></clef>');
+    expect(getMeasures(xml, 'P2')[0]).toContain('<clef><sign>F</sign><line>4</line></clef>');
+  });
+
+  it('writes pitches, chords and rests at twelve divisions a quarter', () => {
+    const xml = notesToMusicXml([
+      { pitch: 'E4', duration: 'quarter', instrument: 'Piano', time: 0 },
+      { pitch: 'G#4', duration: 'quarter', instrument: 'Piano', time: 0 },
+      { pitch: 'Bb4', duration: 'dotted-eighth', instrument: 'Piano', time: 4 }
+    ]);
+    const [measure] = getMeasures(xml, 'P1');
+    expect(measure).toContain('<divisions>12</divisions>');
+    expect(getNotes(measure)).toEqual([
+      '<note><pitch><step>E</step><octave>4</octave></pitch><duration>12</duration><type>quarter</type></note>',
+      '<note><chord/><pitch><step>G</step><alter>1</alter><octave>4</octave></pitch><duration>12</duration><type>quarter</type></note>',
+      '<note><pitch><step>B</step><alter>-1</alter><octave>4</octave></pitch><duration>9</duration><type>eighth</type><dot/></note>',
+      '<note><rest/><duration>9</duration><type>eighth</type><dot/></note>',
+      '<note><rest/><duration>18</duration><type>quarter</type><dot/></note>'
+    ]);
+  });
+
+  it('marks triplets with a time modification', () => {
+    const notes: Note[] = ['C4', 'D4', 'E4'].map((pitch, i) => ({ pitch, duration: 'triplet-eighth', instrument: 'Flute', time: (i * 4) / 3 }));
+    const triplets = getNotes(getMeasures(notesToMusicXml(notes), 'P1')[0]).slice(0, 3);
+    triplets.forEach(note => {
+      expect(note).toContain('<duration>4</duration><type>eighth</type>');
+      expect(note).toContain('<time-modification><actual-notes>3</actual-notes><normal-notes>2</normal-notes></time-modification>');
+    });
+  });
+
+  it('ties notes across bar lines', () => {
+    const xml = notesToMusicXml([{ pitch: 'C5', duration: 'half', instrument: 'Lead', time: 12 }]);
+    const [first, second] = getMeasures(xml, 'P1');
+    expect(getNotes(first)[1]).toContain('<tie type="start"/><type>quarter</type><notations><tied type="start"/></notations>');
+    expect(getNotes(second)[0]).toContain('<tie type="stop"/><type>quarter</type><notations><tied type="stop"/></notations>');
+    expect(second).toContain('<bar-style>light-heavy</bar-style>');
+  });
+
+  it('writes the key, the meter and tempo changes where they fall', () => {
+    const timing: Timing = {
+      bpm: 90,
+      meter: [4, 4],
+      tempoChanges: [{ time: 16, bpm: 60 }],
+      meterChanges: [{ time: 16, numerator: 3, denominator: 4 }]
+    };
+    const xml = notesToMusicXml([
+      { pitch: 'D4', duration: 'whole', instrument: 'Lead', time: 0 },
+      { pitch: 'Eb4', duration: 'dotted-half', instrument: 'Lead', time: 16 }
+    ], { timing, key: 'Eb' });
+    const [first, second] = getMeasures(xml, 'P1');
+    expect(first).toContain('<key><fifths>-3</fifths></key>');
+    expect(first).toContain('<time><beats>4</beats><beat-type>4</beat-type></time>');
+    expect(first).toContain('<sound tempo="90"/>');
+    expect(second).toContain('<time><beats>3</beats><beat-type>4</beat-type></time>');
+    expect(second).toContain('<sound tempo="60"/>');
+  });
+
+  it('lays lyrics syllable by syllable on the melody part', () => {
+    const xml = notesToMusicXml([
+      { pitch: 'C4', duration: 'quarter', instrument: 'Piano', time: 0 },
+      ...['E4', 'F4', 'G4'].map((pitch, i): Note => ({ pitch, duration: 'quarter', instrument: 'Lead Vocal', time: i * 4 }))
+    ], { lyrics: 'hel-lo world' });
+    expect(xml.match(/<part id="P1">[\s\S]*?<\/part>/)![0]).not.toContain('<lyric');
+    const lyrics = getNotes(getMeasures(xml, 'P2')[0]).map(note => note.match(/<syllabic>(\w+)<\/syllabic><text>([^<]*)<\/text>/)?.slice(1));
+    expect(lyrics.slice(0, 3)).toEqual([['begin', 'hel'], ['end', 'lo'], ['single', 'world']]);
+  });
+
+  it('writes percussion tracks as unpitched drum parts on channel 10', () => {
+    const drums = createTrack('Drums', 'Drum Kit', 0, 'percussion');
+    const hit = (id: string, time: number): Note => ({
+      pitch: getDrumPitch(DRUM_LANES.find(lane => lane.id === id)!),
+      duration: 'sixteenth',
+      instrument: drums.name,
+      time,
+      trackId: drums.id
+    });
+    const xml = notesToMusicXml([hit('kick', 0), hit('closed-hat', 0), hit('snare', 4)], { tracks: [drums], key: 'D' });
+    expect(xml).toContain('<score-instrument id="P1-I36"><instrument-name>Kick</instrument-name></score-instrument>');
+    expect(xml).toContain('<midi-instrument id="P1-I42"><midi-channel>10</midi-channel><midi-unpitched>43</midi-unpitched></midi-instrument>');
+    const [measure] = getMeasures(xml, 'P1');
+    expect(measure).toContain('<clef><sign>percussion</sign><line>3</line></clef>');
+    expect(measure).toContain('<key><fifths>0</fifths></key>');
+    expect(measure).not.toContain('<pitch>');
+    expect(getNotes(measure).slice(0, 2)).toEqual([
+      '<note><unpitched><display-step>F</display-step><display-octave>4</display-octave></unpitched><duration>3</duration><instrument id="P1-I36"/><type>16th</type></note>',
+      '<note><chord/><unpitched><display-step>G</display-step><display-octave>5</display-octave></unpitched><duration>3</duration><instrument id="P1-I42"/><type>16th</type><notehead>x</notehead></note>'
+    ]);
+  });
+});
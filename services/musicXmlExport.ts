@@ -0,0 +1,256 @@
+import { Note, Timing, Track } from '../types';
+import { DrumLane, getDrumLane, getPercussionTrackIds } from './drums';
+import { getKeyFifths, parsePitch } from './pitch';
+import { getMedianMidi, getScoreEnd, groupNotesByInstrument, sliceVoice, VoiceEvent } from './notation';
+import { DEFAULT_TIMING, getBarLines, getTempoSegments } from './timing';
+
+export interface MusicXmlExportOptions {
+  title?: string;
+  timing?: Timing;
+  key?: string;
+  lyrics?: string | null;
+  tracks?: Track[]; // Parts of percussion tracks are written as unpitched drum parts
+}
+
+interface Syllable {
+  text: string;
+  syllabic: 'single' | 'begin' | 'middle' | 'end';
+}
+
+// Divisions per quarter note; three divisions per grid unit keep triplets whole
+const DIVISIONS = 12;
+const DIVISIONS_PER_UNIT = DIVISIONS / 4;
+// Written values keyed by their nominal length in grid units
+const NOTE_TYPES: { [length: number]: { type: string; dots: number } } = {
+  16: { type: 'whole', dots: 0 },
+  12: { type: 'half', dots: 1 },
+  8: { type: 'half', dots: 0 },
+  6: { type: 'quarter', dots: 1 },
+  4: { type: 'quarter', dots: 0 },
+  3: { type: 'eighth', dots: 1 },
+  2: { type: 'eighth', dots: 0 },
+  1: { type: '16th', dots: 0 },
+  0.5: { type: '32nd', dots: 0 }
+};
+const TRIPLET_MODIFICATION = '<time-modification><actual-notes>3</actual-notes><normal-notes>2</normal-notes></time-modification>';
+const MELODY_PATTERN = /lead|melody|vocal|voice|sing|solo/i;
+
+// Where each drum sits on a five-line percussion staff; cymbals and hats get x noteheads
+const DRUM_DISPLAY: { [laneId: string]: { step: string; octave: number; cross?: boolean } } = {
+  'crash': { step: 'A', octave: 5, cross: true },
+  'ride': { step: 'F', octave: 5, cross: true },
+  'open-hat': { step: 'G', octave: 5, cross: true },
+  'closed-hat': { step: 'G', octave: 5, cross: true },
+  'pedal-hat': { step: 'D', octave: 4, cross: true },
+  'tambourine': { step: 'B', octave: 5, cross: true },
+  'cowbell': { step: 'A', octave: 5 },
+  'high-tom': { step: 'E', octave: 5 },
+  'mid-tom': { step: 'D', octave: 5 },
+  'low-tom': { step: 'A', octave: 4 },
+  'clap': { step: 'C', octave: 5, cross: true },
+  'snare': { step: 'C', octave: 5 },
+  'rim': { step: 'C', octave: 5, cross: true },
+  'kick': { step: 'F', octave: 4 }
+};
+
+const getInstrumentId = (partId: string, lane: DrumLane): string => `${partId}-I${lane.midi}`;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const splitLyrics = (lyrics: string): Syllable[] =>
+  lyrics
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .flatMap<Syllable>(word => {
+      const parts = word.split('-').filter(part => part.length > 0);
+      if (parts.length <= 1) return [{ text: word.replace(/-/g, ''), syllabic: 'single' }];
+      return parts.map((text, i) => ({
+        text,
+        syllabic: i === 0 ? 'begin' : i === parts.length - 1 ? 'end' : 'middle'
+      }));
+    });
+
+const pickMelodyInstrument = (voices: Map<string, Note[]>): string | null => {
+  const named = [...voices.keys()].find(name => MELODY_PATTERN.test(name));
+  if (named) return named;
+  let best: string | null = null;
+  let bestMedian = -Infinity;
+  voices.forEach((voiceNotes, instrument) => {
+    const median = getMedianMidi(voiceNotes);
+    if (median > bestMedian) {
+      bestMedian = median;
+      best = instrument;
+    }
+  });
+  return best;
+};
+
+// `drumPartId` is set for percussion parts, whose tones are drum keys written as unpitched hits
+const writeEvent = (event: VoiceEvent, barLength: number, syllables: Syllable[] | null, drumPartId: string | null = null): string[] => {
+  const noteType = NOTE_TYPES[event.triplet ? Math.round(event.length * 3) / 2 : event.length];
+  const duration = Math.round(event.length * DIVISIONS_PER_UNIT);
+  const typeXml = noteType
+    ? [`<type>${noteType.type}</type>`, ...Array(noteType.dots).fill('<dot/>'), ...(event.triplet ? [TRIPLET_MODIFICATION] : [])]
+    : [];
+
+  if (event.tones.length === 0) {
+    const wholeBar = event.length === barLength;
+    return [
+      '<note>',
+      wholeBar ? '<rest measure="yes"/>' : '<rest/>',
+      `<duration>${duration}</duration>`,
+      ...(wholeBar ? [] : typeXml),
+      '</note>'
+    ];
+  }
+
+  const lines: string[] = [];
+  event.tones.forEach((tone, index) => {
+    const ties: string[] = [];
+    const tied: string[] = [];
+    if (!tone.isOnset) { ties.push('<tie type="stop"/>'); tied.push('<tied type="stop"/>'); }
+    if (tone.tieToNext) { ties.push('<tie type="start"/>'); tied.push('<tied type="start"/>'); }
+
+    lines.push('<note>');
+    if (index > 0) lines.push('<chord/>');
+    if (drumPartId) {
+      const lane = getDrumLane(tone.pitch);
+      const display = DRUM_DISPLAY[lane.id];
+      lines.push(
+        `<unpitched><display-step>${display.step}</display-step><display-octave>${display.octave}</display-octave></unpitched>`,
+        `<duration>${duration}</duration>`,
+        ...ties,
+        `<instrument id="${getInstrumentId(drumPartId, lane)}"/>`,
+        ...typeXml,
+        ...(display.cross ? ['<notehead>x</notehead>'] : [])
+      );
+      if (tied.length) lines.push('<notations>', ...tied, '</notations>');
+      lines.push('</note>');
+      return;
+    }
+    const parsed = parsePitch(tone.pitch)!;
+    lines.push(
+      '<pitch>',
+      `<step>${parsed.letter}</step>`,
+      ...(parsed.alter !== 0 ? [`<alter>${parsed.alter}</alter>`] : []),
+      `<octave>${parsed.octave}</octave>`,
+      '</pitch>',
+      `<duration>${duration}</duration>`,
+      ...ties,
+      ...typeXml
+    );
+    if (tied.length) lines.push('<notations>', ...tied, '</notations>');
+    if (index === 0 && syllables && tone.isOnset && syllables.length > 0) {
+      const syllable = syllables.shift()!;
+      lines.push(
+        '<lyric number="1">',
+        `<syllabic>${syllable.syllabic}</syllabic>`,
+        `<text>${escapeXml(syllable.text)}</text>`,
+        '</lyric>'
+      );
+    }
+    lines.push('</note>');
+  });
+  return lines;
+};
+
+const writeTempo = (bpm: number, offset: number): string[] => [
+  '<direction placement="above">',
+  `<direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>${Math.round(bpm)}</per-minute></metronome></direction-type>`,
+  ...(offset > 0 ? [`<offset>${Math.round(offset * DIVISIONS_PER_UNIT)}</offset>`] : []),
+  `<sound tempo="${Math.round(bpm)}"/>`,
+  '</direction>'
+];
+
+/**
+ * Serializes the score as partwise MusicXML with one part per instrument. Lyrics are laid
+ * syllable by syllable onto the note onsets of the melody part. Percussion tracks become
+ * unpitched parts on a percussion clef, one score instrument per drum, played on MIDI channel 10.
+ */
+export const notesToMusicXml = (notes: Note[], options: MusicXmlExportOptions = {}): string => {
+  const { title = 'Musico Sketch', timing = DEFAULT_TIMING, key = 'C', lyrics, tracks = [] } = options;
+  const percussionTrackIds = getPercussionTrackIds(tracks);
+  const endTime = Math.max(getScoreEnd(notes), 1);
+  const barLines = getBarLines(timing, endTime);
+  const tempos = getTempoSegments(timing);
+  const voices = groupNotesByInstrument(notes);
+  if (voices.size === 0) voices.set('Lead', []);
+
+  const drumVoices = new Set([...voices.keys()].filter(instrument =>
+    voices.get(instrument)!.some(n => n.trackId && percussionTrackIds.has(n.trackId))
+  ));
+  const pitchedVoices = new Map([...voices].filter(([instrument]) => !drumVoices.has(instrument)));
+  const melody = lyrics ? pickMelodyInstrument(pitchedVoices) : null;
+  const partIds = new Map<string, string>();
+  [...voices.keys()].forEach((instrument, i) => partIds.set(instrument, `P${i + 1}`));
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `<work><work-title>${escapeXml(title)}</work-title></work>`,
+    '<identification><encoding><software>Musico Co-pilot</software></encoding></identification>',
+    '<part-list>'
+  ];
+  voices.forEach((voiceNotes, instrument) => {
+    const partId = partIds.get(instrument)!;
+    lines.push(`<score-part id="${partId}">`, `<part-name>${escapeXml(instrument)}</part-name>`);
+    if (drumVoices.has(instrument)) {
+      const lanes = [...new Set(voiceNotes.map(n => getDrumLane(n.pitch)))].sort((a, b) => a.midi - b.midi);
+      lanes.forEach(lane => lines.push(
+        `<score-instrument id="${getInstrumentId(partId, lane)}"><instrument-name>${escapeXml(lane.name)}</instrument-name></score-instrument>`
+      ));
+      lanes.forEach(lane => lines.push(
+        `<midi-instrument id="${getInstrumentId(partId, lane)}"><midi-channel>10</midi-channel><midi-unpitched>${lane.midi + 1}</midi-unpitched></midi-instrument>`
+      ));
+    }
+    lines.push('</score-part>');
+  });
+  lines.push('</part-list>');
+
+  let isFirstPart = true;
+  voices.forEach((voiceNotes, instrument) => {
+    const events = sliceVoice(voiceNotes, timing, endTime);
+    const syllables = instrument === melody && lyrics ? splitLyrics(lyrics) : null;
+    const drumPartId = drumVoices.has(instrument) ? partIds.get(instrument)! : null;
+    const clef = drumPartId ? { sign: 'percussion', line: 3 } : getMedianMidi(voiceNotes) < 55 ? { sign: 'F', line: 4 } : { sign: 'G', line: 2 };
+    const barCount = events.length ? events[events.length - 1].bar + 1 : 1;
+
+    lines.push(`<part id="${partIds.get(instrument)}">`);
+    for (let bar = 0; bar < barCount; bar++) {
+      const barLine = barLines[bar];
+      const previous = barLines[bar - 1];
+      const time = `<time><beats>${barLine.meter[0]}</beats><beat-type>${barLine.meter[1]}</beat-type></time>`;
+      lines.push(`<measure number="${bar + 1}">`);
+      if (bar === 0) {
+        lines.push(
+          '<attributes>',
+          `<divisions>${DIVISIONS}</divisions>`,
+          `<key><fifths>${drumPartId ? 0 : getKeyFifths(key) ?? 0}</fifths></key>`,
+          time,
+          `<clef><sign>${clef.sign}</sign><line>${clef.line}</line></clef>`,
+          '</attributes>'
+        );
+      } else if (previous.meter[0] !== barLine.meter[0] || previous.meter[1] !== barLine.meter[1]) {
+        lines.push('<attributes>', time, '</attributes>');
+      }
+      // Tempo marks belong to the first part only; later parts inherit them
+      if (isFirstPart) {
+        tempos
+          .filter(t => t.time >= barLine.time && t.time < barLine.time + barLine.length)
+          .forEach(t => lines.push(...writeTempo(t.bpm, t.time - barLine.time)));
+      }
+      events.filter(event => event.bar === bar).forEach(event => {
+        lines.push(...writeEvent(event, barLine.length, syllables, drumPartId));
+      });
+      if (bar === barCount - 1) lines.push('<barline location="right"><bar-style>light-heavy</bar-style></barline>');
+      lines.push('</measure>');
+    }
+    lines.push('</part>');
+    isFirstPart = false;
+  });
+
+  lines.push('</score-partwise>');
+  return lines.join('\n');
+};
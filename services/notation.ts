@@ -0,0 +1,148 @@
+import { Note, Timing } from '../types';
+import { pitchToMidi } from './pitch';
+import { BarLine, getBarLines } from './timing';
+import { durationToUnits, isTripletUnits, unitsToDuration } from './duration';
+
+export interface VoiceTone {
+  pitch: string;
+  tieToNext: boolean; // The same tone continues into the following event
+  isOnset: boolean; // The tone is struck here rather than tied in from the previous event
+}
+
+export interface VoiceEvent {
+  time: number; // Grid units (1 unit = 1/16th), fractional inside triplets
+  length: number;
+  bar: number;
+  triplet: boolean; // Written as 3/2 of `length` under a 3:2 tuplet
+  tones: VoiceTone[]; // Empty means a rest
+}
+
+// Notation is sliced in thirds of a grid unit so triplet values land on whole steps
+const STEPS_PER_UNIT = 3;
+// Lengths (in steps) that can be written as a single, optionally dotted, note value
+const NOTATABLE_LENGTHS = [48, 36, 24, 18, 12, 9, 6, 3];
+// Lengths (in steps) that can be written as a single triplet value
+const TRIPLET_LENGTHS = [32, 16, 8, 4, 2];
+
+export const getNoteLength = (note: Note): number => durationToUnits(note.duration);
+
+export const getNoteEnd = (note: Note): number => note.time + getNoteLength(note);
+
+export const getScoreEnd = (notes: Note[]): number =>
+  notes.reduce((max, note) => Math.max(max, getNoteEnd(note)), 0);
+
+export const GRID_WARNINGS = {
+  moved: 'Some notes were moved onto the 16th-note grid',
+  rounded: 'Some note lengths were rounded to the 16th-note grid'
+};
+
+// Snaps to the triplet grid when the value already lies on it, otherwise to whole grid units
+const snapUnits = (units: number): number => (isTripletUnits(units) ? Math.round(units * 3) / 3 : Math.round(units));
+
+// Quantizes an imported note (time and length in grid units) into a canvas note
+export const placeOnGrid = (pitch: string, instrument: string, time: number, length: number) => {
+  const start = Math.max(0, snapUnits(time));
+  const snapped = snapUnits(length);
+  const units = snapped > 0 ? snapped : 1;
+  return {
+    notes: [{ pitch, duration: unitsToDuration(units), instrument, time: start }] as Note[],
+    moved: Math.abs(start - time) > 1e-6,
+    rounded: Math.abs(units - length) > 1e-6
+  };
+};
+
+export const getMedianMidi = (notes: Note[]): number => {
+  const values = notes.map(n => pitchToMidi(n.pitch)).filter((m): m is number => m !== null).sort((a, b) => a - b);
+  return values.length ? values[Math.floor(values.length / 2)] : 60;
+};
+
+export const groupNotesByInstrument = (notes: Note[]): Map<string, Note[]> => {
+  const groups = new Map<string, Note[]>();
+  notes.forEach(note => {
+    const group = groups.get(note.instrument);
+    if (group) group.push(note);
+    else groups.set(note.instrument, [note]);
+  });
+  return groups;
+};
+
+// Splits a length (in steps) into writable pieces; off the 16th grid only triplet values are used
+const splitLength = (length: number, offsetInBar: number, bar: BarLine): number[] => {
+  const pieces: number[] = [];
+  const beat = Math.max(STEPS_PER_UNIT, bar.beatLength * STEPS_PER_UNIT);
+  const barLength = bar.length * STEPS_PER_UNIT;
+  let remaining = length;
+  let position = offsetInBar;
+  while (remaining > 0) {
+    const onGrid = position % STEPS_PER_UNIT === 0 && remaining % STEPS_PER_UNIT === 0;
+    const candidates = onGrid ? NOTATABLE_LENGTHS : TRIPLET_LENGTHS;
+    // Prefer pieces that land back on the beat so long notes read naturally
+    const piece = candidates.find(l => l <= remaining && l <= barLength && (position % beat === 0 || l < beat || (position + l) % beat === 0))
+      || candidates.find(l => l <= remaining)
+      || 1;
+    pieces.push(piece);
+    remaining -= piece;
+    position += piece;
+  }
+  return pieces;
+};
+
+/**
+ * Slices one voice into bar-aligned events. Overlapping notes become chords, notes that
+ * cross an event boundary (including bar lines) are split and tied, and gaps become rests.
+ */
+export const sliceVoice = (notes: Note[], timing: Timing, endTime?: number): VoiceEvent[] => {
+  // All positions below are in steps (thirds of a grid unit)
+  const spans = notes
+    .map(note => {
+      const start = Math.max(0, Math.round(note.time * STEPS_PER_UNIT));
+      return { pitch: note.pitch, start, end: Math.max(start + 1, Math.round(getNoteEnd(note) * STEPS_PER_UNIT)) };
+    });
+
+  const lastEnd = Math.max(endTime || 0, ...spans.map(s => s.end / STEPS_PER_UNIT), 1);
+  const bars = getBarLines(timing, lastEnd);
+  const lastBar = bars[bars.length - 1];
+  const totalEnd = (lastBar.time + lastBar.length) * STEPS_PER_UNIT;
+
+  const boundaries = new Set<number>([totalEnd]);
+  bars.forEach(bar => boundaries.add(bar.time * STEPS_PER_UNIT));
+  spans.forEach(span => { boundaries.add(span.start); boundaries.add(span.end); });
+  const points = [...boundaries].filter(t => t <= totalEnd).sort((a, b) => a - b);
+
+  const events: VoiceEvent[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    const seen = new Set<number>();
+    const tones: VoiceTone[] = [];
+    spans
+      .filter(span => span.start <= start && span.end >= end)
+      .sort((a, b) => (pitchToMidi(a.pitch) ?? 0) - (pitchToMidi(b.pitch) ?? 0))
+      .forEach(span => {
+        const midi = pitchToMidi(span.pitch);
+        if (midi === null || seen.has(midi)) return;
+        seen.add(midi);
+        tones.push({ pitch: span.pitch, tieToNext: span.end > end, isOnset: span.start === start });
+      });
+
+    const bar = [...bars].reverse().find(b => b.time * STEPS_PER_UNIT <= start) || bars[0];
+    let time = start;
+    const pieces = splitLength(end - start, start - bar.time * STEPS_PER_UNIT, bar);
+    pieces.forEach((piece, p) => {
+      const isLast = p === pieces.length - 1;
+      events.push({
+        time: time / STEPS_PER_UNIT,
+        length: piece / STEPS_PER_UNIT,
+        bar: bar.index,
+        triplet: piece % STEPS_PER_UNIT !== 0,
+        tones: tones.map(tone => ({
+          pitch: tone.pitch,
+          tieToNext: isLast ? tone.tieToNext : true,
+          isOnset: p === 0 && tone.isOnset
+        }))
+      });
+      time += piece;
+    });
+  }
+  return events;
+};
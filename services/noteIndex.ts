@@ -0,0 +1,39 @@
+import { Note } from '../types';
+import { getNoteEnd, getNoteLength } from './notation';
+
+export interface NoteIndex {
+  // Indices (into the indexed array) of the notes sounding anywhere in [start, end)
+  query: (start: number, end: number) => number[];
+}
+
+/**
+ * Notes sorted by start time, so a long score can be asked for the few notes on screen or in
+ * the next scheduling window without walking all of them. Rebuild it whenever the array changes.
+ */
+export const createNoteIndex = (notes: Note[]): NoteIndex => {
+  const order = notes.map((_, i) => i).sort((a, b) => notes[a].time - notes[b].time);
+  const longest = notes.reduce((max, note) => Math.max(max, getNoteLength(note)), 0);
+
+  // First place in `order` whose note starts at or after `time`
+  const lowerBound = (time: number): number => {
+    let low = 0;
+    let high = order.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (notes[order[mid]].time < time) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  const query = (start: number, end: number): number[] => {
+    const found: number[] = [];
+    // A note starting more than the longest note's length before `start` has ended by then
+    for (let k = lowerBound(start - longest); k < order.length && notes[order[k]].time < end; k++) {
+      if (getNoteEnd(notes[order[k]]) > start) found.push(order[k]);
+    }
+    return found;
+  };
+
+  return { query };
+};
@@ -0,0 +1,102 @@
+import { ChatExchange } from '../types';
+import { ModelProvider, ProviderSettings, ResponseSchema, StreamListener } from './modelProvider';
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON Schema spells optional values as a type union rather than `nullable`
+const toJsonSchema = (schema: ResponseSchema): any => {
+  const { nullable, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    type: nullable ? [schema.type, 'null'] : schema.type,
+    ...(properties && {
+      properties: Object.fromEntries(Object.entries(properties).map(([name, value]) => [name, toJsonSchema(value)]))
+    }),
+    ...(items && { items: toJsonSchema(items) })
+  };
+};
+
+// Recordings cannot be sent here; replayed turns that carried one just say so
+const toChatMessages = (exchange: ChatExchange): ChatMessage[] => [
+  { role: 'user', content: exchange.audio ? `${exchange.message}\n(A recording was attached to this message.)` : exchange.message },
+  { role: 'assistant', content: exchange.reply }
+];
+
+// Reads a server-sent event stream of chat completion chunks, passing on the text so far
+const readStream = async (body: ReadableStream<Uint8Array>, onText: StreamListener): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
+  const readLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+    const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+    if (typeof delta === 'string' && delta) {
+      text += delta;
+      onText(text);
+    }
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    lines.forEach(readLine);
+  }
+  // A stream that does not end with a newline still carries its last event
+  buffered += decoder.decode();
+  if (buffered) readLine(buffered);
+  return text;
+};
+
+/**
+ * Talks to any server exposing an OpenAI-style `/chat/completions` endpoint (OpenAI, Ollama,
+ * LM Studio, llama.cpp, vLLM...). The session history is replayed on every turn.
+ */
+export const createOpenAiProvider = (settings: Pick<ProviderSettings, 'model' | 'baseUrl' | 'apiKey'>): ModelProvider => {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai',
+    supportsAudio: false,
+    sendMessage: async (request, onText) => {
+      const userMessage: ChatMessage = { role: 'user', content: request.message };
+      const conversation = request.history.flatMap(toChatMessages);
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          messages: [{ role: 'system', content: request.systemInstruction }, ...conversation, userMessage],
+          stream: !!onText,
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'musico_reply', schema: toJsonSchema(request.responseSchema) }
+          }
+        })
+      });
+
+      if (!response.ok) {
+        const detail = (await response.text()).slice(0, 200);
+        throw new Error(`${endpoint} returned ${response.status}${detail ? `: ${detail}` : ''}`);
+      }
+      if (onText && response.body) {
+        const streamed = await readStream(response.body, onText);
+        if (!streamed) throw new Error(`${endpoint} streamed no message content`);
+        return { text: streamed.trim() };
+      }
+      const data = await response.json();
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') throw new Error(`${endpoint} returned no message content`);
+      return { text: text.trim() };
+    }
+  };
+};
@@ -0,0 +1,67 @@
+// Reads the JSON that has arrived so far from a streamed reply. The text is cut back to the
+// last complete value (or kept up to the end of a string value being written, so text can be
+// shown as it streams) and the open objects and arrays are closed.
+
+type Container = { kind: '{' | '['; expectKey: boolean };
+
+const CLOSERS = { '{': '}', '[': ']' };
+
+const close = (stack: Container[]): string => stack.map(c => CLOSERS[c.kind]).reverse().join('');
+
+/**
+ * Best-effort parse of a JSON prefix. Returns undefined when nothing usable has arrived yet.
+ * The deepest value still being written may be cut short (a string value) or left out.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const source = text.replace(/^\s*```(?:json)?\s*/, '');
+  const stack: Container[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  let safeText = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const top = stack[stack.length - 1];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') {
+        inString = false;
+        if (!stringIsKey) safeText = source.slice(0, i + 1) + close(stack);
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+      stringIsKey = !!top && top.kind === '{' && top.expectKey;
+    } else if (char === '{' || char === '[') {
+      stack.push({ kind: char, expectKey: char === '{' });
+      safeText = source.slice(0, i + 1) + close(stack);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      safeText = source.slice(0, i + 1) + close(stack);
+    } else if (char === ':' && top) {
+      top.expectKey = false;
+    } else if (char === ',' && top) {
+      // Whatever precedes the comma is a complete value, numbers and literals included
+      safeText = source.slice(0, i) + close(stack);
+      if (top.kind === '{') top.expectKey = true;
+    } else if (char === '`') {
+      break; // Closing code fence
+    }
+  }
+
+  let candidate = safeText;
+  if (inString && !stringIsKey) {
+    // A half-written escape sequence is dropped
+    const written = (escaped ? source.slice(0, -1) : source).replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+    candidate = `${written}"${close(stack)}`;
+  }
+  if (!candidate) return undefined;
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+};
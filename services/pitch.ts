@@ -0,0 +1,80 @@
+import { HIGHEST_MIDI, LOWEST_MIDI, PITCH_MAP } from '../constants';
+
+export interface ParsedPitch {
+  letter: string; // Natural step, 'A'..'G'
+  alter: number; // Semitones relative to the natural step
+  octave: number;
+  midi: number;
+}
+
+const PITCH_PATTERN = /^([A-Ga-g])(##|#|x|bb|b)?(-?\d+)$/;
+const ALTER_MAP: { [key: string]: number } = { '': 0, '#': 1, '##': 2, 'x': 2, 'b': -1, 'bb': -2 };
+
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Circle-of-fifths position of each key; positive = sharps, negative = flats
+const MAJOR_KEY_FIFTHS: { [key: string]: number } = {
+  'C': 0, 'G': 1, 'D': 2, 'A': 3, 'E': 4, 'B': 5, 'F#': 6, 'C#': 7,
+  'F': -1, 'Bb': -2, 'Eb': -3, 'Ab': -4, 'Db': -5, 'Gb': -6, 'Cb': -7
+};
+const MINOR_KEY_FIFTHS: { [key: string]: number } = {
+  'A': 0, 'E': 1, 'B': 2, 'F#': 3, 'C#': 4, 'G#': 5, 'D#': 6, 'A#': 7,
+  'D': -1, 'G': -2, 'C': -3, 'F': -4, 'Bb': -5, 'Eb': -6, 'Ab': -7
+};
+const SHARP_ORDER = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+
+export const parsePitch = (pitch: string): ParsedPitch | null => {
+  const match = pitch.trim().match(PITCH_PATTERN);
+  if (!match) return null;
+  const letter = match[1].toUpperCase();
+  const alter = ALTER_MAP[match[2] || ''];
+  const octave = parseInt(match[3], 10);
+  return { letter, alter, octave, midi: (octave + 1) * 12 + PITCH_MAP[letter] + alter };
+};
+
+export const pitchToMidi = (pitch: string): number | null => {
+  const parsed = parsePitch(pitch);
+  return parsed ? parsed.midi : null;
+};
+
+export const midiToPitch = (midi: number, preferFlats = false): string => {
+  const names = preferFlats ? FLAT_NAMES : SHARP_NAMES;
+  return `${names[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+};
+
+// Moves a MIDI note by whole octaves until it lies on the piano roll (C1–C8)
+export const foldIntoRange = (midi: number): number => {
+  let folded = midi;
+  while (folded > HIGHEST_MIDI) folded -= 12;
+  while (folded < LOWEST_MIDI) folded += 12;
+  return folded;
+};
+
+export const getKeyFifths = (key: string): number | null => {
+  const match = key.trim().match(/^([A-Ga-g][#b]?)\s*(m|min|minor|maj|major)?$/i);
+  if (!match) return null;
+  const tonic = match[1][0].toUpperCase() + match[1].slice(1);
+  const isMinor = !!match[2] && match[2].toLowerCase().startsWith('m') && !match[2].toLowerCase().startsWith('maj');
+  const fifths = (isMinor ? MINOR_KEY_FIFTHS : MAJOR_KEY_FIFTHS)[tonic];
+  return fifths === undefined ? null : fifths;
+};
+
+export const getSignatureFromFifths = (fifths: number): { [letter: string]: number } => {
+  const signature: { [letter: string]: number } = { C: 0, D: 0, E: 0, F: 0, G: 0, A: 0, B: 0 };
+  if (fifths > 0) {
+    SHARP_ORDER.slice(0, fifths).forEach(letter => { signature[letter] = 1; });
+  } else {
+    [...SHARP_ORDER].reverse().slice(0, -fifths).forEach(letter => { signature[letter] = -1; });
+  }
+  return signature;
+};
+
+// Maps each natural step to the alteration implied by the key signature
+export const getKeySignature = (key: string): { [letter: string]: number } | null => {
+  const fifths = getKeyFifths(key);
+  return fifths === null ? null : getSignatureFromFifths(fifths);
+};
+
+export const formatPitch = (letter: string, alter: number, octave: number): string =>
+  `${letter}${alter > 0 ? '#'.repeat(alter) : 'b'.repeat(-alter)}${octave}`;
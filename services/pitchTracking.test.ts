@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { decodeWav, transcribeSamples } from './pitchTracking';
+import { DEFAULT_TIMING } from './timing';
+
+const SAMPLE_RATE = 44100;
+
+// A sung-like melody: sine tones with short fades and a breath between notes
+const renderMelody = (tones: { midi: number; seconds: number }[], gap = 0.03): Float32Array => {
+  const total = tones.reduce((sum, tone) => sum + tone.seconds, 0);
+  const samples = new Float32Array(Math.ceil(total * SAMPLE_RATE));
+  let start = 0;
+  tones.forEach(({ midi, seconds }) => {
+    const frequency = 440 * Math.pow(2, (midi - 69) / 12);
+    const length = Math.floor((seconds - gap) * SAMPLE_RATE);
+    const fade = Math.floor(0.01 * SAMPLE_RATE);
+    for (let i = 0; i < length; i++) {
+      const envelope = Math.min(1, i / fade, (length - i) / fade);
+      samples[start + i] = 0.5 * envelope * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+    start += Math.floor(seconds * SAMPLE_RATE);
+  });
+  return samples;
+};
+
+// Writes a PCM WAV file with every channel carrying the same signal
+const encodeWav = (samples: Float32Array, options: { bitDepth: 16 | 24 | 32; float?: boolean; channels?: number }): ArrayBuffer => {
+  const { bitDepth, float = false, channels = 1 } = options;
+  const bytes = bitDepth / 8;
+  const dataSize = samples.length * bytes * channels;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) => [...tag].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, float ? 3 : 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * bytes * channels, true);
+  view.setUint16(32, bytes * channels, true);
+  view.setUint16(34, bitDepth, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  samples.forEach((value, i) => {
+    for (let c = 0; c < channels; c++) {
+      const at = 44 + (i * channels + c) * bytes;
+      if (float) view.setFloat32(at, value, true);
+      else if (bitDepth === 16) view.setInt16(at, Math.round(value * 32767), true);
+      else if (bitDepth === 24) {
+        const int = Math.round(value * 8388607);
+        view.setUint8(at, int & 0xff);
+        view.setUint8(at + 1, (int >> 8) & 0xff);
+        view.setInt8(at + 2, int >> 16);
+      } else view.setInt32(at, Math.round(value * 2147483647), true);
+    }
+  });
+  return buffer;
+};
+
+// At the default 120 BPM a quarter note lasts half a second
+const MELODY = [
+  { midi: 60, seconds: 0.5 },
+  { midi: 62, seconds: 0.5 },
+  { midi: 64, seconds: 0.5 },
+  { midi: 67, seconds: 0.5 },
+  { midi: 72, seconds: 1 }
+];
+
+describe('decodeWav', () => {
+  it('reads 16-bit, 24-bit and float files and mixes stereo down to mono', () => {
+    const samples = renderMelody(MELODY.slice(0, 1));
+    [
+      encodeWav(samples, { bitDepth: 16 }),
+      encodeWav(samples, { bitDepth: 24, channels: 2 }),
+      encodeWav(samples, { bitDepth: 32, float: true })
+    ].forEach(file => {
+      const decoded = decodeWav(file);
+      expect(decoded.sampleRate).toBe(SAMPLE_RATE);
+      expect(decoded.samples.length).toBe(samples.length);
+      expect(Math.max(...decoded.samples.map((v, i) => Math.abs(v - samples[i])))).toBeLessThan(1e-3);
+    });
+  });
+
+  it('rejects files that are not WAV', () => {
+    expect(() => decodeWav(new TextEncoder().encode('ID3 not a wave file').buffer)).toThrow('Not a WAV file');
+  });
+});
+
+describe('transcribeSamples', () => {
+  it('transcribes a sine melody read from a WAV file onto the grid', () => {
+    const { samples, sampleRate } = decodeWav(encodeWav(renderMelody(MELODY), { bitDepth: 16 }));
+    const result = transcribeSamples(samples, sampleRate, DEFAULT_TIMING, { instrument: 'Voice', startUnit: 16 });
+    expect(result.warnings).toEqual([]);
+    expect(result.notes).toEqual([
+      { pitch: 'C4', duration: 'quarter', instrument: 'Voice', time: 16 },
+      { pitch: 'D4', duration: 'quarter', instrument: 'Voice', time: 20 },
+      { pitch: 'E4', duration: 'quarter', instrument: 'Voice', time: 24 },
+      { pitch: 'G4', duration: 'quarter', instrument: 'Voice', time: 28 },
+      { pitch: 'C5', duration: 'half', instrument: 'Voice', time: 32 }
+    ]);
+  });
+
+  it('follows the project tempo', () => {
+    // Half a second is an eighth note at 60 BPM
+    const { samples, sampleRate } = decodeWav(encodeWav(renderMelody(MELODY), { bitDepth: 32, float: true }));
+    const result = transcribeSamples(samples, sampleRate, { ...DEFAULT_TIMING, bpm: 60 });
+    expect(result.notes.map(n => [n.pitch, n.duration, n.time])).toEqual([
+      ['C4', 'eighth', 0], ['D4', 'eighth', 2], ['E4', 'eighth', 4], ['G4', 'eighth', 6], ['C5', 'quarter', 8]
+    ]);
+  });
+
+  it('warns when the recording holds no pitch', () => {
+    const { samples, sampleRate } = decodeWav(encodeWav(new Float32Array(SAMPLE_RATE), { bitDepth: 16 }));
+    const result = transcribeSamples(samples, sampleRate, DEFAULT_TIMING);
+    expect(result.notes).toEqual([]);
+    expect(result.warnings).toEqual(['No sung or hummed pitch was detected']);
+  });
+});
@@ -0,0 +1,282 @@
+import { Note, Timing } from '../types';
+import { foldIntoRange, midiToPitch } from './pitch';
+import { unitsToDuration } from './duration';
+import { secondsToUnit } from './timing';
+
+export interface PitchFrame {
+  time: number; // Seconds, centre of the analysis window
+  f0: number | null; // Hz, null when unvoiced
+  midi: number | null; // Fractional MIDI number
+  rms: number;
+}
+
+export interface PitchSegment {
+  start: number; // Seconds
+  end: number;
+  midi: number; // Median pitch, fractional
+}
+
+export interface TranscriptionOptions {
+  instrument: string;
+  startUnit: number; // Where the first sung note lands on the grid
+  minFrequency: number;
+  maxFrequency: number;
+  threshold: number; // YIN aperiodicity threshold; lower is stricter
+  minNoteSeconds: number;
+}
+
+export interface TranscriptionResult {
+  notes: Note[];
+  warnings: string[];
+}
+
+const DEFAULT_OPTIONS: TranscriptionOptions = {
+  instrument: 'Voice',
+  startUnit: 0,
+  minFrequency: 65, // C2
+  maxFrequency: 1100, // C#6
+  threshold: 0.15,
+  minNoteSeconds: 0.06
+};
+
+// Analysis runs on a decimated signal; hummed fundamentals stay far below its Nyquist limit
+const ANALYSIS_RATE = 11025;
+const WINDOW = 512;
+const HOP = 64;
+const PITCH_CHANGE = 0.75; // Semitones a new note must move away from the current one
+const PITCH_CHANGE_FRAMES = 3;
+const GAP_FRAMES = 2;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const frequencyToMidi = (f: number): number => 69 + 12 * Math.log2(f / 440);
+
+// Box-filtered integer decimation towards the analysis rate
+const decimate = (samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } => {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE));
+  if (factor === 1) return { samples, sampleRate };
+  const out = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    out[i] = sum / factor;
+  }
+  return { samples: out, sampleRate: sampleRate / factor };
+};
+
+/**
+ * YIN fundamental-frequency estimate for one window: cumulative-mean-normalised difference,
+ * first dip under the threshold, parabolic interpolation. Null when no dip is deep enough.
+ */
+const yin = (x: Float32Array, offset: number, sampleRate: number, tauMin: number, tauMax: number, threshold: number): number | null => {
+  const diff = new Float32Array(tauMax + 1);
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let sum = 0;
+    for (let j = 0; j < WINDOW; j++) {
+      const d = x[offset + j] - x[offset + j + tau];
+      sum += d * d;
+    }
+    diff[tau] = sum;
+  }
+
+  const cmnd = new Float32Array(tauMax + 1);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    running += diff[tau];
+    cmnd[tau] = running > 0 ? (diff[tau] * tau) / running : 1;
+  }
+
+  let tau = tauMin;
+  while (tau <= tauMax && cmnd[tau] >= threshold) tau++;
+  if (tau > tauMax) return null;
+  while (tau + 1 <= tauMax && cmnd[tau + 1] < cmnd[tau]) tau++;
+
+  let refined = tau;
+  if (tau > 1 && tau < tauMax) {
+    const a = cmnd[tau - 1], b = cmnd[tau], c = cmnd[tau + 1];
+    const denominator = a - 2 * b + c;
+    if (denominator !== 0) refined = tau + (a - c) / (2 * denominator);
+  }
+  return sampleRate / refined;
+};
+
+export const trackPitch = (input: Float32Array, inputRate: number, options: Partial<TranscriptionOptions> = {}): PitchFrame[] => {
+  const { minFrequency, maxFrequency, threshold } = { ...DEFAULT_OPTIONS, ...options };
+  const { samples, sampleRate } = decimate(input, inputRate);
+  const tauMin = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const tauMax = Math.ceil(sampleRate / minFrequency);
+  const frames: PitchFrame[] = [];
+
+  for (let offset = 0; offset + WINDOW + tauMax < samples.length; offset += HOP) {
+    let energy = 0;
+    for (let j = 0; j < WINDOW; j++) energy += samples[offset + j] ** 2;
+    const rms = Math.sqrt(energy / WINDOW);
+    const f0 = rms > 1e-3 ? yin(samples, offset, sampleRate, tauMin, tauMax, threshold) : null;
+    frames.push({ time: (offset + WINDOW / 2) / sampleRate, f0, midi: f0 ? frequencyToMidi(f0) : null, rms });
+  }
+
+  // Quiet frames relative to the loudest part of the take are breath and room noise
+  const loudest = Math.max(0, ...frames.map(f => f.rms));
+  frames.forEach(frame => {
+    if (frame.rms < loudest * 0.1) { frame.f0 = null; frame.midi = null; }
+  });
+  return frames;
+};
+
+/**
+ * Splits voiced frames into notes. A note ends at a gap in voicing, when the pitch settles
+ * more than PITCH_CHANGE away, or at a sharp rise in level (a re-articulated repeat).
+ */
+export const segmentNotes = (frames: PitchFrame[], minNoteSeconds = DEFAULT_OPTIONS.minNoteSeconds): PitchSegment[] => {
+  const segments: PitchSegment[] = [];
+  const frameSeconds = frames.length > 1 ? frames[1].time - frames[0].time : 0;
+  let current: { start: number; end: number; pitches: number[] } | null = null;
+  let unvoiced = 0;
+
+  const close = () => {
+    if (current && current.end - current.start >= minNoteSeconds) {
+      segments.push({ start: current.start, end: current.end, midi: median(current.pitches) });
+    }
+    current = null;
+  };
+
+  frames.forEach((frame, i) => {
+    if (frame.midi === null) {
+      if (++unvoiced >= GAP_FRAMES) close();
+      return;
+    }
+    unvoiced = 0;
+    const start = frame.time - frameSeconds / 2;
+    const end = frame.time + frameSeconds / 2;
+    if (!current) {
+      current = { start, end, pitches: [frame.midi] };
+      return;
+    }
+
+    const reference = median(current.pitches.slice(-8));
+    const upcoming = frames.slice(i, i + PITCH_CHANGE_FRAMES);
+    const moved = upcoming.length === PITCH_CHANGE_FRAMES
+      && upcoming.every(f => f.midi !== null && Math.abs(f.midi - reference) > PITCH_CHANGE);
+    const before = frames[i - 3];
+    const reattacked = !!before && before.rms > 0 && frame.rms / before.rms > 2 && current.end - current.start >= minNoteSeconds;
+    if (moved || reattacked) {
+      close();
+      current = { start, end, pitches: [frame.midi] };
+    } else {
+      current.end = end;
+      current.pitches.push(frame.midi);
+    }
+  });
+  close();
+  return segments;
+};
+
+/**
+ * Places segments on the 16th grid at the project tempo. The first note lands on `startUnit`,
+ * pitches are rounded to the nearest semitone and kept in C1–C8, and overlaps left by rounding
+ * are trimmed.
+ */
+export const quantizeSegments = (segments: PitchSegment[], timing: Timing, options: Partial<TranscriptionOptions> = {}): Note[] => {
+  const { instrument, startUnit } = { ...DEFAULT_OPTIONS, ...options };
+  if (segments.length === 0) return [];
+  const origin = secondsToUnit(timing, segments[0].start);
+
+  const placed = segments.map(segment => {
+    const midi = foldIntoRange(Math.round(segment.midi));
+    const start = Math.max(0, Math.round(secondsToUnit(timing, segment.start) - origin)) + startUnit;
+    const end = Math.round(secondsToUnit(timing, segment.end) - origin) + startUnit;
+    return { midi, start, end: Math.max(start + 1, end) };
+  });
+
+  const notes: Note[] = [];
+  placed.forEach((note, i) => {
+    const next = placed[i + 1];
+    // Two notes rounded onto the same step: keep the longer-held later one
+    if (next && next.start <= note.start) return;
+    const end = next ? Math.min(note.end, next.start) : note.end;
+    notes.push({ pitch: midiToPitch(note.midi), duration: unitsToDuration(end - note.start), instrument, time: note.start });
+  });
+  return notes;
+};
+
+export const transcribeSamples = (
+  samples: Float32Array,
+  sampleRate: number,
+  timing: Timing,
+  options: Partial<TranscriptionOptions> = {}
+): TranscriptionResult => {
+  const frames = trackPitch(samples, sampleRate, options);
+  const segments = segmentNotes(frames, options.minNoteSeconds);
+  const notes = quantizeSegments(segments, timing, options);
+  const warnings: string[] = [];
+  if (frames.length === 0) warnings.push('Recording is too short to analyse');
+  else if (notes.length === 0) warnings.push('No sung or hummed pitch was detected');
+  return { notes, warnings };
+};
+
+// Mixes any number of channels down to one
+const toMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  channels.forEach(channel => channel.forEach((v, i) => { mono[i] += v / channels.length; }));
+  return mono;
+};
+
+/**
+ * Reads a PCM WAV file (8/16/24/32-bit integer or 32-bit float) without the Web Audio API,
+ * so synthetic fixtures can be transcribed outside the browser.
+ */
+export const decodeWav = (buffer: ArrayBuffer): { samples: Float32Array; sampleRate: number } => {
+  const view = new DataView(buffer);
+  const tag = (offset: number) => String.fromCharCode(...new Uint8Array(buffer, offset, 4));
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') throw new Error('Not a WAV file');
+
+  let format = 1, channels = 1, sampleRate = 44100, bitDepth = 16;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitDepth = view.getUint16(body + 14, true);
+    } else if (id === 'data') {
+      const bytes = bitDepth / 8;
+      const frames = Math.floor(Math.min(size, buffer.byteLength - body) / (bytes * channels));
+      const data = Array.from({ length: channels }, () => new Float32Array(frames));
+      for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < channels; c++) {
+          const at = body + (i * channels + c) * bytes;
+          data[c][i] = format === 3 ? view.getFloat32(at, true)
+            : bitDepth === 8 ? (view.getUint8(at) - 128) / 128
+            : bitDepth === 16 ? view.getInt16(at, true) / 32768
+            : bitDepth === 24 ? ((view.getUint8(at) | (view.getUint8(at + 1) << 8) | (view.getInt8(at + 2) << 16)) / 8388608)
+            : view.getInt32(at, true) / 2147483648;
+        }
+      }
+      return { samples: toMono(data), sampleRate };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no audio data');
+};
+
+// Decodes a base64 recording (as sent to the model) and transcribes it
+export const transcribeRecording = async (
+  audio: { data: string; mimeType: string },
+  timing: Timing,
+  options: Partial<TranscriptionOptions> = {}
+): Promise<TranscriptionResult> => {
+  const bytes = Uint8Array.from(atob(audio.data), c => c.charCodeAt(0));
+  const ctx = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await ctx.decodeAudioData(bytes.buffer);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  return transcribeSamples(toMono(channels), buffer.sampleRate, timing, options);
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createProject, parseProjectFile, readProjectDocument, serializeProject, toProjectDocument } from './project';
+import { DEFAULT_TIMING } from './timing';
+
+// A stored document whose timing has been replaced
+const withTiming = (timing: unknown) => ({ ...JSON.parse(JSON.stringify(toProjectDocument(createProject('Song')))), timing });
+
+describe('project timing on load', () => {
+  it('keeps valid tempo and meter maps', () => {
+    const timing = {
+      bpm: 96,
+      meter: [6, 8],
+      tempoChanges: [{ time: 24, bpm: 140 }],
+      meterChanges: [{ time: 48, numerator: 7, denominator: 16 }]
+    };
+    expect(readProjectDocument(withTiming(timing)).timing).toEqual(timing);
+  });
+
+  it('falls back to the default tempo and meter when they cannot be used', () => {
+    [
+      { bpm: 'fast', meter: [0, 4] },
+      { bpm: -10, meter: [3, 6] },
+      { bpm: Infinity, meter: [2.5, 4] },
+      { bpm: null, meter: 'common' }
+    ].forEach(timing => {
+      const { bpm, meter } = readProjectDocument(withTiming({ ...timing, tempoChanges: [], meterChanges: [] })).timing;
+      expect({ bpm, meter }).toEqual({ bpm: DEFAULT_TIMING.bpm, meter: DEFAULT_TIMING.meter });
+    });
+    expect(readProjectDocument(withTiming(undefined)).timing).toEqual(DEFAULT_TIMING);
+  });
+
+  it('holds tempos to 20-400 BPM', () => {
+    const timing = readProjectDocument(withTiming({ bpm: 1, meter: [4, 4], tempoChanges: [{ time: 16, bpm: 1000 }], meterChanges: [] })).timing;
+    expect(timing.bpm).toBe(20);
+    expect(timing.tempoChanges).toEqual([{ time: 16, bpm: 400 }]);
+  });
+
+  it('drops tempo and meter changes that are not usable', () => {
+    const timing = readProjectDocument(withTiming({
+      bpm: 120,
+      meter: [4, 4],
+      tempoChanges: [{ time: 0, bpm: 90 }, { time: 8, bpm: 0 }, { time: NaN, bpm: 90 }, 'x', { time: 16, bpm: 100 }],
+      meterChanges: [{ time: 16, numerator: 3, denominator: 5 }, { time: -16, numerator: 3, denominator: 4 }, { time: 32, numerator: 5, denominator: 8 }]
+    })).timing;
+    expect(timing.tempoChanges).toEqual([{ time: 16, bpm: 100 }]);
+    expect(timing.meterChanges).toEqual([{ time: 32, numerator: 5, denominator: 8 }]);
+  });
+
+  it('checks the timing saved with each chat turn as well', () => {
+    const document = withTiming(DEFAULT_TIMING);
+    document.sessions[0].turns = [{ id: 'turn-1', prompt: 'Hi', canvas: { notes: [], tracks: [], timing: { bpm: 0, meter: [4, 0] } }, exchanges: [] }];
+    expect(readProjectDocument(document).sessions[0].turns[0].canvas!.timing).toEqual(DEFAULT_TIMING);
+  });
+
+  it('survives a save and reload', () => {
+    const project = { ...createProject('Song'), timing: { bpm: 72, meter: [3, 4] as [number, number], tempoChanges: [], meterChanges: [] } };
+    expect(parseProjectFile(serializeProject(project)).timing).toEqual(project.timing);
+  });
+});
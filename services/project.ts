@@ -0,0 +1,235 @@
+import { AIResponse, ChatExchange, ChatSession, Note, Project, SessionTurn, Timing, Track } from '../types';
+import { MUSIC_STYLES } from '../constants';
+import { clampBpm, DEFAULT_TIMING, isValidBpm, isValidMeter } from './timing';
+import { createTrack } from './tracks';
+import { parseDuration } from './duration';
+import { parsePitch } from './pitch';
+import { createSession, createTurnId } from './chatSession';
+
+// Projects are stored (in IndexedDB and in .musico.json files) as versioned documents.
+// Anything read back goes through the migrations and is then checked field by field, so
+// older or hand-edited files still open.
+
+export const PROJECT_FORMAT = 'musico-project';
+export const PROJECT_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.musico.json';
+
+export interface ProjectDocument extends Project {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+}
+
+/**
+ * MIGRATIONS[n] upgrades a version n + 1 document to version n + 2. Append one whenever the
+ * shape of Project changes and bump PROJECT_VERSION; never edit a migration that has shipped.
+ */
+const MIGRATIONS: ((document: any) => any)[] = [
+  // 1 → 2: the flat chat transcript became a session of turns. Old turns keep their text but
+  // are not replayed to the model, since what was sent to it was never stored.
+  document => {
+    const { messages, ...rest } = document;
+    const turns: any[] = [];
+    (Array.isArray(messages) ? messages : []).forEach((message: any) => {
+      const text = typeof message?.text === 'string' ? message.text : '';
+      const last = turns[turns.length - 1];
+      if (message?.role === 'model' && last && !last.summary) {
+        last.summary = text;
+      } else if (message?.role === 'user' || message?.role === 'model') {
+        const isUser = message.role === 'user';
+        turns.push({
+          id: createTurnId(),
+          createdAt: document.updatedAt,
+          prompt: isUser ? text : '',
+          isAudio: isUser && !!message.isAudio,
+          canvas: null,
+          exchanges: [],
+          summary: isUser ? '' : text
+        });
+      }
+    });
+    const session = { ...createSession('Chat 1'), turns };
+    return { ...rest, sessions: [session], activeSessionId: session.id };
+  }
+];
+
+const DEFAULT_TOOL_IDS = ['harmony_analysis', 'instrumentation', 'rhythm_generation'];
+
+export const createProjectId = (): string => `prj-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createProject = (name = 'Untitled project'): Project => {
+  const now = Date.now();
+  const session = createSession('Chat 1');
+  return {
+    id: createProjectId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    notes: [],
+    tracks: [],
+    timing: DEFAULT_TIMING,
+    style: MUSIC_STYLES[4],
+    selectedTools: DEFAULT_TOOL_IDS,
+    sessions: [session],
+    activeSessionId: session.id,
+    aiResponse: null,
+    groundingSources: []
+  };
+};
+
+export const toProjectDocument = (project: Project): ProjectDocument => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  ...project
+});
+
+const isObject = (value: unknown): value is { [key: string]: any } => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readNotes = (value: unknown): Note[] =>
+  (Array.isArray(value) ? value : []).flatMap((raw): Note[] => {
+    const duration = parseDuration(raw?.duration);
+    if (!isObject(raw) || typeof raw.pitch !== 'string' || !parsePitch(raw.pitch) || !duration || !Number.isFinite(raw.time)) return [];
+    return [{
+      pitch: raw.pitch,
+      duration,
+      instrument: typeof raw.instrument === 'string' ? raw.instrument : 'Lead',
+      time: Math.max(0, raw.time),
+      ...(typeof raw.trackId === 'string' ? { trackId: raw.trackId } : {})
+    }];
+  });
+
+// Missing mixer fields fall back to a new track's defaults
+const readTracks = (value: unknown): Track[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(raw => isObject(raw) && typeof raw.id === 'string' && typeof raw.name === 'string')
+    .map((raw, i) => {
+      const defaults = createTrack(raw.name, typeof raw.instrument === 'string' ? raw.instrument : raw.name, i);
+      return {
+        ...defaults,
+        id: raw.id,
+        kind: raw.kind === 'percussion' ? 'percussion' as const : defaults.kind,
+        color: typeof raw.color === 'string' ? raw.color : defaults.color,
+        mute: raw.mute === true,
+        solo: raw.solo === true,
+        gain: Number.isFinite(raw.gain) ? raw.gain : defaults.gain,
+        pan: Number.isFinite(raw.pan) ? raw.pan : defaults.pan
+      };
+    });
+
+// Anything the clock or the bar lines can't run on falls back to the default tempo and meter
+const readTiming = (value: unknown): Timing => {
+  if (!isObject(value)) return DEFAULT_TIMING;
+  const meter = Array.isArray(value.meter) && isValidMeter(value.meter[0], value.meter[1])
+    ? [value.meter[0], value.meter[1]] as [number, number]
+    : DEFAULT_TIMING.meter;
+  return {
+    bpm: isValidBpm(value.bpm) ? clampBpm(value.bpm) : DEFAULT_TIMING.bpm,
+    meter,
+    tempoChanges: (Array.isArray(value.tempoChanges) ? value.tempoChanges : [])
+      .filter(raw => isObject(raw) && Number.isFinite(raw.time) && raw.time > 0 && isValidBpm(raw.bpm))
+      .map(raw => ({ time: raw.time, bpm: clampBpm(raw.bpm) })),
+    meterChanges: (Array.isArray(value.meterChanges) ? value.meterChanges : [])
+      .filter(raw => isObject(raw) && Number.isFinite(raw.time) && raw.time > 0 && isValidMeter(raw.numerator, raw.denominator))
+      .map(raw => ({ time: raw.time, numerator: raw.numerator, denominator: raw.denominator }))
+  };
+};
+
+const readAudio = (value: unknown) =>
+  isObject(value) && typeof value.data === 'string' && typeof value.mimeType === 'string' ? { data: value.data, mimeType: value.mimeType } : undefined;
+
+const readExchanges = (value: unknown): ChatExchange[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(raw => isObject(raw) && typeof raw.message === 'string' && typeof raw.reply === 'string')
+    .map(raw => {
+      const audio = readAudio(raw.audio);
+      return { message: raw.message, reply: raw.reply, ...(audio ? { audio } : {}) };
+    });
+
+const readTurns = (value: unknown): SessionTurn[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(raw => isObject(raw) && typeof raw.id === 'string')
+    .map(raw => ({
+      id: raw.id,
+      createdAt: Number.isFinite(raw.createdAt) ? raw.createdAt : Date.now(),
+      prompt: typeof raw.prompt === 'string' ? raw.prompt : '',
+      isAudio: raw.isAudio === true,
+      canvas: isObject(raw.canvas)
+        ? { notes: readNotes(raw.canvas.notes), tracks: readTracks(raw.canvas.tracks), timing: readTiming(raw.canvas.timing) }
+        : null,
+      exchanges: readExchanges(raw.exchanges),
+      summary: typeof raw.summary === 'string' ? raw.summary : ''
+    }));
+
+const readSessions = (value: unknown): ChatSession[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(raw => isObject(raw) && typeof raw.id === 'string')
+    .map((raw, i) => ({
+      id: raw.id,
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : `Chat ${i + 1}`,
+      createdAt: Number.isFinite(raw.createdAt) ? raw.createdAt : Date.now(),
+      updatedAt: Number.isFinite(raw.updatedAt) ? raw.updatedAt : Date.now(),
+      turns: readTurns(raw.turns),
+      ...(isObject(raw.branchOf) && typeof raw.branchOf.sessionId === 'string' && typeof raw.branchOf.turnId === 'string'
+        ? { branchOf: { sessionId: raw.branchOf.sessionId, turnId: raw.branchOf.turnId } }
+        : {})
+    }));
+
+const readResponse = (value: unknown): AIResponse | null => {
+  if (!isObject(value) || typeof value.thoughtProcess !== 'string') return null;
+  return {
+    thoughtProcess: value.thoughtProcess,
+    musicalSequence: readNotes(value.musicalSequence),
+    tracks: Array.isArray(value.tracks) ? value.tracks.filter(isObject) as AIResponse['tracks'] : [],
+    lyrics: typeof value.lyrics === 'string' ? value.lyrics : null,
+    toolResults: Array.isArray(value.toolResults) ? value.toolResults.filter(isObject) as AIResponse['toolResults'] : []
+  };
+};
+
+/**
+ * Reads a stored or imported document into a Project, running migrations first. Throws for
+ * anything that is not a Musico project or that comes from a newer version of the app.
+ */
+export const readProjectDocument = (input: unknown): Project => {
+  if (!isObject(input) || input.format !== PROJECT_FORMAT) throw new Error('Not a Musico project file');
+  const version = Number(input.version);
+  if (!Number.isInteger(version) || version < 1) throw new Error('Project file has no valid version');
+  if (version > PROJECT_VERSION) throw new Error(`Project was saved by a newer version of Musico (format ${version})`);
+
+  let document: any = input;
+  for (let from = version; from < PROJECT_VERSION; from++) {
+    document = { ...MIGRATIONS[from - 1](document), version: from + 1 };
+  }
+
+  const defaults = createProject();
+  const sessions = readSessions(document.sessions);
+  if (sessions.length === 0) sessions.push(...defaults.sessions);
+  return {
+    id: typeof document.id === 'string' ? document.id : defaults.id,
+    name: typeof document.name === 'string' && document.name.trim() ? document.name : defaults.name,
+    createdAt: Number.isFinite(document.createdAt) ? document.createdAt : defaults.createdAt,
+    updatedAt: Number.isFinite(document.updatedAt) ? document.updatedAt : defaults.updatedAt,
+    notes: readNotes(document.notes),
+    tracks: readTracks(document.tracks),
+    timing: readTiming(document.timing),
+    style: typeof document.style === 'string' ? document.style : defaults.style,
+    selectedTools: Array.isArray(document.selectedTools) ? document.selectedTools.filter((id: unknown) => typeof id === 'string') : defaults.selectedTools,
+    sessions,
+    activeSessionId: sessions.some(s => s.id === document.activeSessionId) ? document.activeSessionId : sessions[0].id,
+    aiResponse: readResponse(document.aiResponse),
+    groundingSources: Array.isArray(document.groundingSources) ? document.groundingSources : []
+  };
+};
+
+export const serializeProject = (project: Project): string => JSON.stringify(toProjectDocument(project), null, 2);
+
+export const parseProjectFile = (text: string): Project => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+  return readProjectDocument(parsed);
+};
+
+export const getProjectFileName = (project: Project): string =>
+  `${project.name.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '_') || 'project'}${PROJECT_FILE_EXTENSION}`;
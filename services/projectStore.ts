@@ -0,0 +1,93 @@
+import { Project } from '../types';
+import { readProjectDocument, toProjectDocument } from './project';
+
+// Local project library in IndexedDB. Documents are stored with their format version and
+// read back through readProjectDocument, so stored projects migrate the same way files do.
+
+const DB_NAME = 'musico';
+const DB_VERSION = 1;
+const STORE = 'projects';
+const LAST_PROJECT_KEY = 'musico.lastProject';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  noteCount: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private mode, blocked storage) is retried on the next call
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Unreadable entries are left out rather than failing the whole list
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const documents = await run('readonly', store => store.getAll());
+  return documents
+    .flatMap(document => {
+      try {
+        const project = readProjectDocument(document);
+        return [{ id: project.id, name: project.name, updatedAt: project.updatedAt, noteCount: project.notes.length }];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const document = await run('readonly', store => store.get(id));
+  return document ? readProjectDocument(document) : null;
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await run('readwrite', store => store.put(toProjectDocument(project)));
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await loadProject(id);
+  if (project) await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string) => {
+  try {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } catch {
+    // Storage can be unavailable (private mode); the project just won't reopen by itself
+  }
+};
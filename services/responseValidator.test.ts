@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { hasResponseErrors, parseModelReply, parsePartialReply, validateModelReply } from './responseValidator';
+
+const reply = (tracks: unknown[], extra: object = {}) => ({ thoughtProcess: 'Plan', lyrics: null, tracks, ...extra });
+
+// Path and message of every issue, for compact expectations
+const describeIssues = (result: ReturnType<typeof validateModelReply>) => result.issues.map(issue => `${issue.severity} ${issue.path}: ${issue.message}`);
+
+describe('validateModelReply', () => {
+  it('passes a well-formed reply through untouched', () => {
+    const result = validateModelReply(reply([
+      { id: 't1', name: 'Lead', kind: 'pitched', instrument: 'Flute', notes: [{ pitch: 'C4', duration: 'quarter', time: 0 }] }
+    ]));
+    expect(result.issues).toEqual([]);
+    expect(hasResponseErrors(result)).toBe(false);
+    expect(result.response).toEqual({
+      thoughtProcess: 'Plan',
+      musicalSequence: [{ pitch: 'C4', duration: 'quarter', time: 0, instrument: 'Lead', trackId: 't1' }],
+      tracks: [{ id: 't1', name: 'Lead', kind: 'pitched', instrument: 'Flute' }],
+      lyrics: null,
+      toolResults: []
+    });
+  });
+
+  it('repairs loosely written pitches, durations and times', () => {
+    const result = validateModelReply(reply([{ id: null, name: 'Lead', instrument: 'Flute', notes: [
+      { pitch: 'H', duration: '8th', time: '4' },
+      { pitch: 'E#4', duration: 'dotted quarter', time: 5.333 },
+      { pitch: 'C10', duration: 'quarter', time: 8.2 },
+      { pitch: 'D4', duration: 90, time: -2 }
+    ] }]));
+    expect(result.response!.musicalSequence.map(n => [n.pitch, n.duration, n.time])).toEqual([
+      ['B4', 'eighth', 4], ['F4', 'dotted-quarter', 16 / 3], ['C8', 'quarter', 8], ['D4', 90, 0]
+    ]);
+    expect(describeIssues(result)).toEqual([
+      'repair tracks[0].notes[0].pitch: "H" read as B4',
+      'repair tracks[0].notes[0].duration: "8th" read as eighth',
+      'repair tracks[0].notes[0].time: Time "4" read as a number',
+      'repair tracks[0].notes[1].pitch: "E#4" read as F4',
+      'repair tracks[0].notes[1].duration: "dotted quarter" read as dotted-quarter',
+      'repair tracks[0].notes[2].pitch: C10 is outside the C1–C8 range; moved to C8',
+      'repair tracks[0].notes[2].time: Time 8.2 is off the grid; moved to 8',
+      'repair tracks[0].notes[3].duration: Numeric duration 90 read as 90 ticks',
+      'repair tracks[0].notes[3].time: Negative time -2 moved to 0'
+    ]);
+    expect(hasResponseErrors(result)).toBe(false);
+  });
+
+  it('drops unreadable notes and tracks as errors', () => {
+    const result = validateModelReply(reply([
+      { name: 'Lead', instrument: 'Flute', notes: [
+        { pitch: 'X', duration: 'quarter', time: 0 },
+        { pitch: 'D4', duration: 'long', time: 4 },
+        { pitch: 'E4', duration: 'quarter' }
+      ] },
+      'not a track',
+      { name: 'Empty' }
+    ]));
+    expect(result.response!.musicalSequence).toEqual([]);
+    expect(describeIssues(result)).toEqual([
+      'error tracks[0].notes[0].pitch: Unreadable pitch "X"; note dropped',
+      'error tracks[0].notes[1].duration: Unknown duration "long"; note dropped',
+      'error tracks[0].notes[2].time: Missing time; note dropped',
+      'error tracks[1]: Track is not an object; dropped',
+      'error tracks[2].notes: Track has no notes array; dropped'
+    ]);
+    expect(hasResponseErrors(result)).toBe(true);
+  });
+
+  it('reads drum hits by name or GM key on percussion tracks', () => {
+    const result = validateModelReply(reply([{ name: 'Beat', instrument: 'Kit', notes: [
+      { drum: 'snare', duration: 'sixteenth', time: 0 },
+      { pitch: 'C#2', duration: 'sixteenth', time: 1 },
+      { pitch: 'C0', duration: 'sixteenth', time: 2 },
+      { drum: 'gong', duration: 'sixteenth', time: 3 }
+    ] }]));
+    // Named drums make the track percussion even without a kind
+    expect(result.response!.tracks).toEqual([{ id: null, name: 'Beat', kind: 'percussion', instrument: 'Kit' }]);
+    expect(result.response!.musicalSequence.map(n => n.pitch)).toEqual(['D2', 'C#2', 'C2']);
+    expect(describeIssues(result)).toEqual([
+      'repair tracks[0].notes[2].pitch: Drum key C0 read as Kick',
+      'error tracks[0].notes[3].drum: Unknown drum "gong"; hit dropped'
+    ]);
+  });
+
+  it('fills in missing track names, instruments and reply text', () => {
+    const result = validateModelReply({ lyrics: 3, tracks: [{ instrument: 'Cello', kind: 'strings', notes: [] }] });
+    expect(result.response!.thoughtProcess).toBe('');
+    expect(result.response!.lyrics).toBeNull();
+    expect(result.response!.tracks).toEqual([{ id: null, name: 'Cello', kind: 'pitched', instrument: 'Cello' }]);
+    expect(describeIssues(result)).toEqual([
+      'repair thoughtProcess: Missing thought process',
+      'repair lyrics: Lyrics were not text; cleared',
+      'repair tracks[0].name: Missing track name; using "Cello"',
+      'repair tracks[0].kind: Unknown track kind "strings"; using pitched'
+    ]);
+  });
+
+  it('rejects replies without a tracks array', () => {
+    expect(validateModelReply([1])).toEqual({ response: null, issues: [{ severity: 'error', path: '', message: 'Reply is not a JSON object' }], fields: {} });
+    const result = validateModelReply({ thoughtProcess: 'Plan', notes: [] });
+    expect(result.response).toBeNull();
+    expect(describeIssues(result)).toEqual(['error tracks: Reply has no tracks array']);
+  });
+});
+
+describe('parseModelReply', () => {
+  it('reads JSON wrapped in a markdown fence', () => {
+    const result = parseModelReply('Here you go:\n```json\n{"thoughtProcess":"Plan","lyrics":null,"tracks":[]}\n```');
+    expect(result.issues).toEqual([]);
+    expect(result.response?.thoughtProcess).toBe('Plan');
+  });
+
+  it('reports text that is not JSON', () => {
+    const result = parseModelReply('{oops');
+    expect(result.response).toBeNull();
+    expect(result.issues[0].message).toMatch(/^Reply is not valid JSON/);
+  });
+});
+
+describe('parsePartialReply', () => {
+  it('holds back the note still being written', () => {
+    const text = '{"thoughtProcess":"Thinking","tracks":[{"name":"Lead","notes":[{"pitch":"C4","duration":"quarter","time":0},{"pitch":"C';
+    expect(parsePartialReply(text)).toEqual({
+      thoughtProcess: 'Thinking',
+      notes: [{ pitch: 'C4', duration: 'quarter', time: 0, instrument: 'Lead' }]
+    });
+  });
+
+  it('shows earlier tracks in full', () => {
+    const text = '{"thoughtProcess":"","tracks":[{"name":"Lead","notes":[{"pitch":"C4","duration":"quarter","time":0},'
+      + '{"pitch":"D4","duration":"quarter","time":4}]},{"name":"Bass","notes":[{"pitch":"C2","duration":"half","time":0}';
+    expect(parsePartialReply(text).notes.map(n => `${n.instrument} ${n.pitch}`)).toEqual(['Lead C4', 'Lead D4']);
+  });
+
+  it('shows nothing before the tracks arrive', () => {
+    expect(parsePartialReply('{"thoughtProcess":"Sketching a')).toEqual({ thoughtProcess: 'Sketching a', notes: [] });
+    expect(parsePartialReply('')).toEqual({ thoughtProcess: '', notes: [] });
+  });
+});
@@ -0,0 +1,246 @@
+import { AIResponse, Note, NoteDuration, TrackKind, TrackLayout } from '../types';
+import { parseDuration } from './duration';
+import { foldIntoRange, formatPitch, midiToPitch, parsePitch } from './pitch';
+import { findDrumLane, getDrumLane, getDrumPitch, inferTrackKind } from './drums';
+import { parsePartialJson } from './partialJson';
+
+export interface ResponseIssue {
+  severity: 'repair' | 'error'; // Repairs were fixed in place; errors dropped the value they refer to
+  path: string; // Location in the reply, e.g. "tracks[1].notes[4].pitch"
+  message: string;
+}
+
+// What a streaming reply has produced so far
+export interface PartialReply {
+  thoughtProcess: string;
+  notes: Note[];
+}
+
+export interface ValidatedResponse {
+  response: AIResponse | null; // Null when nothing usable could be read from the reply
+  issues: ResponseIssue[];
+  fields: { [field: string]: unknown }; // The parsed reply as sent, for fields beyond AIResponse
+}
+
+// Models round thirds of a unit (1.3333); anything this close to a third is taken as one
+const THIRD_TOLERANCE = 0.01;
+const AWKWARD_SPELLINGS = ['E#', 'B#', 'Cb', 'Fb'];
+
+const isRecord = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const createIssueLog = () => {
+  const issues: ResponseIssue[] = [];
+  return {
+    issues,
+    repair: (path: string, message: string) => issues.push({ severity: 'repair', path, message }),
+    error: (path: string, message: string) => issues.push({ severity: 'error', path, message })
+  };
+};
+
+type IssueLog = ReturnType<typeof createIssueLog>;
+
+/**
+ * Reads a pitch written by the model: German H for B, unicode accidentals and a missing octave
+ * are accepted, odd spellings (E#, Cb, double accidentals) become their plain enharmonic, and
+ * pitches off the piano roll are moved by octaves into C1–C8.
+ */
+const readPitch = (value: unknown, path: string, log: IssueLog): string | null => {
+  if (!isText(value)) {
+    log.error(path, 'Missing pitch; note dropped');
+    return null;
+  }
+  let text = value.trim().replace(/♯/g, '#').replace(/♭/g, 'b').replace(/^[Hh]/, 'B');
+  if (/^[A-Ga-g](##|#|x|bb|b)?$/.test(text)) text += '4';
+  const parsed = parsePitch(text);
+  if (!parsed) {
+    log.error(path, `Unreadable pitch "${value}"; note dropped`);
+    return null;
+  }
+
+  const midi = foldIntoRange(parsed.midi);
+
+  const written = formatPitch(parsed.letter, parsed.alter, parsed.octave);
+  const awkward = Math.abs(parsed.alter) > 1 || AWKWARD_SPELLINGS.includes(written.replace(/-?\d+$/, ''));
+  const pitch = awkward || midi !== parsed.midi ? midiToPitch(midi, parsed.alter < 0) : written;
+  if (midi !== parsed.midi) {
+    log.repair(path, `${value} is outside the C1–C8 range; moved to ${pitch}`);
+  } else if (pitch !== value) {
+    log.repair(path, `"${value}" read as ${pitch}`);
+  }
+  return pitch;
+};
+
+/**
+ * Reads a drum hit: a lane name in 'drum' (kick, snare, hi-hat...) or, failing that, a General
+ * MIDI drum key given as the pitch. Returns the pitch the hit is stored under.
+ */
+const readDrum = (note: { [key: string]: unknown }, path: string, log: IssueLog): string | null => {
+  if (isText(note.drum)) {
+    const lane = findDrumLane(note.drum);
+    if (lane) return getDrumPitch(lane);
+    if (!isText(note.pitch)) {
+      log.error(`${path}.drum`, `Unknown drum "${note.drum}"; hit dropped`);
+      return null;
+    }
+    log.repair(`${path}.drum`, `Unknown drum "${note.drum}"; using its pitch instead`);
+  }
+  const parsed = isText(note.pitch) ? parsePitch(note.pitch.trim()) : null;
+  if (!parsed) {
+    log.error(`${path}.drum`, 'Missing drum; hit dropped');
+    return null;
+  }
+  const lane = getDrumLane(midiToPitch(parsed.midi));
+  if (lane.midi !== parsed.midi) log.repair(`${path}.pitch`, `Drum key ${note.pitch} read as ${lane.name}`);
+  return getDrumPitch(lane);
+};
+
+// Tracks without a valid kind are percussion when they name drums on their notes or in their name
+const readKind = (track: { [key: string]: unknown }, name: string, path: string, log: IssueLog): TrackKind => {
+  if (track.kind === 'pitched' || track.kind === 'percussion') return track.kind;
+  const notes = Array.isArray(track.notes) ? track.notes : [];
+  const kind = notes.some(note => isRecord(note) && isText(note.drum)) ? 'percussion' : inferTrackKind(name);
+  if (track.kind !== undefined && track.kind !== null) log.repair(`${path}.kind`, `Unknown track kind "${String(track.kind)}"; using ${kind}`);
+  return kind;
+};
+
+const readDuration = (value: unknown, path: string, log: IssueLog): NoteDuration | null => {
+  const duration = parseDuration(value);
+  if (duration === null) {
+    log.error(path, value === undefined ? 'Missing duration; note dropped' : `Unknown duration "${String(value)}"; note dropped`);
+    return null;
+  }
+  if (typeof value === 'number') {
+    log.repair(path, `Numeric duration ${value} read as ${duration} ticks`);
+  } else if (String(duration) !== String(value).trim().toLowerCase()) {
+    log.repair(path, `"${value}" read as ${duration}`);
+  }
+  return duration;
+};
+
+// Start times must be non-negative and on the sixteenth or triplet grid
+const readTime = (value: unknown, path: string, log: IssueLog): number | null => {
+  const time = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof time !== 'number' || !Number.isFinite(time)) {
+    log.error(path, value === undefined ? 'Missing time; note dropped' : `Invalid time "${String(value)}"; note dropped`);
+    return null;
+  }
+  if (time < 0) {
+    log.repair(path, `Negative time ${time} moved to 0`);
+    return 0;
+  }
+  const thirds = Math.round(time * 3);
+  const snapped = Math.abs(time * 3 - thirds) < THIRD_TOLERANCE * 3 ? thirds / 3 : Math.round(time);
+  if (Math.abs(snapped - time) > THIRD_TOLERANCE) {
+    log.repair(path, `Time ${time} is off the grid; moved to ${Number(snapped.toFixed(4))}`);
+  } else if (typeof value === 'string') {
+    log.repair(path, `Time "${value}" read as a number`);
+  }
+  return snapped;
+};
+
+/**
+ * Checks a parsed model reply against the response shape and turns it into an `AIResponse`.
+ * Every value that had to be corrected or dropped is listed in `issues`.
+ */
+export const validateModelReply = (raw: unknown): ValidatedResponse => {
+  const log = createIssueLog();
+  if (!isRecord(raw)) {
+    log.error('', 'Reply is not a JSON object');
+    return { response: null, issues: log.issues, fields: {} };
+  }
+  if (!Array.isArray(raw.tracks)) {
+    log.error('tracks', 'Reply has no tracks array');
+    return { response: null, issues: log.issues, fields: raw };
+  }
+
+  let thoughtProcess = '';
+  if (typeof raw.thoughtProcess === 'string') thoughtProcess = raw.thoughtProcess;
+  else log.repair('thoughtProcess', 'Missing thought process');
+
+  let lyrics: string | null = null;
+  if (typeof raw.lyrics === 'string') lyrics = raw.lyrics;
+  else if (raw.lyrics !== null) log.repair('lyrics', 'Lyrics were not text; cleared');
+
+  const tracks: TrackLayout[] = [];
+  const musicalSequence: Note[] = [];
+  raw.tracks.forEach((track, t) => {
+    const trackPath = `tracks[${t}]`;
+    if (!isRecord(track)) {
+      log.error(trackPath, 'Track is not an object; dropped');
+      return;
+    }
+    if (!Array.isArray(track.notes)) {
+      log.error(`${trackPath}.notes`, 'Track has no notes array; dropped');
+      return;
+    }
+    const name = isText(track.name) ? track.name.trim() : isText(track.instrument) ? track.instrument.trim() : `Track ${t + 1}`;
+    if (!isText(track.name)) log.repair(`${trackPath}.name`, `Missing track name; using "${name}"`);
+    const instrument = isText(track.instrument) ? track.instrument.trim() : name;
+    if (!isText(track.instrument)) log.repair(`${trackPath}.instrument`, `Missing instrument; using "${instrument}"`);
+    let id: string | null = null;
+    if (isText(track.id)) id = track.id;
+    else if (track.id !== null && track.id !== undefined) log.repair(`${trackPath}.id`, 'Track id was not a string; treated as a new track');
+    const kind = readKind(track, name, trackPath, log);
+    tracks.push({ id, name, kind, instrument });
+
+    track.notes.forEach((note, n) => {
+      const notePath = `${trackPath}.notes[${n}]`;
+      if (!isRecord(note)) {
+        log.error(notePath, 'Note is not an object; dropped');
+        return;
+      }
+      const pitch = kind === 'percussion' ? readDrum(note, notePath, log) : readPitch(note.pitch, `${notePath}.pitch`, log);
+      const duration = readDuration(note.duration, `${notePath}.duration`, log);
+      const time = readTime(note.time, `${notePath}.time`, log);
+      if (pitch === null || duration === null || time === null) return;
+      musicalSequence.push({ pitch, duration, time, instrument: name, trackId: id || undefined });
+    });
+  });
+
+  return { response: { thoughtProcess, musicalSequence, tracks, lyrics, toolResults: [] }, issues: log.issues, fields: raw };
+};
+
+// Local models often wrap JSON in a markdown fence despite the response format
+const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return (fenced ? fenced[1] : text).trim();
+};
+
+export const parseModelReply = (text: string): ValidatedResponse => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(extractJson(text));
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    return { response: null, issues: [{ severity: 'error', path: '', message: `Reply is not valid JSON (${reason})` }], fields: {} };
+  }
+  return validateModelReply(raw);
+};
+
+/**
+ * What can already be shown of a reply that is still streaming. The last note of the last
+ * track may still be being written (a pitch of "C" could become "C#4"), so it waits until
+ * more arrives.
+ */
+export const parsePartialReply = (text: string): PartialReply => {
+  const raw = parsePartialJson(text);
+  if (!isRecord(raw)) return { thoughtProcess: '', notes: [] };
+  const thoughtProcess = typeof raw.thoughtProcess === 'string' ? raw.thoughtProcess : '';
+  const streamed = raw.tracks;
+  if (!Array.isArray(streamed)) return { thoughtProcess, notes: [] };
+
+  const tracks = streamed.map((track, t) =>
+    t === streamed.length - 1 && isRecord(track) && Array.isArray(track.notes) ? { ...track, notes: track.notes.slice(0, -1) } : track
+  );
+  const { response } = validateModelReply({ ...raw, tracks });
+  return { thoughtProcess, notes: response?.musicalSequence || [] };
+};
+
+export const hasResponseErrors = (result: ValidatedResponse): boolean =>
+  !result.response || result.issues.some(issue => issue.severity === 'error');
+
+export const formatIssue = (issue: ResponseIssue): string =>
+  issue.path ? `${issue.path}: ${issue.message}` : issue.message;
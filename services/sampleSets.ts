@@ -0,0 +1,52 @@
+import { getPatches, InstrumentPatch, registerPatch, SampleZone } from './instruments';
+import { parsePitch } from './pitch';
+
+// User-supplied sample sets. Each file is one recorded note whose pitch is read from its name;
+// the set becomes a patch that repitches the nearest recording for every other note. Sets live
+// in memory only and have to be loaded again after a reload.
+
+export const getSampleSets = (): InstrumentPatch[] => getPatches().filter(patch => patch.voices.some(voice => voice.kind === 'sample'));
+
+/** The pitch a file was recorded at, from names like "Piano_C4.wav", "F#3.mp3" or "cello-60.ogg". */
+export const getSampleRoot = (fileName: string): number | null => {
+  const tokens = fileName.replace(/\.[^.]+$/, '').split(/[\s_.-]+/).reverse();
+  for (const token of tokens) {
+    const parsed = parsePitch(token);
+    if (parsed) return parsed.midi;
+    if (/^\d{2,3}$/.test(token) && Number(token) <= 127) return Number(token);
+  }
+  return null;
+};
+
+const createSampleSetId = (name: string): string =>
+  `samples-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'set'}`;
+
+/**
+ * Decodes the files into a sampler patch named `name` and registers it, so tracks and notes using
+ * that name play the samples. Files whose names carry no pitch are skipped.
+ */
+export const loadSampleSet = async (name: string, files: File[]): Promise<InstrumentPatch> => {
+  const decoder = new OfflineAudioContext(1, 1, 44100);
+  const zones: SampleZone[] = [];
+  for (const file of files) {
+    const midi = getSampleRoot(file.name);
+    if (midi === null) continue;
+    try {
+      zones.push({ midi, buffer: await decoder.decodeAudioData(await file.arrayBuffer()) });
+    } catch {
+      throw new Error(`Could not decode ${file.name}`);
+    }
+  }
+  if (zones.length === 0) throw new Error('No file name gives a pitch, e.g. "C4.wav" or "60.wav"');
+
+  const patch: InstrumentPatch = {
+    id: createSampleSetId(name),
+    name,
+    keywords: [name.toLowerCase()],
+    voices: [{ kind: 'sample', zones: zones.sort((a, b) => a.midi - b.midi) }],
+    envelope: { attack: 0.003, decay: 0.1, sustain: 1, release: 0.25 },
+    gain: 0.5
+  };
+  registerPatch(patch);
+  return patch;
+};
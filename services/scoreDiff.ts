@@ -0,0 +1,89 @@
+import { Note, Track } from '../types';
+
+export type NoteChangeKind = 'added' | 'removed' | 'changed';
+
+export interface NoteChange {
+  id: string; // Stable across re-diffs while the note's track, pitch and start stay the same
+  kind: NoteChangeKind;
+  before?: Note; // Present for removed and changed notes
+  after?: Note; // Present for added and changed notes
+  trackId?: string;
+  instrument: string;
+}
+
+// A reply from the co-pilot waiting to be reviewed against the canvas
+export interface ScoreProposal {
+  label: string;
+  notes: Note[]; // Already bound to tracks
+  tracks: Track[]; // Current tracks plus any the reply introduced
+  rejectedIds: string[];
+}
+
+const identityKey = (note: Note): string =>
+  `${note.trackId || note.instrument}|${note.pitch}|${Math.round(note.time * 3)}`;
+
+// Keys notes by track, pitch and start; repeated identical notes get a running suffix
+const indexNotes = (notes: Note[]): Map<string, Note> => {
+  const index = new Map<string, Note>();
+  const seen = new Map<string, number>();
+  notes.forEach(note => {
+    const key = identityKey(note);
+    const count = seen.get(key) || 0;
+    seen.set(key, count + 1);
+    index.set(count ? `${key}#${count}` : key, note);
+  });
+  return index;
+};
+
+/**
+ * Compares the canvas with a proposed score. A note is "changed" when the same track plays the
+ * same pitch at the same time with a different duration; anything else is an add or a removal.
+ */
+export const diffScores = (current: Note[], proposed: Note[]): NoteChange[] => {
+  const before = indexNotes(current);
+  const after = indexNotes(proposed);
+  const changes: NoteChange[] = [];
+
+  before.forEach((note, key) => {
+    const next = after.get(key);
+    if (!next) {
+      changes.push({ id: `removed:${key}`, kind: 'removed', before: note, trackId: note.trackId, instrument: note.instrument });
+    } else if (next.duration !== note.duration) {
+      changes.push({ id: `changed:${key}`, kind: 'changed', before: note, after: next, trackId: note.trackId, instrument: note.instrument });
+    }
+  });
+  after.forEach((note, key) => {
+    if (!before.has(key)) {
+      changes.push({ id: `added:${key}`, kind: 'added', after: note, trackId: note.trackId, instrument: note.instrument });
+    }
+  });
+  return changes.sort((a, b) => (a.after || a.before)!.time - (b.after || b.before)!.time);
+};
+
+// The canvas with only the accepted changes applied
+export const applyChanges = (current: Note[], changes: NoteChange[], rejectedIds: string[]): Note[] => {
+  const rejected = new Set(rejectedIds);
+  const accepted = changes.filter(c => !rejected.has(c.id));
+  const replaced = new Map<Note, Note | null>();
+  accepted.forEach(change => {
+    if (change.kind === 'removed') replaced.set(change.before!, null);
+    if (change.kind === 'changed') replaced.set(change.before!, change.after!);
+  });
+  const kept = current
+    .map(note => (replaced.has(note) ? replaced.get(note)! : note))
+    .filter((note): note is Note => note !== null);
+  return [...kept, ...accepted.filter(c => c.kind === 'added').map(c => c.after!)];
+};
+
+// Existing tracks stay; tracks introduced by the proposal are kept only if they received notes
+export const mergeProposalTracks = (current: Track[], proposal: Track[], merged: Note[]): Track[] => {
+  const used = new Set(merged.map(n => n.trackId));
+  const known = new Set(current.map(t => t.id));
+  return [...current, ...proposal.filter(t => !known.has(t.id) && used.has(t.id))];
+};
+
+export const summarizeChanges = (changes: NoteChange[]): { [kind in NoteChangeKind]: number } => ({
+  added: changes.filter(c => c.kind === 'added').length,
+  removed: changes.filter(c => c.kind === 'removed').length,
+  changed: changes.filter(c => c.kind === 'changed').length
+});
@@ -0,0 +1,280 @@
+import { Note, Timing, Track } from '../types';
+import { pitchToMidi } from './pitch';
+import { getAudibleTrackIds } from './tracks';
+import { unitToSeconds } from './timing';
+import { getNoteEnd } from './notation';
+import { PatchVoice, resolvePatch, SampleZone } from './instruments';
+import { DrumLane, getDrumLane } from './drums';
+
+export const getFrequencyFromPitch = (pitch: string): number => {
+  const midiNote = pitchToMidi(pitch);
+  if (midiNote === null) return 0;
+  return 440 * Math.pow(2, (midiNote - 69) / 12);
+};
+
+const MIDDLE_C = 261.63;
+
+// PeriodicWaves are tied to the context that created them
+const waveCache = new WeakMap<BaseAudioContext, Map<number[], PeriodicWave>>();
+
+const getWave = (ctx: BaseAudioContext, harmonics: number[]): PeriodicWave => {
+  let waves = waveCache.get(ctx);
+  if (!waves) waveCache.set(ctx, (waves = new Map()));
+  let wave = waves.get(harmonics);
+  if (!wave) {
+    const imag = new Float32Array([0, ...harmonics]);
+    wave = ctx.createPeriodicWave(new Float32Array(imag.length), imag);
+    waves.set(harmonics, wave);
+  }
+  return wave;
+};
+
+// The recorded zone nearest in pitch, repitched by playback rate
+const nearestZone = (zones: SampleZone[], midi: number): SampleZone | undefined =>
+  zones.reduce<SampleZone | undefined>((best, zone) => (!best || Math.abs(zone.midi - midi) < Math.abs(best.midi - midi) ? zone : best), undefined);
+
+// Starts one voice of a patch into `dest` and returns its sources so playback can stop them
+const startVoice = (
+  ctx: BaseAudioContext,
+  dest: AudioNode,
+  voice: PatchVoice,
+  midi: number,
+  freq: number,
+  startTime: number,
+  stopTime: number
+): AudioScheduledSourceNode[] => {
+  const level = ctx.createGain();
+  level.gain.value = voice.level ?? 1;
+  level.connect(dest);
+
+  if (voice.kind === 'sample') {
+    const zone = nearestZone(voice.zones, midi);
+    if (!zone) return [];
+    const source = ctx.createBufferSource();
+    source.buffer = zone.buffer;
+    source.playbackRate.value = Math.pow(2, (midi - zone.midi) / 12);
+    source.connect(level);
+    source.start(startTime);
+    source.stop(stopTime);
+    return [source];
+  }
+
+  const carrier = ctx.createOscillator();
+  if (voice.kind === 'wavetable') carrier.setPeriodicWave(getWave(ctx, voice.harmonics));
+  else carrier.type = voice.kind === 'fm' ? voice.carrier : voice.waveform;
+  const octave = voice.kind === 'oscillator' ? voice.octave ?? 0 : 0;
+  carrier.frequency.setValueAtTime(freq * Math.pow(2, octave), startTime);
+  if (voice.kind !== 'fm' && voice.detune) carrier.detune.setValueAtTime(voice.detune, startTime);
+  carrier.connect(level);
+  carrier.start(startTime);
+  carrier.stop(stopTime);
+  if (voice.kind !== 'fm') return [carrier];
+
+  // Two-operator FM: the modulator swings the carrier frequency, its depth dying away
+  const modulator = ctx.createOscillator();
+  const depth = ctx.createGain();
+  const peakDeviation = voice.index * freq * voice.ratio;
+  modulator.frequency.setValueAtTime(freq * voice.ratio, startTime);
+  depth.gain.setValueAtTime(peakDeviation, startTime);
+  depth.gain.setTargetAtTime(peakDeviation * 0.1, startTime, voice.indexDecay / 3);
+  modulator.connect(depth);
+  depth.connect(carrier.frequency);
+  modulator.start(startTime);
+  modulator.stop(stopTime);
+  return [carrier, modulator];
+};
+
+/**
+ * Plays one note through the patch that `instrument` resolves to: voices → filter → ADSR
+ * amplifier. The note sounds for `dur` seconds and then releases. Works on live and offline
+ * contexts.
+ */
+export const scheduleNote = (
+  ctx: BaseAudioContext,
+  dest: AudioNode,
+  note: Note,
+  startTime: number,
+  dur: number,
+  instrument: string = note.instrument
+): AudioScheduledSourceNode[] => {
+  const midi = pitchToMidi(note.pitch);
+  if (midi === null || dur <= 0) return [];
+  const freq = getFrequencyFromPitch(note.pitch);
+  const patch = resolvePatch(instrument);
+  const { attack, decay, sustain, release } = patch.envelope;
+  const releaseStart = startTime + dur;
+  const stopTime = releaseStart + release * 1.5 + 0.05;
+
+  // Target curves chain from wherever the previous one got to, so short notes release cleanly
+  const amp = ctx.createGain();
+  const attackEnd = startTime + Math.min(attack, dur);
+  amp.gain.setValueAtTime(0, startTime);
+  amp.gain.linearRampToValueAtTime(patch.gain, attackEnd);
+  amp.gain.setTargetAtTime(patch.gain * sustain, attackEnd, Math.max(decay, 0.001) / 3);
+  amp.gain.setTargetAtTime(0, releaseStart, Math.max(release, 0.005) / 3);
+  amp.connect(dest);
+
+  let input: AudioNode = amp;
+  if (patch.filter) {
+    const { type, frequency, q, envelopeAmount = 0, decay: filterDecay = decay, keyTracking = 0 } = patch.filter;
+    const nyquist = ctx.sampleRate / 2 - 100;
+    const base = Math.min(frequency * Math.pow(freq / MIDDLE_C, keyTracking), nyquist);
+    const filter = ctx.createBiquadFilter();
+    filter.type = type;
+    if (q !== undefined) filter.Q.value = q;
+    filter.frequency.setValueAtTime(Math.min(base + envelopeAmount, nyquist), startTime);
+    if (envelopeAmount) filter.frequency.setTargetAtTime(base, startTime, Math.max(filterDecay, 0.001) / 3);
+    filter.connect(amp);
+    input = filter;
+  }
+
+  return patch.voices.flatMap(voice => startVoice(ctx, input, voice, midi, freq, startTime, stopTime));
+};
+
+// One second of white noise per context, looped by the drum voices that need it
+const noiseCache = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const getNoise = (ctx: BaseAudioContext): AudioBuffer => {
+  let buffer = noiseCache.get(ctx);
+  if (!buffer) {
+    buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseCache.set(ctx, buffer);
+  }
+  return buffer;
+};
+
+const DRUM_GAIN = 0.35;
+
+/** Synthesizes one drum hit from its lane's recipe. Hits ring for their own decay, whatever the note length. */
+export const scheduleDrumHit = (ctx: BaseAudioContext, dest: AudioNode, lane: DrumLane, startTime: number): AudioScheduledSourceNode[] => {
+  const { tone, noise, decay, bursts = 1 } = lane.voice;
+  const stopTime = startTime + decay * 1.5 + 0.05;
+  const sources: AudioScheduledSourceNode[] = [];
+
+  // Claps retrigger a few times, 10 ms apart, before the final decay
+  const amp = ctx.createGain();
+  const lastBurst = startTime + (bursts - 1) * 0.01;
+  for (let at = startTime; at < lastBurst - 1e-6; at += 0.01) {
+    amp.gain.setValueAtTime(DRUM_GAIN, at);
+    amp.gain.setTargetAtTime(DRUM_GAIN * 0.2, at, 0.003);
+  }
+  amp.gain.setValueAtTime(DRUM_GAIN, lastBurst);
+  amp.gain.setTargetAtTime(0, lastBurst, decay / 4);
+  amp.connect(dest);
+
+  if (tone) {
+    const osc = ctx.createOscillator();
+    const level = ctx.createGain();
+    osc.type = tone.waveform;
+    osc.frequency.setValueAtTime(tone.from, startTime);
+    if (tone.sweep > 0) osc.frequency.exponentialRampToValueAtTime(tone.to, startTime + tone.sweep);
+    level.gain.value = tone.level;
+    osc.connect(level);
+    level.connect(amp);
+    osc.start(startTime);
+    osc.stop(stopTime);
+    sources.push(osc);
+  }
+  if (noise) {
+    const source = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    const level = ctx.createGain();
+    source.buffer = getNoise(ctx);
+    source.loop = true;
+    filter.type = noise.filter;
+    filter.frequency.value = Math.min(noise.frequency, ctx.sampleRate / 2 - 100);
+    if (noise.q !== undefined) filter.Q.value = noise.q;
+    level.gain.value = noise.level;
+    source.connect(filter);
+    filter.connect(level);
+    level.connect(amp);
+    source.start(startTime);
+    source.stop(stopTime);
+    sources.push(source);
+  }
+  return sources;
+};
+
+// Per-track gain and pan stage feeding the master bus
+export interface TrackBus {
+  input: GainNode;
+  panner: StereoPannerNode;
+}
+
+export const createTrackBus = (ctx: BaseAudioContext, dest: AudioNode, track: Track): TrackBus => {
+  const input = ctx.createGain();
+  const panner = ctx.createStereoPanner();
+  input.gain.value = track.gain;
+  panner.pan.value = track.pan;
+  input.connect(panner);
+  panner.connect(dest);
+  return { input, panner };
+};
+
+// Follows mixer moves made while the bus is playing, gliding briefly to avoid zipper noise
+export const updateTrackBus = (bus: TrackBus, track: Track, time: number) => {
+  bus.input.gain.setTargetAtTime(track.gain, time, 0.01);
+  bus.panner.pan.setTargetAtTime(track.pan, time, 0.01);
+};
+
+// Plays a note the way its track sounds: a drum hit on percussion tracks, otherwise its patch
+export const scheduleTrackNote = (
+  ctx: BaseAudioContext,
+  dest: AudioNode,
+  note: Note,
+  track: Track | undefined,
+  startTime: number,
+  dur: number
+): AudioScheduledSourceNode[] =>
+  track?.kind === 'percussion'
+    ? scheduleDrumHit(ctx, dest, getDrumLane(note.pitch), startTime)
+    : scheduleNote(ctx, dest, note, startTime, dur, track?.instrument);
+
+// Metronome tick: a short sine blip, higher and louder on the downbeat
+export const scheduleClick = (ctx: BaseAudioContext, dest: AudioNode, time: number, accent: boolean): AudioScheduledSourceNode => {
+  const osc = ctx.createOscillator();
+  const amp = ctx.createGain();
+  osc.frequency.value = accent ? 1760 : 1320;
+  amp.gain.setValueAtTime(accent ? 0.5 : 0.3, time);
+  amp.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+  osc.connect(amp);
+  amp.connect(dest);
+  osc.start(time);
+  osc.stop(time + 0.06);
+  return osc;
+};
+
+/**
+ * Schedules every audible note through its track bus, honoring mute/solo. Notes without a
+ * known track go straight to `dest`. `startTime` is the context time of grid position 0; note
+ * times are converted to seconds through the timing map, so tempo changes are followed.
+ */
+export const scheduleArrangement = (
+  ctx: BaseAudioContext,
+  dest: AudioNode,
+  notes: Note[],
+  tracks: Track[],
+  startTime: number,
+  timing: Timing
+): AudioScheduledSourceNode[] => {
+  const audible = getAudibleTrackIds(tracks);
+  const buses = new Map<string, TrackBus>();
+  const trackById = new Map(tracks.map(t => [t.id, t]));
+  const sources: AudioScheduledSourceNode[] = [];
+
+  notes.forEach(note => {
+    const track = note.trackId ? trackById.get(note.trackId) : undefined;
+    if (track && !audible.has(track.id)) return;
+    let bus = dest;
+    if (track) {
+      if (!buses.has(track.id)) buses.set(track.id, createTrackBus(ctx, dest, track));
+      bus = buses.get(track.id)!.input;
+    }
+    const noteStart = unitToSeconds(timing, note.time);
+    const noteEnd = unitToSeconds(timing, getNoteEnd(note));
+    sources.push(...scheduleTrackNote(ctx, bus, note, track, startTime + noteStart, noteEnd - noteStart));
+  });
+  return sources;
+};
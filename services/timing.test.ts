@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Timing } from '../types';
+import { clampBpm, DEFAULT_TIMING, getBarLines, getBpmAt, getTempoSegments, isValidBpm, isValidMeter, unitToSeconds } from './timing';
+
+describe('timing validation', () => {
+  it('accepts only finite, positive tempos', () => {
+    expect([120, 0.5, 400].every(isValidBpm)).toBe(true);
+    expect([0, -60, NaN, Infinity, '120', null].some(isValidBpm)).toBe(false);
+  });
+
+  it('holds tempos to the editor range', () => {
+    expect([1, 20, 96, 400, 900].map(clampBpm)).toEqual([20, 20, 96, 400, 400]);
+  });
+
+  it('accepts whole beats over a power-of-two note value', () => {
+    expect(isValidMeter(4, 4)).toBe(true);
+    expect(isValidMeter(7, 8)).toBe(true);
+    expect(isValidMeter(5, 1)).toBe(true);
+    expect(isValidMeter(0, 4)).toBe(false);
+    expect(isValidMeter(3.5, 4)).toBe(false);
+    expect(isValidMeter(3, 6)).toBe(false);
+    expect(isValidMeter(3, 0)).toBe(false);
+    expect(isValidMeter(NaN, 4)).toBe(false);
+    expect(isValidMeter('3', 4)).toBe(false);
+  });
+});
+
+describe('broken timing at runtime', () => {
+  const broken = {
+    bpm: Infinity,
+    meter: [0, 4],
+    tempoChanges: [{ time: 16, bpm: NaN }, { time: Infinity, bpm: 90 }, { time: 32, bpm: 60 }],
+    meterChanges: [{ time: 32, numerator: 3, denominator: 3 }, { time: 48, numerator: 3, denominator: 4 }]
+  } as unknown as Timing;
+
+  it('walks bar lines in the default meter instead of hanging', () => {
+    const bars = getBarLines(broken, 64);
+    expect(bars.map(bar => [bar.time, bar.length])).toEqual([[0, 16], [16, 16], [32, 16], [48, 12], [60, 12]]);
+    expect(bars[0].meter).toEqual(DEFAULT_TIMING.meter);
+  });
+
+  it('runs the clock at the default tempo and skips unusable changes', () => {
+    expect(getTempoSegments(broken)).toEqual([{ time: 0, bpm: 120 }, { time: 32, bpm: 60 }]);
+    expect(getBpmAt(broken, 20)).toBe(120);
+    expect(unitToSeconds(broken, 32)).toBe(4);
+    expect(unitToSeconds(broken, 36)).toBe(5);
+  });
+});
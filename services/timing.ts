@@ -0,0 +1,125 @@
+import { Timing } from '../types';
+
+export const DEFAULT_TIMING: Timing = {
+  bpm: 120,
+  meter: [4, 4],
+  tempoChanges: [],
+  meterChanges: []
+};
+
+export interface BarLine {
+  index: number; // 0-based bar number
+  time: number; // Grid units
+  length: number;
+  beatLength: number;
+  meter: [number, number];
+}
+
+// The tempo range the editor offers and loaded projects are held to
+export const MIN_BPM = 20;
+export const MAX_BPM = 400;
+
+export const clampBpm = (bpm: number): number => Math.min(MAX_BPM, Math.max(MIN_BPM, bpm));
+
+// A tempo the clock can run at: finite and above zero
+export const isValidBpm = (bpm: unknown): bpm is number => typeof bpm === 'number' && Number.isFinite(bpm) && bpm > 0;
+
+// A whole number of beats over a power-of-two note value, as notation and MIDI require
+export const isValidMeter = (numerator: unknown, denominator: unknown): boolean =>
+  Number.isInteger(numerator) && (numerator as number) > 0 &&
+  Number.isInteger(denominator) && (denominator as number) > 0 && ((denominator as number) & ((denominator as number) - 1)) === 0;
+
+export const getBarLength = (meter: [number, number]): number => (16 * meter[0]) / meter[1];
+
+// Tempo segments in grid order, always starting with the base tempo at 0
+export const getTempoSegments = (timing: Timing): { time: number; bpm: number }[] => {
+  const changes = timing.tempoChanges
+    .filter(c => Number.isFinite(c.time) && c.time > 0 && isValidBpm(c.bpm))
+    .sort((a, b) => a.time - b.time);
+  return [{ time: 0, bpm: isValidBpm(timing.bpm) ? timing.bpm : DEFAULT_TIMING.bpm }, ...changes];
+};
+
+export const getMeterSegments = (timing: Timing): { time: number; meter: [number, number] }[] => {
+  const changes = timing.meterChanges
+    .filter(c => Number.isFinite(c.time) && c.time > 0 && isValidMeter(c.numerator, c.denominator))
+    .sort((a, b) => a.time - b.time)
+    .map(c => ({ time: c.time, meter: [c.numerator, c.denominator] as [number, number] }));
+  // A broken base meter would give zero-length bars, so bar walks never end
+  const meter = isValidMeter(timing.meter?.[0], timing.meter?.[1]) ? timing.meter : DEFAULT_TIMING.meter;
+  return [{ time: 0, meter }, ...changes];
+};
+
+export const getBpmAt = (timing: Timing, unit: number): number => {
+  const segments = getTempoSegments(timing);
+  let bpm = segments[0].bpm;
+  segments.forEach(s => { if (s.time <= unit) bpm = s.bpm; });
+  return bpm;
+};
+
+export const unitToSeconds = (timing: Timing, unit: number): number => {
+  const segments = getTempoSegments(timing);
+  let seconds = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const start = segments[i].time;
+    const end = i + 1 < segments.length ? segments[i + 1].time : Infinity;
+    if (unit <= start) break;
+    seconds += (Math.min(unit, end) - start) * (60 / segments[i].bpm / 4);
+  }
+  return seconds;
+};
+
+export const secondsToUnit = (timing: Timing, seconds: number): number => {
+  const segments = getTempoSegments(timing);
+  let elapsed = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const secondsPerUnit = 60 / segments[i].bpm / 4;
+    const end = i + 1 < segments.length ? segments[i + 1].time : Infinity;
+    const segmentSeconds = (end - segments[i].time) * secondsPerUnit;
+    if (seconds < elapsed + segmentSeconds) return segments[i].time + (seconds - elapsed) / secondsPerUnit;
+    elapsed += segmentSeconds;
+  }
+  return 0;
+};
+
+/**
+ * Bar lines from the start of the piece up to (and covering) `endUnit`. A meter change
+ * that falls inside a bar cuts that bar short and starts a new bar at the change.
+ */
+export const getBarLines = (timing: Timing, endUnit: number): BarLine[] => {
+  const segments = getMeterSegments(timing);
+  const bars: BarLine[] = [];
+  let time = 0;
+  let segmentIndex = 0;
+  while (time < endUnit || bars.length === 0) {
+    while (segmentIndex + 1 < segments.length && segments[segmentIndex + 1].time <= time) segmentIndex++;
+    const meter = segments[segmentIndex].meter;
+    const nextChange = segmentIndex + 1 < segments.length ? segments[segmentIndex + 1].time : Infinity;
+    const length = Math.min(getBarLength(meter), nextChange - time);
+    bars.push({ index: bars.length, time, length, beatLength: 16 / meter[1], meter });
+    time += length;
+  }
+  return bars;
+};
+
+export const getBarAt = (timing: Timing, unit: number): BarLine => {
+  const bars = getBarLines(timing, unit + 1);
+  return [...bars].reverse().find(bar => bar.time <= unit) || bars[0];
+};
+
+// Grid position where the given 0-based bar starts
+export const getBarStart = (timing: Timing, barIndex: number): number => {
+  let end = 16 * (barIndex + 1);
+  let bars = getBarLines(timing, end);
+  while (bars.length <= barIndex) {
+    end *= 2;
+    bars = getBarLines(timing, end);
+  }
+  return bars[barIndex].time;
+};
+
+export const describeTiming = (timing: Timing): string => {
+  const parts = [`${timing.bpm} BPM`, `${timing.meter[0]}/${timing.meter[1]} time`];
+  getTempoSegments(timing).slice(1).forEach(c => parts.push(`tempo ${c.bpm} BPM from grid unit ${c.time}`));
+  getMeterSegments(timing).slice(1).forEach(c => parts.push(`meter ${c.meter[0]}/${c.meter[1]} from grid unit ${c.time}`));
+  return parts.join(', ');
+};
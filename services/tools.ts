@@ -0,0 +1,169 @@
+import { AIResponse, Note, Timing, Tool, ToolResult, Track } from '../types';
+import { ResponseSchema } from './modelProvider';
+import { getBarAt } from './timing';
+import { getMedianMidi } from './notation';
+import { analyzeHarmony } from './harmony';
+
+export interface ToolContext {
+  response: AIResponse;
+  fields: { [field: string]: unknown }; // The parsed reply, including the fields tools asked for
+  notes: Note[]; // Canvas the request was made against
+  tracks: Track[];
+  timing: Timing;
+}
+
+/**
+ * A capability the user can switch on for a turn. Enabled tools add their instruction to the
+ * message, may ask for extra reply fields, and may analyse the reply locally.
+ */
+export interface AgentTool extends Tool {
+  prompt: string; // Added to the turn while the tool is enabled
+  promptWhenDisabled?: string; // Added to the turn while it is not
+  useSearch?: boolean; // Needs the provider's web search
+  schema?: { [field: string]: ResponseSchema }; // Reply fields the tool asks the model for
+  formatFields?: (fields: { [field: string]: unknown }) => string[]; // Renders those fields for display
+  execute?: (context: ToolContext) => string[]; // Local analysis of the reply
+}
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+const isRhythmTrack = (name: string): boolean => /drum|perc|kit|bass/i.test(name);
+
+// Counts sung syllables roughly: vowel groups per word, at least one per word
+const countSyllables = (text: string): number => {
+  const words: string[] = text.toLowerCase().match(/[a-z']+/g) || [];
+  return words.reduce((sum, word) => sum + Math.max(1, word.replace(/e$/, '').match(/[aeiouy]+/g)?.length || 0), 0);
+};
+
+export const AVAILABLE_TOOLS: AgentTool[] = [
+  {
+    id: "harmony_analysis",
+    name: "Analyze Harmony",
+    description: "Analyze and suggest chord progressions that fit the motif.",
+    prompt: "Harmony analysis: fit the parts to a clear chord progression and list the chord of every bar in 'harmony' (chord symbol plus Roman numeral in the key).",
+    schema: {
+      harmony: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            bar: { type: 'integer' },
+            chord: { type: 'string' },
+            numeral: { type: 'string', nullable: true }
+          },
+          required: ['bar', 'chord']
+        }
+      }
+    },
+    formatFields: fields => asArray(fields.harmony)
+      .filter(entry => entry && typeof entry.chord === 'string')
+      .map(entry => `Bar ${entry.bar}: ${entry.chord}${entry.numeral ? ` (${entry.numeral})` : ''}`),
+    // Cross-checks the model's chart against what the notes actually spell
+    execute: ({ response, timing }) => {
+      // Reply notes carry their track's name; drum hits are GM keys, not pitches
+      const drumTracks = new Set(response.tracks.filter(track => track.kind === 'percussion').map(track => track.name));
+      const pitched = response.musicalSequence.filter(note => !drumTracks.has(note.instrument));
+      const { key, chords } = analyzeHarmony(pitched, timing);
+      if (!key) return [];
+      const chart = chords.slice(0, 8).map(chord => chord.symbol).join(' | ');
+      return [`Local analysis: ${key.name}${chart ? ` — ${chart}${chords.length > 8 ? ' | …' : ''}` : ''}`];
+    }
+  },
+  {
+    id: "instrumentation",
+    name: "Suggest Instrumentation",
+    description: "Recommend instruments that complement the selected style.",
+    prompt: "Instrumentation: choose an instrument patch for every track that suits the style and explain each choice in 'instrumentation'.",
+    schema: {
+      instrumentation: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            track: { type: 'string' },
+            instrument: { type: 'string' },
+            reason: { type: 'string' }
+          },
+          required: ['track', 'instrument', 'reason']
+        }
+      }
+    },
+    formatFields: fields => asArray(fields.instrumentation)
+      .filter(entry => entry && typeof entry.track === 'string')
+      .map(entry => `${entry.track} → ${entry.instrument}: ${entry.reason}`)
+  },
+  {
+    id: "rhythm_generation",
+    name: "Generate Rhythm Section",
+    description: "Create a complementary drum and bass line.",
+    prompt: "Rhythm section: include a percussion track named 'Drums' (kind 'percussion', hits given by 'drum') and a pitched track named 'Bass' that lock to the meter and support the other parts.",
+    execute: ({ response, timing }) => {
+      const rhythm = response.tracks.filter(t => t.kind === 'percussion' || isRhythmTrack(t.name) || isRhythmTrack(t.instrument));
+      if (rhythm.length === 0) return ['The reply has no drum or bass track.'];
+      return rhythm.map(track => {
+        const notes = response.musicalSequence.filter(n => n.instrument === track.name);
+        const bars = new Set(notes.map(n => getBarAt(timing, n.time).index)).size;
+        return `${track.name}: ${notes.length} notes over ${bars} bar${bars === 1 ? '' : 's'}`;
+      });
+    }
+  },
+  {
+    id: "web_inspiration",
+    name: "Web Search for Inspiration",
+    description: "Simulate a search for similar themes and styles online.",
+    prompt: "Web inspiration: search the web for pieces, artists and production techniques in this style, and list what shaped the reply in 'references'.",
+    useSearch: true,
+    schema: {
+      references: { type: 'array', items: { type: 'string' } }
+    },
+    formatFields: fields => asArray(fields.references).filter((r): r is string => typeof r === 'string')
+  },
+  {
+    id: "lyric_writing",
+    name: "Write Lyrics",
+    description: "Generate lyrics that match the mood of the music.",
+    prompt: "Lyrics: write lyrics for the main melody in 'lyrics', one syllable per melody note where possible.",
+    promptWhenDisabled: "Leave 'lyrics' null.",
+    execute: ({ response }) => {
+      if (!response.lyrics) return ['The reply has no lyrics.'];
+      // The melody is taken to be the track sitting highest
+      const byTrack = new Map<string, Note[]>();
+      response.musicalSequence.forEach(n => byTrack.set(n.instrument, [...(byTrack.get(n.instrument) || []), n]));
+      const melody = [...byTrack.entries()].sort((a, b) => getMedianMidi(b[1]) - getMedianMidi(a[1]))[0];
+      const syllables = countSyllables(response.lyrics);
+      if (!melody) return [`${syllables} syllables`];
+      const onsets = new Set(melody[1].map(n => n.time)).size;
+      const fit = syllables === onsets ? 'one per note' : syllables > onsets ? `${syllables - onsets} more than notes` : `${onsets - syllables} fewer than notes`;
+      return [`${syllables} syllables for ${onsets} notes in ${melody[0]} (${fit})`];
+    }
+  }
+];
+
+export const getTools = (toolIds: string[]): AgentTool[] => AVAILABLE_TOOLS.filter(tool => toolIds.includes(tool.id));
+
+// The part of the turn message describing which tools are on
+export const buildToolPrompt = (toolIds: string[]): string => {
+  const lines = AVAILABLE_TOOLS
+    .map(tool => (toolIds.includes(tool.id) ? tool.prompt : tool.promptWhenDisabled))
+    .filter((line): line is string => !!line);
+  return lines.length ? `Tools for this turn:\n${lines.map(line => `- ${line}`).join('\n')}` : '';
+};
+
+// Adds the reply fields requested by the enabled tools
+export const extendSchema = (schema: ResponseSchema, toolIds: string[]): ResponseSchema => {
+  const extra = getTools(toolIds).reduce((fields, tool) => ({ ...fields, ...tool.schema }), {} as { [field: string]: ResponseSchema });
+  return {
+    ...schema,
+    properties: { ...schema.properties, ...extra },
+    required: [...(schema.required || []), ...Object.keys(extra)]
+  };
+};
+
+export const collectToolResults = (toolIds: string[], context: ToolContext): ToolResult[] =>
+  getTools(toolIds)
+    .map(tool => ({
+      toolId: tool.id,
+      title: tool.name,
+      lines: [...(tool.formatFields?.(context.fields) || []), ...(tool.execute?.(context) || [])]
+    }))
+    .filter(result => result.lines.length > 0);
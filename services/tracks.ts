@@ -0,0 +1,70 @@
+import { Note, Track, TrackKind, TrackLayout } from '../types';
+import { TRACK_COLORS } from '../constants';
+import { inferTrackKind } from './drums';
+
+export const createTrackId = (): string => `trk-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createTrack = (name: string, instrument: string, index: number, kind: TrackKind = 'pitched'): Track => ({
+  id: createTrackId(),
+  name,
+  kind,
+  instrument,
+  color: TRACK_COLORS[index % TRACK_COLORS.length],
+  mute: false,
+  solo: false,
+  gain: 0.8,
+  pan: 0
+});
+
+const findTrackByName = (tracks: Track[], name: string): Track | undefined =>
+  tracks.find(t => t.name.toLowerCase() === name.trim().toLowerCase());
+
+/**
+ * Gives every note a track. Notes whose `trackId` is unknown are matched by instrument name,
+ * and new tracks are created (using the layout's patch and kind when given) for names not seen
+ * before; without a layout, names like "Drums" make a percussion track.
+ * `note.instrument` is kept equal to its track's name so instrument-keyed code stays per-track.
+ */
+export const bindNotesToTracks = (notes: Note[], tracks: Track[], layout: TrackLayout[] = []): { notes: Note[]; tracks: Track[] } => {
+  const nextTracks = [...tracks];
+  const byId = new Map(nextTracks.map(t => [t.id, t]));
+
+  const bound = notes.map(note => {
+    let track = note.trackId ? byId.get(note.trackId) : undefined;
+    if (!track) {
+      const name = note.instrument.trim() || 'Lead';
+      track = findTrackByName(nextTracks, name);
+      if (!track) {
+        const planned = layout.find(l => l.name.toLowerCase() === name.toLowerCase());
+        track = createTrack(name, planned?.instrument || name, nextTracks.length, planned?.kind || inferTrackKind(name));
+        nextTracks.push(track);
+        byId.set(track.id, track);
+      }
+    }
+    return note.trackId === track.id && note.instrument === track.name
+      ? note
+      : { ...note, trackId: track.id, instrument: track.name };
+  });
+
+  return { notes: bound, tracks: nextTracks };
+};
+
+// Drops notes of deleted tracks and carries track renames over to their notes
+export const syncNotesToTracks = (notes: Note[], tracks: Track[]): Note[] => {
+  const byId = new Map(tracks.map(t => [t.id, t]));
+  return notes
+    .filter(note => !note.trackId || byId.has(note.trackId))
+    .map(note => {
+      const track = note.trackId ? byId.get(note.trackId) : undefined;
+      return track && track.name !== note.instrument ? { ...note, instrument: track.name } : note;
+    });
+};
+
+// Tracks that should sound: soloed tracks if any are soloed, otherwise every unmuted track
+export const getAudibleTrackIds = (tracks: Track[]): Set<string> => {
+  const soloed = tracks.filter(t => t.solo);
+  return new Set((soloed.length ? soloed : tracks.filter(t => !t.mute)).map(t => t.id));
+};
+
+export const groupNotesByTrack = (notes: Note[], tracks: Track[]): { track: Track; notes: Note[] }[] =>
+  tracks.map(track => ({ track, notes: notes.filter(n => n.trackId === track.id) }));
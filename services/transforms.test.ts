@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types';
+import {
+  applyToSelection, exceptNotes, humanize, invert, quantize, retrograde, shiftTime, snapToScale, timeStretch,
+  transposeChromatic, transposeDiatonic
+} from './transforms';
+
+const melody = (...pitches: string[]): Note[] =>
+  pitches.map((pitch, i) => ({ pitch, duration: 'quarter', instrument: 'Lead', time: i * 4 }));
+
+const pitchesOf = (notes: Note[]) => notes.map(n => n.pitch);
+const timesOf = (notes: Note[]) => notes.map(n => Math.round(n.time * 1000) / 1000);
+
+const C_MAJOR = { tonic: 0, mode: 'major' as const };
+
+describe('pitch transforms', () => {
+  it('transposes by semitones, keeping flat spellings flat and notes within C1–C8', () => {
+    expect(pitchesOf(transposeChromatic(melody('C4', 'Eb4', 'B7'), 3))).toEqual(['D#4', 'Gb4', 'D7']);
+    expect(pitchesOf(transposeChromatic(melody('D4'), -2))).toEqual(['C4']);
+  });
+
+  it('transposes by scale steps, keeping chromatic notes chromatic', () => {
+    expect(pitchesOf(transposeDiatonic(melody('C4', 'E4', 'G4', 'B4'), 2, C_MAJOR))).toEqual(['E4', 'G4', 'B4', 'D5']);
+    expect(pitchesOf(transposeDiatonic(melody('C4', 'C#4'), -1, C_MAJOR))).toEqual(['B3', 'C4']);
+    expect(pitchesOf(transposeDiatonic(melody('A4'), 1, { tonic: 9, mode: 'minor-pentatonic' }))).toEqual(['C5']);
+  });
+
+  it('snaps to the nearest scale tone, going down from the middle', () => {
+    expect(pitchesOf(snapToScale(melody('C#4', 'F#4', 'E4'), C_MAJOR))).toEqual(['C4', 'F4', 'E4']);
+    expect(pitchesOf(snapToScale(melody('B4'), { tonic: 9, mode: 'minor-pentatonic' }))).toEqual(['C5']);
+  });
+
+  it('mirrors pitches around the middle of their range or a given axis', () => {
+    expect(pitchesOf(invert(melody('C4', 'E4', 'G4')))).toEqual(['G4', 'D#4', 'C4']);
+    expect(pitchesOf(invert(melody('C4', 'E4'), 60))).toEqual(['C4', 'G#3']);
+  });
+
+  it('leaves the notes that are kept out of a transform alone', () => {
+    const notes = [...melody('C4', 'E4'), { pitch: 'C2', duration: 'sixteenth', instrument: 'Drums', time: 0 } as Note];
+    const result = exceptNotes(notes, note => note.instrument === 'Drums', selected => transposeChromatic(selected, 12));
+    expect(pitchesOf(result)).toEqual(['C5', 'E5', 'C2']);
+    expect(result[2]).toBe(notes[2]);
+  });
+});
+
+describe('time transforms', () => {
+  it('shifts notes in time without moving them before the start', () => {
+    expect(timesOf(shiftTime(melody('C4', 'D4'), 4 / 3))).toEqual([1.333, 5.333]);
+    expect(timesOf(shiftTime(melody('C4', 'D4'), -2))).toEqual([0, 2]);
+  });
+
+  it('plays a passage backwards within its own span', () => {
+    const notes: Note[] = [
+      { pitch: 'C4', duration: 'quarter', instrument: 'Lead', time: 0 },
+      { pitch: 'D4', duration: 'eighth', instrument: 'Lead', time: 4 },
+      { pitch: 'E4', duration: 'half', instrument: 'Lead', time: 6 }
+    ];
+    expect(timesOf(retrograde(notes))).toEqual([10, 8, 0]);
+  });
+
+  it('stretches starts and lengths from the first note', () => {
+    const notes: Note[] = [
+      { pitch: 'C4', duration: 'eighth', instrument: 'Lead', time: 4 },
+      { pitch: 'D4', duration: 'eighth', instrument: 'Lead', time: 6 }
+    ];
+    const doubled = timeStretch(notes, 2);
+    expect(timesOf(doubled)).toEqual([4, 8]);
+    expect(doubled.map(n => n.duration)).toEqual(['quarter', 'quarter']);
+    expect(timeStretch(notes, 0)).toBe(notes);
+  });
+
+  it('quantizes starts and lengths, with swing on the off-beats', () => {
+    const notes: Note[] = [
+      { pitch: 'C4', duration: 'sixteenth', instrument: 'Lead', time: 1.333 },
+      { pitch: 'D4', duration: 'sixteenth', instrument: 'Lead', time: 3.667 }
+    ];
+    expect(timesOf(quantize(notes, { grid: 2, strength: 1, swing: 0, lengths: false }))).toEqual([2, 4]);
+    expect(timesOf(quantize(notes, { grid: 2, strength: 1, swing: 1, lengths: false }))).toEqual([2.667, 4]);
+    expect(timesOf(quantize(notes, { grid: 2, strength: 0, swing: 0, lengths: false }))).toEqual([1.333, 3.667]);
+    expect(quantize(notes, { grid: 2, strength: 1, swing: 0, lengths: true }).map(n => n.duration)).toEqual(['eighth', 'eighth']);
+  });
+
+  it('humanizes repeatably and moves chords as one', () => {
+    const chord: Note[] = ['C4', 'E4', 'G4'].map(pitch => ({ pitch, duration: 'half', instrument: 'Piano', time: 8 }));
+    const notes = [...chord, ...melody('C5', 'D5', 'E5')];
+    const once = humanize(notes, 1, 42);
+    expect(humanize(notes, 1, 42)).toEqual(once);
+    expect(new Set(once.slice(0, 3).map(n => n.time)).size).toBe(1);
+    once.forEach((note, i) => {
+      expect(Math.abs(note.time - notes[i].time)).toBeLessThanOrEqual(1);
+      expect(note.time).toBeGreaterThanOrEqual(0);
+      expect(Math.abs(note.time * 3 - Math.round(note.time * 3))).toBeLessThan(1e-9);
+    });
+  });
+});
+
+describe('applyToSelection', () => {
+  it('transforms only the selected notes and returns them for reselection', () => {
+    const notes = melody('C4', 'D4', 'E4');
+    const { notes: next, selected } = applyToSelection(notes, new Set([notes[1]]), selection => transposeChromatic(selection, 1));
+    expect(pitchesOf(next)).toEqual(['C4', 'D#4', 'E4']);
+    expect(selected).toEqual([next[1]]);
+    expect(next[0]).toBe(notes[0]);
+  });
+
+  it('transforms everything when nothing is selected', () => {
+    const { notes, selected } = applyToSelection(melody('C4', 'D4'), new Set(), selection => transposeChromatic(selection, -12));
+    expect(pitchesOf(notes)).toEqual(['C3', 'D3']);
+    expect(selected).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import { Note } from '../types';
+import { foldIntoRange, midiToPitch, parsePitch } from './pitch';
+import { getNoteLength } from './notation';
+import { unitsToDuration } from './duration';
+
+// Every transform maps notes one-to-one and keeps their order, so a selection can be
+// transformed in place. Times and lengths come out on the canvas's triplet grid.
+
+export type ScaleMode =
+  | 'major' | 'minor' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'locrian'
+  | 'harmonic-minor' | 'major-pentatonic' | 'minor-pentatonic' | 'blues';
+
+export const SCALE_MODES: { [mode in ScaleMode]: { label: string; intervals: number[] } } = {
+  'major': { label: 'Major', intervals: [0, 2, 4, 5, 7, 9, 11] },
+  'minor': { label: 'Natural minor', intervals: [0, 2, 3, 5, 7, 8, 10] },
+  'dorian': { label: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10] },
+  'phrygian': { label: 'Phrygian', intervals: [0, 1, 3, 5, 7, 8, 10] },
+  'lydian': { label: 'Lydian', intervals: [0, 2, 4, 6, 7, 9, 11] },
+  'mixolydian': { label: 'Mixolydian', intervals: [0, 2, 4, 5, 7, 9, 10] },
+  'locrian': { label: 'Locrian', intervals: [0, 1, 3, 5, 6, 8, 10] },
+  'harmonic-minor': { label: 'Harmonic minor', intervals: [0, 2, 3, 5, 7, 8, 11] },
+  'major-pentatonic': { label: 'Major pentatonic', intervals: [0, 2, 4, 7, 9] },
+  'minor-pentatonic': { label: 'Minor pentatonic', intervals: [0, 3, 5, 7, 10] },
+  'blues': { label: 'Blues', intervals: [0, 3, 5, 6, 7, 10] }
+};
+
+export interface Scale {
+  tonic: number; // Pitch class, 0 = C
+  mode: ScaleMode;
+}
+
+export interface QuantizeOptions {
+  grid: number; // Grid units, e.g. 1 for sixteenths or 4/3 for triplet eighths
+  strength: number; // 0 leaves notes alone, 1 moves them fully onto the grid
+  swing: number; // 0 straight, 1 pushes every off-beat to the triplet position
+  lengths: boolean; // Quantize note lengths as well as starts
+}
+
+const snapThird = (units: number): number => Math.round(units * 3) / 3;
+
+const mod = (value: number, divisor: number): number => ((value % divisor) + divisor) % divisor;
+
+// Re-spells a note at a new MIDI number, keeping flat spellings flat
+const repitch = (note: Note, midi: number): Note => {
+  const parsed = parsePitch(note.pitch);
+  return { ...note, pitch: midiToPitch(foldIntoRange(midi), !!parsed && parsed.alter < 0) };
+};
+
+const mapPitches = (notes: Note[], map: (midi: number) => number): Note[] =>
+  notes.map(note => {
+    const parsed = parsePitch(note.pitch);
+    return parsed ? repitch(note, map(parsed.midi)) : note;
+  });
+
+const getSpan = (notes: Note[]): { start: number; end: number } => ({
+  start: Math.min(...notes.map(n => n.time)),
+  end: Math.max(...notes.map(n => n.time + getNoteLength(n)))
+});
+
+export const transposeChromatic = (notes: Note[], semitones: number): Note[] =>
+  mapPitches(notes, midi => midi + semitones);
+
+/**
+ * Moves notes by scale steps. Notes outside the scale keep their distance from the scale
+ * tone below them, so chromatic passing notes stay chromatic.
+ */
+export const transposeDiatonic = (notes: Note[], steps: number, scale: Scale): Note[] => {
+  const { intervals } = SCALE_MODES[scale.mode];
+  return mapPitches(notes, midi => {
+    const fromTonic = midi - scale.tonic;
+    const octave = Math.floor(fromTonic / 12);
+    const pc = mod(fromTonic, 12);
+    const degree = intervals.reduce((found, interval, i) => (interval <= pc ? i : found), 0);
+    const target = degree + steps;
+    const targetOctave = octave + Math.floor(target / intervals.length);
+    return scale.tonic + targetOctave * 12 + intervals[mod(target, intervals.length)] + (pc - intervals[degree]);
+  });
+};
+
+// Nearest pitch in the scale; a note exactly between two scale tones goes down
+export const snapToScale = (notes: Note[], scale: Scale): Note[] => {
+  const { intervals } = SCALE_MODES[scale.mode];
+  const inScale = (midi: number) => intervals.includes(mod(midi - scale.tonic, 12));
+  return mapPitches(notes, midi => {
+    for (let distance = 0; distance < 12; distance++) {
+      if (inScale(midi - distance)) return midi - distance;
+      if (inScale(midi + distance)) return midi + distance;
+    }
+    return midi;
+  });
+};
+
+export const shiftTime = (notes: Note[], units: number): Note[] =>
+  notes.map(note => ({ ...note, time: Math.max(0, snapThird(note.time + units)) }));
+
+// Mirrors pitches around an axis; by default the middle of the notes' own range
+export const invert = (notes: Note[], axisMidi?: number): Note[] => {
+  const midis = notes.map(n => parsePitch(n.pitch)?.midi).filter((m): m is number => m !== undefined);
+  if (midis.length === 0) return notes;
+  const twiceAxis = axisMidi !== undefined ? 2 * axisMidi : Math.min(...midis) + Math.max(...midis);
+  return mapPitches(notes, midi => twiceAxis - midi);
+};
+
+// Plays the passage backwards within the span it already occupies
+export const retrograde = (notes: Note[]): Note[] => {
+  if (notes.length === 0) return notes;
+  const { start, end } = getSpan(notes);
+  return notes.map(note => ({ ...note, time: Math.max(0, snapThird(start + end - note.time - getNoteLength(note))) }));
+};
+
+// Scales starts and lengths by `factor`, anchored at the first note
+export const timeStretch = (notes: Note[], factor: number): Note[] => {
+  if (notes.length === 0 || factor <= 0) return notes;
+  const { start } = getSpan(notes);
+  return notes.map(note => ({
+    ...note,
+    time: snapThird(start + (note.time - start) * factor),
+    duration: unitsToDuration(Math.max(1 / 3, snapThird(getNoteLength(note) * factor)))
+  }));
+};
+
+/**
+ * Pulls starts (and optionally lengths) towards the grid. With swing, every second grid
+ * position is pushed late by up to a third of a grid step.
+ */
+export const quantize = (notes: Note[], options: QuantizeOptions): Note[] => {
+  const { grid, strength, swing, lengths } = options;
+  if (grid <= 0) return notes;
+  return notes.map(note => {
+    const step = Math.round(note.time / grid);
+    const target = step * grid + (step % 2 === 1 ? (swing * grid) / 3 : 0);
+    const time = Math.max(0, snapThird(note.time + (target - note.time) * strength));
+    if (!lengths) return { ...note, time };
+    const length = getNoteLength(note);
+    const targetLength = Math.max(grid, Math.round(length / grid) * grid);
+    return { ...note, time, duration: unitsToDuration(Math.max(1 / 3, snapThird(length + (targetLength - length) * strength))) };
+  });
+};
+
+// Small deterministic PRNG so a humanize pass can be repeated exactly from its seed
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Nudges starts by up to `amount` grid units either way. Notes struck together on a track
+ * move together so chords stay intact.
+ */
+export const humanize = (notes: Note[], amount: number, seed: number): Note[] => {
+  const random = createRandom(seed);
+  const offsets = new Map<string, number>();
+  return notes.map(note => {
+    const key = `${note.trackId || note.instrument}|${note.time}`;
+    if (!offsets.has(key)) offsets.set(key, (random() * 2 - 1) * amount);
+    return { ...note, time: Math.max(0, snapThird(note.time + offsets.get(key)!)) };
+  });
+};
+
+// Runs a pitch transform on every note except those `keep` picks out (such as drum hits)
+export const exceptNotes = (notes: Note[], keep: (note: Note) => boolean, transform: (notes: Note[]) => Note[]): Note[] => {
+  const transformed = transform(notes.filter(note => !keep(note)));
+  let next = 0;
+  return notes.map(note => (keep(note) ? note : transformed[next++]));
+};
+
+/**
+ * Runs a transform on the selected notes only (or on everything when nothing is selected)
+ * and returns the new score along with the transformed notes, for keeping them selected.
+ */
+export const applyToSelection = (
+  notes: Note[],
+  selection: Set<Note>,
+  transform: (notes: Note[]) => Note[]
+): { notes: Note[]; selected: Note[] } => {
+  const targets = selection.size > 0 ? notes.filter(n => selection.has(n)) : notes;
+  const transformed = transform(targets);
+  const replacements = new Map(targets.map((note, i) => [note, transformed[i]]));
+  return {
+    notes: notes.map(note => replacements.get(note) || note),
+    selected: selection.size > 0 ? transformed : []
+  };
+};
@@ -0,0 +1,201 @@
+import { Note, Timing, Track } from '../types';
+import { getNoteEnd, getScoreEnd } from './notation';
+import { createNoteIndex, NoteIndex } from './noteIndex';
+import { getBarAt, getBarLength, getBarLines, getBpmAt, secondsToUnit, unitToSeconds } from './timing';
+import { getAudibleTrackIds } from './tracks';
+import { createTrackBus, scheduleClick, scheduleTrackNote, TrackBus, updateTrackBus } from './synth';
+
+export interface LoopRegion {
+  start: number; // Grid units
+  end: number;
+}
+
+export interface TransportScore {
+  notes: Note[];
+  tracks: Track[];
+  timing: Timing;
+}
+
+export interface TransportOptions {
+  loop: LoopRegion | null; // Null when looping is off
+  metronome: boolean;
+}
+
+export interface Transport {
+  play: (from: number, countIn: boolean) => void;
+  stop: () => number; // Silences everything and returns the grid position it stopped at
+  getPosition: () => number;
+  isCountingIn: () => boolean;
+}
+
+const TICK_MS = 25;
+const LOOKAHEAD_SECONDS = 0.12;
+const START_DELAY_SECONDS = 0.05;
+
+// Grid position `unit` sounds at context time `contextTime`; a new anchor starts at every loop wrap
+interface Anchor {
+  contextTime: number;
+  unit: number;
+}
+
+const timeOf = (anchor: Anchor, unit: number, timing: Timing): number =>
+  anchor.contextTime + unitToSeconds(timing, unit) - unitToSeconds(timing, anchor.unit);
+
+const unitAt = (anchor: Anchor, time: number, timing: Timing): number =>
+  secondsToUnit(timing, unitToSeconds(timing, anchor.unit) + time - anchor.contextTime);
+
+/**
+ * Lookahead scheduler for live playback. A timer wakes every 25 ms and schedules what starts in
+ * the next ~120 ms, reading `getScore` and `getOptions` each time, so edits, mixer moves and
+ * loop changes are heard almost at once and loops wrap without a gap.
+ */
+export const createTransport = (
+  ctx: AudioContext,
+  dest: AudioNode,
+  getScore: () => TransportScore,
+  getOptions: () => TransportOptions,
+  onEnd: () => void
+): Transport => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let anchors: Anchor[] = [];
+  let cursor = 0; // Grid position scheduled up to
+  let cursorTime = 0; // Context time scheduled up to
+  let sources: { node: AudioScheduledSourceNode; end: number }[] = [];
+  const buses = new Map<string, TrackBus>();
+  let indexed: { notes: Note[]; index: NoteIndex } | null = null;
+
+  const keep = (nodes: AudioScheduledSourceNode[], end: number) => nodes.forEach(node => sources.push({ node, end }));
+
+  const getPosition = (): number => {
+    if (anchors.length === 0) return cursor;
+    const now = ctx.currentTime;
+    const anchor = [...anchors].reverse().find(a => a.contextTime <= now);
+    if (!anchor) return anchors[0].unit; // Still counting in
+    return Math.max(anchor.unit, unitAt(anchor, now, getScore().timing));
+  };
+
+  const getBus = (track: Track): AudioNode => {
+    let bus = buses.get(track.id);
+    if (!bus) {
+      bus = createTrackBus(ctx, dest, track);
+      buses.set(track.id, bus);
+    }
+    return bus.input;
+  };
+
+  // Re-sorted only after an edit, so long scores don't cost a full pass on every tick
+  const getIndex = (notes: Note[]): NoteIndex => {
+    if (!indexed || indexed.notes !== notes) indexed = { notes, index: createNoteIndex(notes) };
+    return indexed.index;
+  };
+
+  // Notes and clicks starting in [from, to) of the current anchor
+  const scheduleWindow = (anchor: Anchor, from: number, to: number, score: TransportScore, options: TransportOptions) => {
+    const { notes, tracks, timing } = score;
+    const audible = getAudibleTrackIds(tracks);
+    const trackById = new Map(tracks.map(t => [t.id, t]));
+    getIndex(notes).query(from, to).forEach(i => {
+      const note = notes[i];
+      if (note.time < from) return;
+      const track = note.trackId ? trackById.get(note.trackId) : undefined;
+      if (track && !audible.has(track.id)) return;
+      // Notes are cut at the loop end so the wrap stays clean
+      const end = options.loop && note.time < options.loop.end ? Math.min(getNoteEnd(note), options.loop.end) : getNoteEnd(note);
+      const start = timeOf(anchor, note.time, timing);
+      const stop = timeOf(anchor, end, timing);
+      keep(scheduleTrackNote(ctx, track ? getBus(track) : dest, note, track, start, stop - start), stop + 2);
+    });
+    if (!options.metronome) return;
+    getBarLines(timing, to).forEach(bar => {
+      for (let beat = 0; beat * bar.beatLength < bar.length - 1e-6; beat++) {
+        const unit = bar.time + beat * bar.beatLength;
+        if (unit < from || unit >= to) continue;
+        const time = timeOf(anchor, unit, timing);
+        keep([scheduleClick(ctx, dest, time, beat === 0)], time + 0.1);
+      }
+    });
+  };
+
+  const stop = (): number => {
+    const position = getPosition();
+    if (timer !== null) clearInterval(timer);
+    timer = null;
+    sources.forEach(({ node }) => {
+      try { node.stop(); } catch (e) {}
+    });
+    sources = [];
+    anchors = [];
+    cursor = position;
+    return position;
+  };
+
+  const tick = () => {
+    const score = getScore();
+    const requested = getOptions();
+    // Anything shorter than a grid unit is not treated as a loop
+    const loop = requested.loop && requested.loop.end - requested.loop.start >= 1 ? requested.loop : null;
+    const options = { ...requested, loop };
+    const now = ctx.currentTime;
+    const horizon = now + LOOKAHEAD_SECONDS;
+    score.tracks.forEach(track => {
+      const bus = buses.get(track.id);
+      if (bus) updateTrackBus(bus, track, now);
+    });
+
+    while (cursorTime < horizon) {
+      const anchor = anchors[anchors.length - 1];
+      const reached = unitAt(anchor, horizon, score.timing);
+      const wraps = !!loop && cursor < loop.end && reached >= loop.end;
+      const windowEnd = wraps ? loop!.end : reached;
+      scheduleWindow(anchor, cursor, windowEnd, score, options);
+      if (wraps) {
+        const wrapTime = timeOf(anchor, loop!.end, score.timing);
+        anchors.push({ contextTime: wrapTime, unit: loop!.start });
+        cursor = loop!.start;
+        cursorTime = wrapTime;
+      } else {
+        cursor = windowEnd;
+        cursorTime = horizon;
+      }
+    }
+
+    const current = anchors.filter(a => a.contextTime <= now).length;
+    if (current > 1) anchors = anchors.slice(current - 1);
+    sources = sources.filter(source => source.end > now);
+
+    const inLoop = !!loop && cursor < loop.end;
+    if (!inLoop && getPosition() >= getScoreEnd(score.notes)) {
+      stop();
+      onEnd();
+    }
+  };
+
+  // The count-in is one bar of the meter at the start position, at the tempo there
+  const play = (from: number, countIn: boolean) => {
+    stop();
+    const { timing } = getScore();
+    let startTime = ctx.currentTime + START_DELAY_SECONDS;
+    if (countIn) {
+      const bar = getBarAt(timing, from);
+      const beatSeconds = (bar.beatLength / 4) * (60 / getBpmAt(timing, from));
+      const beats = Math.round(getBarLength(bar.meter) / bar.beatLength);
+      for (let beat = 0; beat < beats; beat++) {
+        const time = startTime + beat * beatSeconds;
+        keep([scheduleClick(ctx, dest, time, beat === 0)], time + 0.1);
+      }
+      startTime += beats * beatSeconds;
+    }
+    anchors = [{ contextTime: startTime, unit: from }];
+    cursor = from;
+    cursorTime = startTime;
+    tick();
+    if (anchors.length > 0) timer = setInterval(tick, TICK_MS);
+  };
+
+  return {
+    play,
+    stop,
+    getPosition,
+    isCountingIn: () => anchors.length > 0 && ctx.currentTime < anchors[0].contextTime
+  };
+};
@@ -1,25 +1,136 @@
+export type NoteValue = 'whole' | 'half' | 'quarter' | 'eighth' | 'sixteenth';
+
+// A named value, optionally dotted or played as a triplet, or a free length in ticks
+export type NoteDuration = NoteValue | `dotted-${NoteValue}` | `triplet-${NoteValue}` | number;
+
 export interface Note {
   pitch: string;
-  duration: 'whole' | 'half' | 'quarter' | 'eighth';
+  duration: NoteDuration;
   instrument: string;
-  time: number; // The starting position in grid units
+  time: number; // The starting position in grid units; fractional (in thirds) inside triplets
+  trackId?: string; // Owning track; unbound notes are matched to a track by instrument name
+}
+
+// Percussion tracks hold drum hits keyed by General MIDI drum number instead of melodic notes
+export type TrackKind = 'pitched' | 'percussion';
+
+export interface Track {
+  id: string;
+  name: string;
+  kind: TrackKind;
+  instrument: string; // Patch used for playback; ignored on percussion tracks
+  color: string;
+  mute: boolean;
+  solo: boolean;
+  gain: number; // Linear, 0..1.5
+  pan: number; // -1 (left) .. 1 (right)
+}
+
+// How the model lays out the tracks of its reply
+export interface TrackLayout {
+  id: string | null;
+  name: string;
+  kind: TrackKind;
+  instrument: string;
+}
+
+export interface TempoChange {
+  time: number; // Grid units
+  bpm: number;
+}
+
+export interface MeterChange {
+  time: number; // Grid units, normally on a bar line
+  numerator: number;
+  denominator: number;
+}
+
+export interface Timing {
+  bpm: number; // Quarter notes per minute at the start of the piece
+  meter: [number, number];
+  tempoChanges: TempoChange[];
+  meterChanges: MeterChange[];
 }
 
 export interface Message {
   role: 'user' | 'model';
   text: string;
   isAudio?: boolean;
+  turnId?: string; // Session turn the message belongs to, for branching from it
+}
+
+export interface AudioClip {
+  data: string; // Base64
+  mimeType: string;
+}
+
+// One request/response pair exactly as exchanged with the model, replayed as history on later turns
+export interface ChatExchange {
+  message: string;
+  audio?: AudioClip;
+  reply: string; // Raw reply text
+}
+
+export interface SessionTurn {
+  id: string;
+  createdAt: number;
+  prompt: string; // What the user typed
+  isAudio: boolean;
+  canvas: { notes: Note[]; tracks: Track[]; timing: Timing } | null; // Sent with the turn; null for turns migrated from older projects
+  exchanges: ChatExchange[]; // The turn itself, then any repair follow-ups; empty for turns that never reached the model
+  summary: string; // Shown in the chat as the reply
+}
+
+export interface ChatSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  turns: SessionTurn[];
+  branchOf?: { sessionId: string; turnId: string }; // Where a branched session was split off
 }
 
 export interface AIResponse {
   thoughtProcess: string;
   musicalSequence: Note[];
+  tracks: TrackLayout[];
   lyrics: string | null;
-  abcNotation: string | null;
+  toolResults: ToolResult[];
+}
+
+// Everything needed to reopen a piece of work: the score, the chat and the last reply
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number; // Epoch milliseconds
+  updatedAt: number;
+  notes: Note[];
+  tracks: Track[];
+  timing: Timing;
+  style: string;
+  selectedTools: string[];
+  sessions: ChatSession[];
+  activeSessionId: string;
+  aiResponse: AIResponse | null;
+  groundingSources: any[];
 }
 
 export interface Tool {
   id: string;
   name: string;
   description: string;
-}
\ No newline at end of file
+}
+
+// What an enabled tool contributed to a reply, ready for display
+export interface ToolResult {
+  toolId: string;
+  title: string;
+  lines: string[];
+}
+
+export interface ScoreImportResult {
+  notes: Note[];
+  warnings: string[];
+  title?: string;
+  timing?: Timing;
+}